@@ -0,0 +1,151 @@
+// src/app/api/import/route.ts
+// This API route imports Markdown files as notes. It takes a multipart form
+// with one or more `files` (.md files or zip archives of them, see
+// src/lib/noteImport) and optional `tags`, `notebook`, `notebookPassword` and
+// `unlisted` fields applied to every imported note. Each file is checked like
+// a note created from the home page (including the profanity filter) and the
+// response reports the outcome per file, so one bad file does not stop the rest.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore, NewNote } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { parseTags } from '@/lib/tags';
+import { checkNotebookMembership } from '@/lib/notebooks';
+import { getLinkedSlugs } from '@/lib/wikiLinks';
+import { generateUniqueSlug } from '@/lib/slugs';
+import {
+  MAX_IMPORT_UPLOAD_BYTES,
+  collectImportFiles,
+  parseMarkdownFile,
+} from '@/lib/noteImport';
+import { Filter } from 'bad-words';
+
+// Initialize the profanity filter for server-side use
+const filter = new Filter();
+
+// The outcome of importing one file
+type ImportResult =
+  | { file: string; ok: true; slug: string; title: string }
+  | { file: string; ok: false; message: string };
+
+async function importNotes(req: NextRequest) {
+  try {
+    const store = getNoteStore();
+
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      return NextResponse.json({ message: 'Expected a multipart form with files.' }, { status: 400 });
+    }
+
+    const uploads = form.getAll('files').filter((value): value is File => typeof value !== 'string');
+    if (uploads.length === 0) {
+      return NextResponse.json({ message: 'Choose at least one file to import.' }, { status: 400 });
+    }
+    if (uploads.reduce((total, upload) => total + upload.size, 0) > MAX_IMPORT_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { message: `Uploads can be at most ${MAX_IMPORT_UPLOAD_BYTES / (1024 * 1024)} MB in total.` },
+        { status: 413 }
+      );
+    }
+
+    const tags = parseTags(form.get('tags') || []);
+    if ('error' in tags) {
+      return NextResponse.json({ message: tags.error }, { status: 400 });
+    }
+    // Tags are shown in search results and notebook listings
+    if (filter.isProfane(tags.join(' '))) {
+      return NextResponse.json(
+        { message: 'Profanity detected in tags. Please remove inappropriate language.', error: 'Profanity detected' },
+        { status: 400 }
+      );
+    }
+
+    // Importing into a notebook needs the notebook's password, like creating a note in it
+    const notebook = form.get('notebook') || undefined;
+    if (notebook) {
+      const notebookPassword = form.get('notebookPassword');
+      const notebookErrorResponse = await checkNotebookMembership(
+        notebook,
+        typeof notebookPassword === 'string' ? notebookPassword : undefined
+      );
+      if (notebookErrorResponse) {
+        return notebookErrorResponse;
+      }
+    }
+    const unlisted = form.get('unlisted') === 'true';
+
+    let files;
+    try {
+      files = await collectImportFiles(uploads);
+    } catch (error: unknown) {
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : 'The files could not be read.' },
+        { status: 400 }
+      );
+    }
+    if (files.length === 0) {
+      return NextResponse.json({ message: 'No Markdown files found to import.' }, { status: 400 });
+    }
+
+    const results: ImportResult[] = [];
+    for (const file of files) {
+      if (file.text === undefined) {
+        results.push({ file: file.name, ok: false, message: file.error || 'The file could not be read.' });
+        continue;
+      }
+
+      const { title, content, proposedSlug } = parseMarkdownFile(file.name, file.text);
+      if (!content) {
+        results.push({ file: file.name, ok: false, message: 'The file has no content.' });
+        continue;
+      }
+      if (filter.isProfane(`${title} ${content}`)) {
+        results.push({ file: file.name, ok: false, message: 'Profanity detected in title or content.' });
+        continue;
+      }
+
+      try {
+        const now = new Date();
+        const links = getLinkedSlugs(content);
+        const newNote: NewNote = {
+          slug: await generateUniqueSlug(store, proposedSlug),
+          title,
+          content,
+          unlisted: unlisted ? true : undefined,
+          tags: tags.length > 0 ? tags : undefined,
+          notebook: typeof notebook === 'string' ? notebook : undefined,
+          links: links.length > 0 ? links : undefined,
+          createdAt: now,
+          updatedAt: now,
+          revision: 1,
+          history: [{ content, title, timestamp: now }],
+        };
+        const createdNote = await store.create(newNote);
+        results.push({ file: file.name, ok: true, slug: createdNote.slug, title });
+      } catch (error: unknown) {
+        console.error(`Error importing ${file.name}:`, error);
+        results.push({ file: file.name, ok: false, message: 'The note could not be saved.' });
+      }
+    }
+
+    const imported = results.filter(result => result.ok).length;
+    return NextResponse.json(
+      {
+        message: `Imported ${imported} of ${results.length} file${results.length === 1 ? '' : 's'}.`,
+        results,
+      },
+      { status: imported > 0 ? 201 : 400 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error importing notes:', error);
+    return NextResponse.json(
+      { message: 'Failed to import notes.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('import', importNotes);
@@ -0,0 +1,45 @@
+// src/app/api/links/route.ts
+// This API route resolves the targets of wiki links (?slugs=a,b,c), so the
+// note page and the editor preview can flag links to notes that do not exist
+// or have expired (see src/lib/wikiLinks).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/rateLimit';
+import { resolveLinkTargets } from '@/lib/backlinks';
+import { MAX_WIKI_LINKS } from '@/lib/wikiLinks';
+
+const SLUG_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+async function resolveLinks(req: NextRequest) {
+  try {
+    const slugs = Array.from(
+      new Set(
+        (req.nextUrl.searchParams.get('slugs') || '')
+          .split(',')
+          .map(slug => slug.trim())
+          .filter(slug => SLUG_PATTERN.test(slug))
+      )
+    );
+
+    if (slugs.length === 0) {
+      return NextResponse.json({ message: 'At least one slug is required.' }, { status: 400 });
+    }
+    if (slugs.length > MAX_WIKI_LINKS) {
+      return NextResponse.json(
+        { message: `At most ${MAX_WIKI_LINKS} links can be resolved at once.` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ links: await resolveLinkTargets(slugs) }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error resolving links:', error);
+    return NextResponse.json(
+      { message: 'Failed to resolve links.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', resolveLinks);
@@ -0,0 +1,86 @@
+// src/app/api/notebooks/[slug]/route.ts
+// This API route lists a notebook's notes, most recently updated first,
+// optionally only those with a tag (?tag=). It needs the notebook password
+// (as `Authorization: Bearer <password>`) if the notebook has one. Titles of
+// notes that need a password to read are left out.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore, StoredNote } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { getBearerSecret, requiresSecret } from '@/lib/noteAuth';
+import { checkNotebookPassword } from '@/lib/notebooks';
+import { normalizeTag } from '@/lib/tags';
+
+/**
+ * Counts how many of the notes carry each tag, most used first.
+ */
+function countTags(notes: StoredNote[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    for (const tag of note.tags || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+async function listNotebook(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+    const notebook = await store.findNotebook(slug);
+
+    if (!notebook) {
+      return NextResponse.json({ message: 'Notebook not found.' }, { status: 404 });
+    }
+
+    const authErrorResponse = await checkNotebookPassword(notebook, getBearerSecret(req));
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    const now = new Date();
+    const isCurrent = (note: StoredNote) => !note.expiresAt || note.expiresAt > now;
+    const tag = normalizeTag(req.nextUrl.searchParams.get('tag') || '');
+    const allNotes = (await store.listNotebookNotes(slug)).filter(isCurrent);
+    const notes = tag ? allNotes.filter(note => note.tags?.includes(tag)) : allNotes;
+
+    return NextResponse.json(
+      {
+        notebook: {
+          slug: notebook.slug,
+          name: notebook.name,
+          isProtected: !!notebook.passwordHash,
+          createdAt: notebook.createdAt.toISOString(),
+        },
+        notes: notes.map(note => {
+          const isProtected = requiresSecret(note, 'view');
+          return {
+            slug: note.slug,
+            title: isProtected ? null : note.title,
+            isProtected,
+            encrypted: !!note.encrypted,
+            tags: note.tags || [],
+            updatedAt: note.updatedAt.toISOString(),
+          };
+        }),
+        tags: countTags(allNotes),
+      },
+      { status: 200 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error listing notebook:', error);
+    return NextResponse.json(
+      { message: 'Failed to list notebook.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', listNotebook);
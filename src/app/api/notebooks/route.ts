@@ -0,0 +1,86 @@
+// src/app/api/notebooks/route.ts
+// This API route creates notebooks: named collections of notes with an
+// optional password (see src/lib/notebooks). Notes are added to a notebook
+// when they are created or edited.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { hashSecret } from '@/lib/noteAuth';
+import { MAX_NOTEBOOK_NAME_LENGTH } from '@/lib/notebooks';
+import { Filter } from 'bad-words';
+
+// Initialize the profanity filter for server-side use
+const filter = new Filter();
+
+const NANOID_SLUG_LENGTH = 8;
+const MAX_SLUG_ATTEMPTS = 5;
+
+/**
+ * Picks an unused notebook slug based on the requested slug or the name,
+ * adding a random suffix if it is taken.
+ */
+async function generateNotebookSlug(proposedSlug: string): Promise<string> {
+  const store = getNoteStore();
+  const baseSlug = proposedSlug
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .substring(0, 50);
+
+  for (let attempt = 0; attempt < MAX_SLUG_ATTEMPTS; attempt++) {
+    const candidate = !baseSlug
+      ? nanoid(NANOID_SLUG_LENGTH)
+      : attempt === 0
+        ? baseSlug
+        : `${baseSlug}-${nanoid(4)}`;
+    if (!(await store.findNotebook(candidate))) {
+      return candidate;
+    }
+  }
+  return nanoid(NANOID_SLUG_LENGTH);
+}
+
+async function createNotebook(req: NextRequest) {
+  try {
+    const { name, password, customSlug } = await req.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ message: 'A notebook name is required.' }, { status: 400 });
+    }
+    if (name.length > MAX_NOTEBOOK_NAME_LENGTH) {
+      return NextResponse.json(
+        { message: `Notebook names can be at most ${MAX_NOTEBOOK_NAME_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+    if (filter.isProfane(name)) {
+      return NextResponse.json(
+        { message: 'Profanity detected in the notebook name. Please remove inappropriate language.', error: 'Profanity detected' },
+        { status: 400 }
+      );
+    }
+
+    const notebook = await getNoteStore().createNotebook({
+      slug: await generateNotebookSlug(customSlug || name),
+      name: name.trim(),
+      passwordHash: password ? await hashSecret(password) : undefined,
+      createdAt: new Date(),
+    });
+
+    return NextResponse.json(
+      { message: 'Notebook created successfully!', slug: notebook.slug },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating notebook:', error);
+    return NextResponse.json(
+      { message: 'Failed to create notebook.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('create', createNotebook);
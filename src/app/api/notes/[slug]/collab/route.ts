@@ -0,0 +1,183 @@
+// src/app/api/notes/[slug]/collab/route.ts
+// This API route powers real-time collaborative editing.
+//   GET  opens a Server-Sent Events stream: the first `init` event carries the
+//        live content and a server-issued clientId, followed by `update`,
+//        `cursor`, `participants`, `saved` and `error` events.
+//   POST sends an edit (diff-match-patch patch text) and/or cursor position
+//        for a connected clientId.
+// The stream is password protected like GET /api/notes/[slug]; the clientId it
+// issues then authorizes that participant's edits.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { expiredNoteResponse, noteNotFoundResponse } from '@/lib/expiredNotes';
+import { checkBearerPassword } from '@/lib/noteAuth';
+import { hasViewLimit, viewLimitedResponse } from '@/lib/viewLimit';
+import { getCollabSession, getOrCreateCollabSession, leaveCollabSession } from '@/lib/collab';
+import { parseChangeDetails } from '@/lib/historyEvents';
+import {Filter} from 'bad-words';
+
+// Initialize the profanity filter for server-side use
+const filter = new Filter();
+
+// Keep idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const MAX_NAME_LENGTH = 40;
+const MAX_PATCH_LENGTH = 100 * 1000;
+
+// --- GET Method: event stream ---
+async function openCollabStream(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const note = await getNoteStore().findBySlug(slug);
+
+    if (!note) {
+      return noteNotFoundResponse(slug);
+    }
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return expiredNoteResponse(note.expiresAt);
+    }
+
+    // The server merges live edits, which it cannot do on ciphertext
+    if (note.encrypted) {
+      return NextResponse.json(
+        { message: 'Live collaboration is not available for encrypted notes.' },
+        { status: 400 }
+      );
+    }
+
+    if (hasViewLimit(note)) {
+      return viewLimitedResponse('be edited');
+    }
+
+    const authErrorResponse = await checkBearerPassword(req, note, 'edit');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    // Names are credited as the author of the saved version, so they are checked like PUT's author
+    const nameDetails = parseChangeDetails(req.nextUrl.searchParams.get('name')?.slice(0, MAX_NAME_LENGTH), undefined);
+    if ('error' in nameDetails) {
+      return NextResponse.json({ message: nameDetails.error }, { status: 400 });
+    }
+    if (filter.isProfane(nameDetails.author ?? '')) {
+      return NextResponse.json(
+        { message: 'Profanity detected in name. Please remove inappropriate language.', error: 'Profanity detected' },
+        { status: 400 }
+      );
+    }
+    const name = nameDetails.author || 'Guest';
+    const clientId = nanoid();
+    const session = getOrCreateCollabSession(note);
+    const encoder = new TextEncoder();
+
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      leaveCollabSession(session, clientId);
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            close(); // The client went away
+          }
+        };
+
+        session.join(clientId, name, (event, data) => {
+          // The first event also tells the client who it is
+          const payload = event === 'init' ? { ...(data as object), clientId } : data;
+          write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+        });
+        heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        req.signal.addEventListener('abort', () => {
+          close();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+      },
+      cancel: close,
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error opening collaboration stream:', error);
+    return NextResponse.json(
+      { message: 'Failed to join collaboration session.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- POST Method: edits and cursor updates ---
+async function postCollabOperation(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const { clientId, patch, cursor } = await req.json();
+
+    const session = getCollabSession(slug);
+    if (!session || typeof clientId !== 'string' || !session.hasParticipant(clientId)) {
+      return NextResponse.json({ message: 'Not connected to the collaboration session.' }, { status: 409 });
+    }
+
+    let result = { content: session.content, version: session.version };
+
+    if (patch !== undefined) {
+      if (typeof patch !== 'string' || patch.length > MAX_PATCH_LENGTH) {
+        return NextResponse.json({ message: 'Invalid patch.' }, { status: 400 });
+      }
+      try {
+        result = session.applyPatch(clientId, patch);
+      } catch {
+        return NextResponse.json({ message: 'Invalid patch.' }, { status: 400 });
+      }
+    }
+
+    if (cursor && Number.isInteger(cursor.start) && Number.isInteger(cursor.end)) {
+      session.updateCursor(clientId, { start: cursor.start, end: cursor.end });
+    }
+
+    return NextResponse.json(result, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error applying collaborative edit:', error);
+    return NextResponse.json(
+      { message: 'Failed to apply edit.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('stream', openCollabStream);
+export const POST = withRateLimit('collab', postCollabOperation);
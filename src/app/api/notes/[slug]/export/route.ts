@@ -0,0 +1,80 @@
+// src/app/api/notes/[slug]/export/route.ts
+// This API route downloads a note as a file (?format=md|html|txt|json, see
+// src/lib/noteExport). It needs the same view access as reading the note.
+// Encrypted notes cannot be exported here because the server cannot read
+// them, and notes with a view limit are not exported because that would
+// reveal them without counting a view.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { expiredNoteResponse, noteNotFoundResponse } from '@/lib/expiredNotes';
+import { checkBearerPassword } from '@/lib/noteAuth';
+import { hasViewLimit, viewLimitedResponse } from '@/lib/viewLimit';
+import { EXPORT_FORMATS, exportNote, isExportFormat } from '@/lib/noteExport';
+
+async function exportNoteFile(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const format = req.nextUrl.searchParams.get('format') || 'md';
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { message: `format must be one of: ${EXPORT_FORMATS.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+
+    const note = await getNoteStore().findBySlug(slug);
+
+    if (!note) {
+      return noteNotFoundResponse(slug);
+    }
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return expiredNoteResponse(note.expiresAt);
+    }
+
+    const authErrorResponse = await checkBearerPassword(req, note, 'view');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    if (hasViewLimit(note)) {
+      return viewLimitedResponse('be exported');
+    }
+
+    if (note.encrypted) {
+      return NextResponse.json(
+        { message: 'Encrypted notes cannot be exported by the server. Copy their content from the note page instead.' },
+        { status: 400 }
+      );
+    }
+
+    const file = await exportNote(note, format, req.nextUrl.origin);
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error exporting note:', error);
+    return NextResponse.json(
+      { message: 'Failed to export note.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', exportNoteFile);
@@ -0,0 +1,157 @@
+// src/app/api/notes/[slug]/history/[revision]/restore/route.ts
+// This API route restores an older version of a note: POST copies the
+// version's content and title into the note as a new version, recorded with a
+// 'restored' event (see src/lib/historyEvents). The copy is made on the
+// server, so encrypted notes are restored without their key. Like any edit it
+// needs the edit secret and the note's current revision (If-Match or
+// baseRevision), and an author label and change message can be sent along.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore, NoteChanges, NoteHistoryEntry } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { formatETag, getRevision, parseBaseRevision } from '@/lib/revision';
+import { canViewNote, checkBodyPassword } from '@/lib/noteAuth';
+import { hasViewLimit, viewLimitedResponse } from '@/lib/viewLimit';
+import { getLinkedSlugs } from '@/lib/wikiLinks';
+import { getHistoryEvents, parseChangeDetails } from '@/lib/historyEvents';
+import { applyHistoryRetention } from '@/lib/historyRetention';
+import { conflictResponse } from '@/lib/noteResponse';
+import {Filter} from 'bad-words';
+
+// Initialize the profanity filter for server-side use
+const filter = new Filter();
+
+async function restoreNoteVersion(
+  req: NextRequest,
+  context: { params: { slug: string; revision: string } }
+) {
+  try {
+    const { slug, revision } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+
+    const version = Number(revision);
+    if (!/^\d+$/.test(revision) || !Number.isSafeInteger(version) || version < 1) {
+      return NextResponse.json({ message: 'Invalid version number.' }, { status: 400 });
+    }
+
+    // The body is optional for unprotected notes restored with an If-Match header
+    const { currentPassword, baseRevision, author, message } = await req.json().catch(() => ({}));
+
+    // Recorded with the new version to say who restored it and why
+    const changeDetails = parseChangeDetails(author, message);
+    if ('error' in changeDetails) {
+      return NextResponse.json({ message: changeDetails.error }, { status: 400 });
+    }
+    if (filter.isProfane(`${changeDetails.author ?? ''} ${changeDetails.message ?? ''}`)) {
+      return NextResponse.json(
+        { message: 'Profanity detected in author or message. Please remove inappropriate language.', error: 'Profanity detected' },
+        { status: 400 }
+      );
+    }
+
+    const note = await store.findBySlug(slug);
+
+    if (!note) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Cannot update a deleted note. Restore it first.' }, { status: 400 });
+    }
+
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return NextResponse.json({ message: 'Cannot update an expired note.' }, { status: 400 });
+    }
+
+    if (hasViewLimit(note)) {
+      return viewLimitedResponse('be edited');
+    }
+
+    const authErrorResponse = await checkBodyPassword(
+      req,
+      note,
+      'edit',
+      currentPassword,
+      'restore a version of this note'
+    );
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    // Concurrency: the restore must be based on the note's current revision
+    const requestedRevision = parseBaseRevision(req.headers.get('If-Match'), baseRevision);
+    if (requestedRevision === undefined) {
+      return NextResponse.json(
+        { message: 'An If-Match header or baseRevision is required to restore a version.' },
+        { status: 428 }
+      );
+    }
+    if (requestedRevision === null) {
+      return NextResponse.json({ message: 'Invalid If-Match header or baseRevision.' }, { status: 400 });
+    }
+    const currentRevision = getRevision(note);
+    if (requestedRevision !== '*' && requestedRevision !== currentRevision) {
+      return conflictResponse(note, await canViewNote(req, note, currentPassword));
+    }
+
+    const restored = await store.getVersion(slug, version);
+    if (!restored) {
+      return NextResponse.json({ message: `Version ${version} not found.` }, { status: 404 });
+    }
+
+    // Versions saved before titles were recorded keep the current title
+    const title = restored.title ?? note.title;
+    if (restored.content === note.content && title === note.title) {
+      return NextResponse.json(
+        { message: 'The note already matches this version.', revision: currentRevision },
+        { status: 200, headers: { ETag: formatETag(currentRevision) } }
+      );
+    }
+
+    const now = new Date();
+    const changes: NoteChanges = {
+      title,
+      content: restored.content,
+      updatedAt: now,
+      revision: currentRevision + 1,
+    };
+    // Keep the link graph in step with the content
+    if (!note.encrypted) {
+      changes.links = getLinkedSlugs(restored.content);
+    }
+
+    const historyEntry: NoteHistoryEntry = {
+      content: restored.content,
+      title,
+      timestamp: now,
+      ...changeDetails,
+      events: [...getHistoryEvents(note, changes, {}), { type: 'restored', version }],
+    };
+
+    // Only applied if nobody else saved in the meantime
+    const updated = await store.update(slug, changes, { historyEntry, expectedRevision: currentRevision });
+
+    if (!updated) {
+      const latestNote = await store.findBySlug(slug);
+      if (!latestNote) {
+        return NextResponse.json({ message: 'Note not found for update.' }, { status: 404 });
+      }
+      return conflictResponse(latestNote, await canViewNote(req, latestNote, currentPassword));
+    }
+    await applyHistoryRetention(note);
+
+    return NextResponse.json(
+      { message: `Note restored to version ${version}.`, revision: changes.revision },
+      { status: 200, headers: { ETag: formatETag(currentRevision + 1) } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error restoring note version:', error);
+    return NextResponse.json(
+      { message: 'Failed to restore version.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('update', restoreNoteVersion);
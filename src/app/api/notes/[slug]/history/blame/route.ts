@@ -0,0 +1,98 @@
+// src/app/api/notes/[slug]/history/blame/route.ts
+// This API route annotates a note line by line:
+// GET /api/notes/<slug>/history/blame returns each line of the latest version
+// (or of ?version=<number>) with the version that last changed it (see
+// src/lib/noteBlame), and the timestamp, author and message of each of those
+// versions. Access is the same as for the history itself. Encrypted notes are
+// annotated in the browser, since the server cannot read their versions.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { expiredNoteResponse, noteNotFoundResponse } from '@/lib/expiredNotes';
+import { trashedNoteResponse } from '@/lib/trash';
+import { checkBearerPassword } from '@/lib/noteAuth';
+import { hasViewLimit, viewLimitedResponse } from '@/lib/viewLimit';
+import { blameNoteContent } from '@/lib/noteBlame';
+
+async function getNoteBlame(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+
+    const versionParam = req.nextUrl.searchParams.get('version');
+    const requestedVersion = versionParam === null ? null : Number(versionParam);
+    if (requestedVersion !== null && (!Number.isSafeInteger(requestedVersion) || requestedVersion < 1)) {
+      return NextResponse.json({ message: 'version must be a version number.' }, { status: 400 });
+    }
+
+    const note = await store.findBySlug(slug);
+
+    if (!note) {
+      return noteNotFoundResponse(slug);
+    }
+
+    if (note.deletedAt) {
+      return trashedNoteResponse(note);
+    }
+
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return expiredNoteResponse(note.expiresAt);
+    }
+
+    if (hasViewLimit(note)) {
+      return viewLimitedResponse('show their history');
+    }
+
+    // Same as the history: the view secret, or a share link that includes history
+    const authErrorResponse = await checkBearerPassword(req, note, 'view', 'history');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    if (note.encrypted) {
+      return NextResponse.json(
+        { message: 'Encrypted notes can only be annotated on the history page.' },
+        { status: 400 }
+      );
+    }
+
+    const history = await store.getHistory(slug);
+    if (history.length === 0) {
+      return NextResponse.json({ message: 'This note has no history yet.' }, { status: 404 });
+    }
+    const version = requestedVersion ?? history[history.length - 1].version;
+    const versions = history.filter(entry => entry.version <= version);
+    if (versions[versions.length - 1]?.version !== version) {
+      return NextResponse.json({ message: `Version ${version} not found.` }, { status: 404 });
+    }
+
+    const lines = blameNoteContent(versions);
+
+    // Details of the versions the lines are attributed to
+    const blamedVersions = new Set(lines.map(line => line.version));
+    const revisions = versions
+      .filter(entry => blamedVersions.has(entry.version))
+      .map(entry => ({
+        version: entry.version,
+        title: entry.title ?? null, // Not recorded on older versions
+        timestamp: entry.timestamp.toISOString(),
+        author: entry.author ?? null,
+        message: entry.message ?? null,
+      }));
+
+    return NextResponse.json({ version, lines, revisions }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error annotating note:', error);
+    return NextResponse.json(
+      { message: 'Failed to annotate note.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('history', getNoteBlame);
@@ -0,0 +1,144 @@
+// src/app/api/notes/[slug]/history/diff/route.ts
+// This API route compares two versions of a note:
+// GET /api/notes/<slug>/history/diff?from=<version>&to=<version> returns the
+// line diff between them as hunks with word-level changes (see
+// src/lib/noteDiff), or a standard unified diff for ?format=unified or
+// `Accept: text/x-diff`. ?context= sets how many unchanged lines surround each
+// change. Access is the same as for the history itself. Encrypted notes are
+// compared in the browser, since the server cannot read their versions.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore, NoteVersion } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { expiredNoteResponse, noteNotFoundResponse } from '@/lib/expiredNotes';
+import { trashedNoteResponse } from '@/lib/trash';
+import { checkBearerPassword } from '@/lib/noteAuth';
+import { hasViewLimit, viewLimitedResponse } from '@/lib/viewLimit';
+import { diffNoteContent, formatUnifiedDiff, parseDiffContext } from '@/lib/noteDiff';
+
+/**
+ * Reads a version number from the query string.
+ * @returns The version, or null if it is missing or not a positive integer.
+ */
+function parseVersion(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const version = Number(value);
+  return Number.isSafeInteger(version) && version >= 1 ? version : null;
+}
+
+/**
+ * Describes one side of the comparison.
+ */
+function describeVersion(version: NoteVersion) {
+  return {
+    version: version.version,
+    title: version.title ?? null, // Not recorded on older versions
+    timestamp: version.timestamp.toISOString(),
+    author: version.author ?? null,
+  };
+}
+
+async function getNoteDiff(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+    const searchParams = req.nextUrl.searchParams;
+
+    const from = parseVersion(searchParams.get('from'));
+    const to = parseVersion(searchParams.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { message: 'from and to must be version numbers.' },
+        { status: 400 }
+      );
+    }
+
+    const note = await store.findBySlug(slug);
+
+    if (!note) {
+      return noteNotFoundResponse(slug);
+    }
+
+    if (note.deletedAt) {
+      return trashedNoteResponse(note);
+    }
+
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return expiredNoteResponse(note.expiresAt);
+    }
+
+    if (hasViewLimit(note)) {
+      return viewLimitedResponse('show their history');
+    }
+
+    // Same as the history: the view secret, or a share link that includes history
+    const authErrorResponse = await checkBearerPassword(req, note, 'view', 'history');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    if (note.encrypted) {
+      return NextResponse.json(
+        { message: 'Versions of encrypted notes can only be compared on the history page.' },
+        { status: 400 }
+      );
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([
+      store.getVersion(slug, from),
+      store.getVersion(slug, to),
+    ]);
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { message: `Version ${fromVersion ? to : from} not found.` },
+        { status: 404 }
+      );
+    }
+
+    const diffContext = parseDiffContext(searchParams.get('context'));
+    const diff = diffNoteContent(fromVersion.content, toVersion.content, diffContext);
+
+    const wantsUnified =
+      searchParams.get('format') === 'unified' ||
+      /\btext\/x-(?:diff|patch)\b/.test(req.headers.get('accept') || '');
+    if (wantsUnified) {
+      const body = formatUnifiedDiff(
+        diff,
+        `a/${slug}.md\tversion ${from}`,
+        `b/${slug}.md\tversion ${to}`
+      );
+      return new NextResponse(body, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/x-diff; charset=utf-8',
+          'Content-Disposition': `inline; filename="${slug}-${from}-${to}.diff"`,
+          Vary: 'Accept',
+        },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        from: describeVersion(fromVersion),
+        to: describeVersion(toVersion),
+        context: diffContext,
+        ...diff,
+      },
+      { status: 200, headers: { Vary: 'Accept' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error comparing note versions:', error);
+    return NextResponse.json(
+      { message: 'Failed to compare versions.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('history', getNoteDiff);
@@ -0,0 +1,81 @@
+// src/app/api/notes/[slug]/history/retention/route.ts
+// This API route sets how much of a note's history is kept: PUT with
+// `retention: { keepLast?, keepDays?, thinDaily? }` gives the note its own
+// policy, `{}` keeps every version and `null` goes back to the server's
+// default (see src/lib/historyRetention). The new policy is applied right
+// away. Since it can remove versions, it needs the owner secret.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { checkBodyPassword } from '@/lib/noteAuth';
+import { getDefaultRetention, getHistoryRetention, parseHistoryRetention } from '@/lib/historyRetention';
+
+async function updateHistoryRetention(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+
+    const body = await req.json().catch(() => ({}));
+    if (body?.retention === undefined) {
+      return NextResponse.json({ message: 'retention is required.' }, { status: 400 });
+    }
+    const parsed = parseHistoryRetention(body.retention);
+    if ('error' in parsed) {
+      return NextResponse.json({ message: parsed.error }, { status: 400 });
+    }
+
+    const note = await store.findBySlug(slug);
+
+    if (!note) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Cannot update a deleted note. Restore it first.' }, { status: 400 });
+    }
+
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return NextResponse.json({ message: 'Cannot update an expired note.' }, { status: 400 });
+    }
+
+    const authErrorResponse = await checkBodyPassword(
+      req,
+      note,
+      'owner',
+      body.currentPassword,
+      'change how long the history of this note is kept'
+    );
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    const historyRetention = parsed.retention;
+    await store.update(slug, { historyRetention });
+
+    const retention = getHistoryRetention({ ...note, historyRetention });
+    const removed = retention ? await store.pruneHistory(slug, retention, new Date()) : 0;
+
+    return NextResponse.json(
+      {
+        message: 'History retention updated.',
+        retention: historyRetention,
+        defaultRetention: getDefaultRetention(),
+        removed,
+      },
+      { status: 200 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error updating history retention:', error);
+    return NextResponse.json(
+      { message: 'Failed to update history retention.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRateLimit('update', updateHistoryRetention);
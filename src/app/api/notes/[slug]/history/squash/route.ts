@@ -0,0 +1,57 @@
+// src/app/api/notes/[slug]/history/squash/route.ts
+// This API route squashes a note's history: POST removes every version but
+// the latest, which keeps its number. It needs the owner secret, and cannot
+// be undone.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { checkBodyPassword } from '@/lib/noteAuth';
+
+async function squashNoteHistory(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+
+    // The body is optional for notes without an owner secret
+    const { currentPassword } = await req.json().catch(() => ({}));
+
+    const note = await store.findBySlug(slug);
+
+    if (!note) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Cannot update a deleted note. Restore it first.' }, { status: 400 });
+    }
+
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return NextResponse.json({ message: 'Cannot update an expired note.' }, { status: 400 });
+    }
+
+    const authErrorResponse = await checkBodyPassword(req, note, 'owner', currentPassword, 'squash the history of this note');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    const removed = await store.pruneHistory(slug, { keepLast: 1 }, new Date());
+
+    const message = removed > 0
+      ? `Removed ${removed} older version${removed === 1 ? '' : 's'}.`
+      : 'There were no older versions to remove.';
+    return NextResponse.json({ message, removed }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error squashing note history:', error);
+    return NextResponse.json(
+      { message: 'Failed to squash history.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('update', squashNoteHistory);
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { DELETE, GET, PUT } from './route';
+import { getNoteStore } from '@/lib/store';
+import { apiRequest, createTestNote, slugContext } from '@/test/routes';
+
+describe('GET /api/notes/[slug]', () => {
+  it('reads a note', async () => {
+    const slug = await createTestNote();
+    const response = await GET(apiRequest('GET', `/api/notes/${slug}`), slugContext(slug));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"1"');
+    expect((await response.json()).note).toMatchObject({ title: 'Test note', content: 'Some content.' });
+  });
+
+  it('answers 404 for an unknown slug', async () => {
+    const response = await GET(apiRequest('GET', '/api/notes/no-such-note'), slugContext('no-such-note'));
+    expect(response.status).toBe(404);
+  });
+
+  it('needs the password of a protected note', async () => {
+    const slug = await createTestNote({ password: 'letmein' });
+    const denied = await GET(apiRequest('GET', `/api/notes/${slug}`), slugContext(slug));
+    expect(denied.status).toBe(401);
+    const wrong = await GET(apiRequest('GET', `/api/notes/${slug}`, { password: 'guess' }), slugContext(slug));
+    expect(wrong.status).toBe(401);
+    const allowed = await GET(apiRequest('GET', `/api/notes/${slug}`, { password: 'letmein' }), slugContext(slug));
+    expect(allowed.status).toBe(200);
+  });
+});
+
+describe('PUT /api/notes/[slug]', () => {
+  it('saves a change as a new revision and version', async () => {
+    const slug = await createTestNote();
+    // A change message keeps the version from replacing the previous one
+    const body = { title: 'Test note', content: 'Changed.', baseRevision: 1, message: 'Rewrite' };
+    const response = await PUT(apiRequest('PUT', `/api/notes/${slug}`, { body }), slugContext(slug));
+    expect(response.status).toBe(200);
+    expect((await response.json()).revision).toBe(2);
+    expect(await getNoteStore().findBySlug(slug)).toMatchObject({ content: 'Changed.', revision: 2 });
+    expect((await getNoteStore().getHistory(slug)).map(version => version.content)).toEqual([
+      'Some content.',
+      'Changed.',
+    ]);
+  });
+
+  it('requires the revision the change is based on', async () => {
+    const slug = await createTestNote();
+    const response = await PUT(
+      apiRequest('PUT', `/api/notes/${slug}`, { body: { title: 'Test note', content: 'Changed.' } }),
+      slugContext(slug)
+    );
+    expect(response.status).toBe(428);
+  });
+
+  it('rejects a change based on an old revision', async () => {
+    const slug = await createTestNote();
+    const body = { title: 'Test note', content: 'First change.', baseRevision: 1 };
+    await PUT(apiRequest('PUT', `/api/notes/${slug}`, { body }), slugContext(slug));
+    const response = await PUT(
+      apiRequest('PUT', `/api/notes/${slug}`, { body: { ...body, content: 'Second change.' } }),
+      slugContext(slug)
+    );
+    expect(response.status).toBe(409);
+    expect((await getNoteStore().findBySlug(slug))?.content).toBe('First change.');
+  });
+
+  it("returns the server's version with a conflict to callers who may read it", async () => {
+    const slug = await createTestNote({ password: 'letmein' });
+    const body = { title: 'Test note', content: 'First change.', baseRevision: 1, currentPassword: 'letmein' };
+    await PUT(apiRequest('PUT', `/api/notes/${slug}`, { body }), slugContext(slug));
+    const response = await PUT(apiRequest('PUT', `/api/notes/${slug}`, { body }), slugContext(slug));
+    expect(response.status).toBe(409);
+    expect((await response.json()).note).toMatchObject({ content: 'First change.', revision: 2 });
+  });
+
+  it('needs the edit password of a protected note', async () => {
+    const slug = await createTestNote({ password: 'letmein' });
+    const body = { title: 'Test note', content: 'Changed.', baseRevision: 1 };
+    const denied = await PUT(apiRequest('PUT', `/api/notes/${slug}`, { body }), slugContext(slug));
+    expect(denied.status).toBe(401);
+    const allowed = await PUT(
+      apiRequest('PUT', `/api/notes/${slug}`, { body: { ...body, currentPassword: 'letmein' } }),
+      slugContext(slug)
+    );
+    expect(allowed.status).toBe(200);
+  });
+});
+
+describe('DELETE /api/notes/[slug]', () => {
+  it('moves a note to the trash', async () => {
+    const slug = await createTestNote();
+    const response = await DELETE(apiRequest('DELETE', `/api/notes/${slug}`), slugContext(slug));
+    expect(response.status).toBe(200);
+    expect((await getNoteStore().findBySlug(slug))?.deletedAt).toBeInstanceOf(Date);
+    const read = await GET(apiRequest('GET', `/api/notes/${slug}`), slugContext(slug));
+    expect(read.status).toBe(404);
+  });
+
+  it('removes a note for good when purging', async () => {
+    const slug = await createTestNote();
+    const response = await DELETE(
+      apiRequest('DELETE', `/api/notes/${slug}`, { body: { purge: true } }),
+      slugContext(slug)
+    );
+    expect(response.status).toBe(200);
+    expect(await getNoteStore().slugExists(slug)).toBe(false);
+  });
+
+  it('needs the owner password of a protected note', async () => {
+    const slug = await createTestNote({ password: 'letmein', ownerPassword: 'owner' });
+    const denied = await DELETE(
+      apiRequest('DELETE', `/api/notes/${slug}`, { body: { currentPassword: 'letmein' } }),
+      slugContext(slug)
+    );
+    expect(denied.status).toBe(401);
+    const allowed = await DELETE(
+      apiRequest('DELETE', `/api/notes/${slug}`, { body: { currentPassword: 'owner' } }),
+      slugContext(slug)
+    );
+    expect(allowed.status).toBe(200);
+  });
+});
+
+describe('a note with only a view password', () => {
+  it('cannot be read without the password', async () => {
+    const slug = await createTestNote({ viewPassword: 'letmein' });
+    const response = await GET(apiRequest('GET', `/api/notes/${slug}`), slugContext(slug));
+    expect(response.status).toBe(401);
+  });
+
+  it('cannot be edited without the password', async () => {
+    const slug = await createTestNote({ viewPassword: 'letmein' });
+    const response = await PUT(
+      apiRequest('PUT', `/api/notes/${slug}`, { body: { title: 'Test note', content: 'Changed.', baseRevision: 1 } }),
+      slugContext(slug)
+    );
+    expect(response.status).toBe(401);
+    expect((await getNoteStore().findBySlug(slug))?.content).toBe('Some content.');
+  });
+
+  it('cannot be deleted without the password', async () => {
+    const slug = await createTestNote({ viewPassword: 'letmein' });
+    const response = await DELETE(
+      apiRequest('DELETE', `/api/notes/${slug}`, { body: { purge: true } }),
+      slugContext(slug)
+    );
+    expect(response.status).toBe(401);
+    expect(await getNoteStore().slugExists(slug)).toBe(true);
+  });
+
+  it('can be edited and deleted with the view password', async () => {
+    const slug = await createTestNote({ viewPassword: 'letmein' });
+    const updated = await PUT(
+      apiRequest('PUT', `/api/notes/${slug}`, {
+        body: { title: 'Test note', content: 'Changed.', baseRevision: 1, currentPassword: 'letmein' },
+      }),
+      slugContext(slug)
+    );
+    expect(updated.status).toBe(200);
+
+    const deleted = await DELETE(
+      apiRequest('DELETE', `/api/notes/${slug}`, { body: { purge: true, currentPassword: 'letmein' } }),
+      slugContext(slug)
+    );
+    expect(deleted.status).toBe(200);
+    expect(await getNoteStore().slugExists(slug)).toBe(false);
+  });
+});
@@ -1,153 +1,209 @@
 // src/app/api/notes/[slug]/route.ts
-// This API route handles fetching and updating MicroDoc notes.
-// It now includes server-side profanity filter, expiration date handling,
-// and basic rate limiting for both GET and PUT requests.
+// This API route reads, updates and deletes a single MicroDoc note.
+// GET returns the note as JSON, or as raw text for `Accept: text/markdown`,
+// `text/plain` or `text/html` (see src/lib/noteExport). PUT saves a change as
+// a new version of the note's history, based on the revision sent in If-Match.
+// DELETE moves the note to the trash, or purges it. Each is gated by the
+// note's secrets (see src/lib/noteAuth) and rate limited (see src/lib/rateLimit).
 
 import { NextRequest, NextResponse } from 'next/server';
-import { connectToDatabase } from '@/lib/mongodb';
-import bcrypt from 'bcryptjs';
-import { ObjectId } from 'mongodb';
+import { getNoteStore, NoteChanges, NoteHistoryEntry, StoredNote } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { expiredNoteResponse, noteNotFoundResponse } from '@/lib/expiredNotes';
+import { getRestorableUntil, isTrashExpired, trashedNoteResponse } from '@/lib/trash';
+import { formatETag, getRevision, parseBaseRevision } from '@/lib/revision';
+import {
+  NoteAccess,
+  canViewNote,
+  checkBearerPassword,
+  checkBodyPassword,
+  getRequestAccess,
+  hashSecret,
+} from '@/lib/noteAuth';
+import { isEncryptedText } from '@/lib/e2e';
+import { getViewsRemaining, hasViewLimit, viewLimitedResponse } from '@/lib/viewLimit';
+import { recordNoteView } from '@/lib/analytics';
+import { parseTags } from '@/lib/tags';
+import { checkNotebookMembership } from '@/lib/notebooks';
+import { getLinkedSlugs } from '@/lib/wikiLinks';
+import { listBacklinks } from '@/lib/backlinks';
+import { getHistoryEvents, parseChangeDetails } from '@/lib/historyEvents';
+import { applyHistoryRetention, getCoalesceWindowMs } from '@/lib/historyRetention';
+import { RawNoteType, negotiateRawNoteType, renderRawNote } from '@/lib/noteExport';
+import { conflictResponse, toNoteResponse } from '@/lib/noteResponse';
 import {Filter} from 'bad-words';
 
 // Initialize the profanity filter for server-side use
 const filter = new Filter();
 
-// --- NEW: Rate Limiting Configuration and Storage (Local to this file) ---
-const rateLimitStore = new Map<string, { count: number; lastReset: number }>();
-const WINDOW_SIZE_MS = 60 * 1000; // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 10; // Max 10 requests per minute per IP for GET/PUT
-                                    // (Higher than POST as viewing/editing is more frequent)
+// Body fields that set (string) or remove (null) each secret on PUT
+const SECRET_FIELDS = {
+  viewPassword: 'viewPasswordHash',
+  editPassword: 'editPasswordHash',
+  ownerPassword: 'ownerPasswordHash',
+} as const;
 
 /**
- * Applies rate limiting logic.
- * @param req The NextRequest object.
- * @returns NextResponse if rate limit exceeded, otherwise null.
+ * Builds the response for a note read as Markdown, plain text or HTML.
  */
-function applyRateLimit(req: NextRequest): NextResponse | null {
-  const ip = req.ip || req.headers.get('x-forwarded-for') || 'anonymous';
-  const now = Date.now();
-
-  const clientData = rateLimitStore.get(ip) || { count: 0, lastReset: now };
-
-  // Reset count if window has passed
-  if (now - clientData.lastReset > WINDOW_SIZE_MS) {
-    clientData.count = 0;
-    clientData.lastReset = now;
-  }
-
-  clientData.count++;
-  rateLimitStore.set(ip, clientData);
-
-  if (clientData.count > MAX_REQUESTS_PER_WINDOW) {
-    const timeLeft = Math.ceil((clientData.lastReset + WINDOW_SIZE_MS - now) / 1000);
-    return NextResponse.json(
-      { message: `Too many requests. Please try again in ${timeLeft} seconds.` },
-      { status: 429, headers: { 'Retry-After': timeLeft.toString() } }
-    );
-  }
-  return null; // Rate limit not exceeded
-}
-// --- END NEW ---
-
-// Optional: Define an interface for the Note structure as stored in DB
-interface DbNote {
-  _id: ObjectId;
-  slug: string;
-  title: string;
-  content: string;
-  passwordHash?: string;
-  createdAt: Date;
-  updatedAt: Date;
-  expiresAt?: Date;
-  history: Array<{ content: string; timestamp: Date }>;
+async function rawNoteResponse(
+  note: StoredNote,
+  type: RawNoteType,
+  origin: string,
+  headers: Record<string, string>
+): Promise<NextResponse> {
+  const { body, contentType } = await renderRawNote(note, type, origin);
+  return new NextResponse(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': contentType, Vary: 'Accept' },
+  });
 }
 
 // --- GET Method ---
-export async function GET(
+async function getNote(
   req: NextRequest,
   context: { params: { slug: string } }
 ) {
-  // --- NEW: Apply Rate Limiting ---
-  const rateLimitResponse = applyRateLimit(req);
-  if (rateLimitResponse) {
-    return rateLimitResponse;
-  }
-  // --- END NEW ---
-
   try {
     const { slug } = await Promise.resolve(context.params);
-    const { db } = await connectToDatabase();
-    const note: DbNote | null = await db.collection('notes').findOne({ slug: slug });
+    const store = getNoteStore();
+    const note = await store.findBySlug(slug);
 
     if (!note) {
-      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+      return noteNotFoundResponse(slug);
+    }
+
+    // Deleted notes stay restorable until their grace period ends, then are purged
+    if (note.deletedAt) {
+      if (isTrashExpired(note)) {
+        await store.delete(slug);
+        return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+      }
+      return trashedNoteResponse(note);
     }
 
     // Check for expiration date
     if (note.expiresAt && note.expiresAt <= new Date()) {
-      return NextResponse.json({ message: 'Note has expired.' }, { status: 404 });
+      return expiredNoteResponse(note.expiresAt);
     }
 
-    const isProtected = !!note.passwordHash;
-
-    if (isProtected) {
-      const authHeader = req.headers.get('Authorization');
-      const token = authHeader?.split(' ')[1];
+    const authErrorResponse = await checkBearerPassword(req, note, 'view');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
 
-      if (!token) {
-        return NextResponse.json({ message: 'Password required.' }, { status: 401 });
-      }
+    // The server cannot read encrypted notes, so it can only hand out the JSON with the ciphertext
+    const rawType = negotiateRawNoteType(req.headers.get('accept'));
+    if (rawType && note.encrypted) {
+      return NextResponse.json(
+        { message: 'Encrypted notes can only be read as JSON and decrypted on the note page.' },
+        { status: 406 }
+      );
+    }
 
-      const isPasswordValid = await bcrypt.compare(token, note.passwordHash as string);
+    // Tell the client what its secret or unlock session allows, so pages can ask for a stronger one
+    const access = await getRequestAccess(req, note);
 
-      if (!isPasswordValid) {
-        return NextResponse.json({ message: 'Invalid password.' }, { status: 401 });
+    if (!hasViewLimit(note)) {
+      // Only the note page (?view=1) and raw reads count as views (see src/lib/analytics)
+      if (rawType || req.nextUrl.searchParams.get('view') === '1') {
+        await recordNoteView(req, note);
       }
+      const headers = { ETag: formatETag(getRevision(note)) };
+      if (rawType) {
+        return rawNoteResponse(note, rawType, req.nextUrl.origin, headers);
+      }
+      return NextResponse.json(
+        { note: { ...toNoteResponse(note), access, backlinks: await listBacklinks(slug) } },
+        { status: 200, headers: { ...headers, Vary: 'Accept' } }
+      );
     }
 
-    const noteResponse = {
-      title: note.title,
-      content: note.content,
-      isProtected: isProtected,
-      createdAt: note.createdAt.toISOString(),
-      updatedAt: note.updatedAt.toISOString(),
-      expiresAt: note.expiresAt ? note.expiresAt.toISOString() : undefined,
-    };
+    // View-limited notes: nothing is revealed until the reader confirms
+    if (getViewsRemaining(note) === 0) {
+      return NextResponse.json({ message: 'Note has expired.' }, { status: 410 });
+    }
+    if (req.nextUrl.searchParams.get('confirm') !== '1') {
+      return NextResponse.json(
+        {
+          message: 'Viewing this note counts against its view limit.',
+          confirmationRequired: true,
+          burnAfterReading: !!note.burnAfterReading,
+          viewsRemaining: getViewsRemaining(note),
+        },
+        { status: 200 }
+      );
+    }
 
-    return NextResponse.json({ note: noteResponse }, { status: 200 });
+    // Counted atomically, so concurrent readers never get more views than allowed
+    const viewedNote = await store.consumeView(slug);
+    if (!viewedNote) {
+      return NextResponse.json({ message: 'Note has expired.' }, { status: 410 });
+    }
+    if (viewedNote.burnAfterReading && getViewsRemaining(viewedNote) === 0) {
+      await store.delete(slug);
+    } else {
+      await recordNoteView(req, viewedNote);
+    }
+
+    const headers = { 'Cache-Control': 'no-store' };
+    if (rawType) {
+      return rawNoteResponse(viewedNote, rawType, req.nextUrl.origin, headers);
+    }
+    return NextResponse.json(
+      { note: { ...toNoteResponse(viewedNote), access, backlinks: await listBacklinks(slug) } },
+      { status: 200, headers: { ...headers, Vary: 'Accept' } }
+    );
 
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Error fetching note:', error);
     return NextResponse.json(
-      { message: 'Failed to retrieve note.', error: error.message || 'Internal server error' },
+      { message: 'Failed to retrieve note.', error: error instanceof Error ? error.message : 'Internal server error' },
       { status: 500 }
     );
   }
 }
 
 // --- PUT Method ---
-export async function PUT(
+async function updateNote(
   req: NextRequest,
   context: { params: { slug: string } }
 ) {
-  // --- NEW: Apply Rate Limiting ---
-  const rateLimitResponse = applyRateLimit(req);
-  if (rateLimitResponse) {
-    return rateLimitResponse;
-  }
-  // --- END NEW ---
-
   try {
     const { slug } = await Promise.resolve(context.params);
-    const { db } = await connectToDatabase();
+    const store = getNoteStore();
 
+    const body = await req.json();
     const {
       title,
       content,
       currentPassword,
       newPassword,
-      expiresAt
-    } = await req.json();
+      expiresAt,
+      baseRevision,
+      tags,
+      notebook,
+      notebookPassword,
+      author,
+      message
+    } = body;
+
+    // Secret changes requested in this update; `newPassword` is the legacy
+    // single password and sets both the view and the edit secret
+    const secretUpdates: Partial<Record<keyof typeof SECRET_FIELDS, string | null>> = {};
+    if (newPassword) {
+      secretUpdates.viewPassword = newPassword;
+      secretUpdates.editPassword = newPassword;
+    }
+    for (const field of Object.keys(SECRET_FIELDS) as (keyof typeof SECRET_FIELDS)[]) {
+      const value = body[field];
+      if (value === null || (typeof value === 'string' && value.length > 0)) {
+        secretUpdates[field] = value;
+      } else if (value !== undefined && value !== '') {
+        return NextResponse.json({ message: `${field} must be a string or null.` }, { status: 400 });
+      }
+    }
+    const changesSecrets = Object.keys(secretUpdates).length > 0;
 
     // Basic validation
     if (!title || !content) {
@@ -157,56 +213,140 @@ export async function PUT(
       );
     }
 
-    // Server-side Profanity Filter
-    const combinedText = `${title} ${content}`;
-    if (filter.isProfane(combinedText)) {
+    // Recorded with the new version to say who changed what
+    const changeDetails = parseChangeDetails(author, message);
+    if ('error' in changeDetails) {
+      return NextResponse.json({ message: changeDetails.error }, { status: 400 });
+    }
+    if (filter.isProfane(`${changeDetails.author ?? ''} ${changeDetails.message ?? ''}`)) {
+      return NextResponse.json(
+        { message: 'Profanity detected in author or message. Please remove inappropriate language.', error: 'Profanity detected' },
+        { status: 400 }
+      );
+    }
+
+    // Tags are replaced when sent, and left alone otherwise
+    const parsedTags = tags === undefined ? undefined : parseTags(tags);
+    if (parsedTags && 'error' in parsedTags) {
+      return NextResponse.json({ message: parsedTags.error }, { status: 400 });
+    }
+    if (parsedTags && filter.isProfane(parsedTags.join(' '))) {
       return NextResponse.json(
-        { message: 'Profanity detected in title or content. Please remove inappropriate language.', error: 'Profanity detected' },
+        { message: 'Profanity detected in tags. Please remove inappropriate language.', error: 'Profanity detected' },
         { status: 400 }
       );
     }
 
     // 1. Find the note to be updated
-    const note: DbNote | null = await db.collection('notes').findOne({ slug: slug });
+    const note = await store.findBySlug(slug);
 
     if (!note) {
       return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
     }
 
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Cannot update a deleted note. Restore it first.' }, { status: 400 });
+    }
+
     // Check if note is already expired before allowing update
     if (note.expiresAt && note.expiresAt <= new Date()) {
       return NextResponse.json({ message: 'Cannot update an expired note.' }, { status: 400 });
     }
 
-    // 2. Authentication: Check if currentPassword is required and valid
-    const isProtected = !!note.passwordHash;
-    if (isProtected) {
-      if (!currentPassword) {
-        return NextResponse.json({ message: 'Current password required to update this note.' }, { status: 401 });
+    if (hasViewLimit(note)) {
+      return viewLimitedResponse('be edited');
+    }
+
+    if (note.encrypted) {
+      // The browser encrypts edits; plaintext would silently leak the note
+      if (!isEncryptedText(title) || !isEncryptedText(content)) {
+        return NextResponse.json(
+          { message: 'This note is encrypted. Title and content must be encrypted.' },
+          { status: 400 }
+        );
       }
-      const isPasswordValid = await bcrypt.compare(currentPassword, note.passwordHash as string);
-      if (!isPasswordValid) {
-        return NextResponse.json({ message: 'Incorrect password.' }, { status: 401 });
+    } else {
+      // Server-side Profanity Filter
+      const combinedText = `${title} ${content}`;
+      if (filter.isProfane(combinedText)) {
+        return NextResponse.json(
+          { message: 'Profanity detected in title or content. Please remove inappropriate language.', error: 'Profanity detected' },
+          { status: 400 }
+        );
       }
     }
 
-    // 3. Prepare Update Operations
-    const updateDoc: any = {
-      $set: {
-        title: title,
-        content: content,
-        updatedAt: new Date(),
-      },
-      $push: {}
+    // 2. Authentication: editing needs the edit secret, changing secrets the owner secret
+    const requiredAccess: NoteAccess = changesSecrets ? 'owner' : 'edit';
+    const authErrorResponse = await checkBodyPassword(
+      req,
+      note,
+      requiredAccess,
+      currentPassword,
+      changesSecrets ? 'change the passwords of this note' : 'update this note'
+    );
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    // Moving the note into another notebook needs that notebook's password;
+    // `notebook: null` takes it out of its notebook
+    const changesNotebook = notebook !== undefined && (notebook || null) !== (note.notebook ?? null);
+    if (changesNotebook && notebook) {
+      const notebookErrorResponse = await checkNotebookMembership(notebook, notebookPassword);
+      if (notebookErrorResponse) {
+        return notebookErrorResponse;
+      }
+    }
+
+    // 3. Concurrency: the edit must be based on the note's current revision
+    const requestedRevision = parseBaseRevision(req.headers.get('If-Match'), baseRevision);
+    if (requestedRevision === undefined) {
+      return NextResponse.json(
+        { message: 'An If-Match header or baseRevision is required to update this note.' },
+        { status: 428 }
+      );
+    }
+    if (requestedRevision === null) {
+      return NextResponse.json({ message: 'Invalid If-Match header or baseRevision.' }, { status: 400 });
+    }
+    const currentRevision = getRevision(note);
+    if (requestedRevision !== '*' && requestedRevision !== currentRevision) {
+      return conflictResponse(note, await canViewNote(req, note, currentPassword));
+    }
+
+    // 4. Prepare Update Operations
+    const now = new Date();
+    const changes: NoteChanges = {
+      title: title,
+      content: content,
+      updatedAt: now,
+      revision: currentRevision + 1,
     };
 
-    if (newPassword) {
-      updateDoc.$set.passwordHash = await bcrypt.hash(newPassword, 10);
+    const changesTags = !!parsedTags && parsedTags.join(',') !== (note.tags || []).join(',');
+    if (changesTags) {
+      changes.tags = parsedTags;
+    }
+    if (changesNotebook) {
+      changes.notebook = notebook || null;
+    }
+
+    if (changesSecrets) {
+      // Split a legacy single password into explicit view and edit secrets first
+      if (note.passwordHash) {
+        changes.passwordHash = null;
+        changes.viewPasswordHash = note.viewPasswordHash ?? note.passwordHash;
+        changes.editPasswordHash = note.editPasswordHash ?? note.passwordHash;
+      }
+      for (const [field, value] of Object.entries(secretUpdates) as [keyof typeof SECRET_FIELDS, string | null][]) {
+        changes[SECRET_FIELDS[field]] = value === null ? null : await hashSecret(value);
+      }
     }
 
     // Handle expiresAt update
     if (expiresAt === null) {
-      updateDoc.$set.expiresAt = null;
+      changes.expiresAt = null;
     } else if (expiresAt) {
       const expirationDate = new Date(expiresAt);
       if (expirationDate <= new Date()) {
@@ -215,41 +355,118 @@ export async function PUT(
           { status: 400 }
         );
       }
-      updateDoc.$set.expiresAt = expirationDate;
+      changes.expiresAt = expirationDate;
     }
 
-    if (note.content !== content) {
-      updateDoc.$push = {
-        history: {
-          content: content,
-          timestamp: new Date(),
-        },
-      };
-    } else {
-      delete updateDoc.$push;
+    const contentChanged = note.content !== content;
+    // Keep the link graph in step with the content
+    if (contentChanged && !note.encrypted) {
+      changes.links = getLinkedSlugs(content);
     }
 
-    // 4. Perform the Update
-    const result = await db.collection('notes').updateOne(
-      { slug: slug },
-      updateDoc
+    if (!contentChanged && note.title === title && !changesSecrets && !changesTags && !changesNotebook && (expiresAt === undefined || (note.expiresAt?.toISOString() === expiresAt))) {
+      return NextResponse.json(
+        { message: 'No changes detected to update.', revision: currentRevision },
+        { status: 200, headers: { ETag: formatETag(currentRevision) } }
+      );
+    }
+
+    // Every saved change is a version, including title and settings changes
+    const events = getHistoryEvents(note, changes, secretUpdates);
+    const historyEntry: NoteHistoryEntry = {
+      content: content,
+      title: title,
+      timestamp: now,
+      ...changeDetails,
+      ...(events.length > 0 ? { events } : {}),
+    };
+
+    // 5. Perform the Update, only if nobody else saved in the meantime. Quick
+    // successive saves replace the latest version (see src/lib/historyRetention)
+    const updated = await store.update(slug, changes, {
+      historyEntry,
+      expectedRevision: currentRevision,
+      coalesceWithinMs: getCoalesceWindowMs(),
+    });
+
+    if (!updated) {
+      const latestNote = await store.findBySlug(slug);
+      if (!latestNote) {
+        return NextResponse.json({ message: 'Note not found for update.' }, { status: 404 });
+      }
+      return conflictResponse(latestNote, await canViewNote(req, latestNote, currentPassword));
+    }
+    await applyHistoryRetention(note);
+
+    return NextResponse.json(
+      { message: 'Note updated successfully!', revision: changes.revision },
+      { status: 200, headers: { ETag: formatETag(currentRevision + 1) } }
     );
 
-    if (result.matchedCount === 0) {
-      return NextResponse.json({ message: 'Note not found for update.' }, { status: 404 });
+  } catch (error: unknown) {
+    console.error('Error updating note:', error);
+    return NextResponse.json(
+      { message: 'Failed to update note.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE Method ---
+// Moves the note to the trash, or removes it and its whole history
+// permanently when `purge` is true.
+async function deleteNote(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+
+    // The body is optional for unprotected notes
+    const { currentPassword, purge } = await req.json().catch(() => ({}));
+
+    const note = await store.findBySlug(slug);
+
+    if (!note || isTrashExpired(note)) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
     }
 
-    if (result.modifiedCount === 0 && (note.content === content) && !newPassword && (expiresAt === undefined || (note.expiresAt?.toISOString() === expiresAt))) {
-      return NextResponse.json({ message: 'No changes detected to update.' }, { status: 200 });
+    // Authentication: deleting is reserved for the owner
+    const authErrorResponse = await checkBodyPassword(req, note, 'owner', currentPassword, 'delete this note');
+    if (authErrorResponse) {
+      return authErrorResponse;
     }
 
-    return NextResponse.json({ message: 'Note updated successfully!' }, { status: 200 });
+    if (purge) {
+      await store.delete(slug);
+      return NextResponse.json({ message: 'Note permanently deleted.' }, { status: 200 });
+    }
+
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Note is already in the trash.' }, { status: 409 });
+    }
+
+    const deletedAt = new Date();
+    await store.update(slug, { deletedAt });
 
-  } catch (error: any) {
-    console.error('Error updating note:', error);
     return NextResponse.json(
-      { message: 'Failed to update note.', error: error.message || 'Internal server error' },
+      {
+        message: 'Note moved to trash.',
+        restorableUntil: getRestorableUntil({ ...note, deletedAt })?.toISOString(),
+      },
+      { status: 200 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error deleting note:', error);
+    return NextResponse.json(
+      { message: 'Failed to delete note.', error: error instanceof Error ? error.message : 'Internal server error' },
       { status: 500 }
     );
   }
 }
+
+export const GET = withRateLimit('read', getNote);
+export const PUT = withRateLimit('update', updateNote);
+export const DELETE = withRateLimit('update', deleteNote);
@@ -0,0 +1,54 @@
+// src/app/api/notes/[slug]/share/[linkId]/route.ts
+// This API route revokes a share link. Tokens minted for a revoked link are
+// rejected from then on, even before they expire.
+// Like deleting the note, it requires the owner password.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { checkBodyPassword } from '@/lib/noteAuth';
+
+async function revokeShareLink(
+  req: NextRequest,
+  context: { params: { slug: string; linkId: string } }
+) {
+  try {
+    const { slug, linkId } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+
+    // The body is optional for notes without an owner or edit password
+    const { currentPassword } = await req.json().catch(() => ({}));
+
+    const note = await store.findBySlug(slug);
+
+    if (!note || note.deletedAt) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    const authErrorResponse = await checkBodyPassword(req, note, 'owner', currentPassword, 'revoke share links');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    const link = note.shareLinks?.find(candidate => candidate.id === linkId);
+    if (!link) {
+      return NextResponse.json({ message: 'Share link not found.' }, { status: 404 });
+    }
+    if (link.revokedAt) {
+      return NextResponse.json({ message: 'Share link is already revoked.' }, { status: 200 });
+    }
+
+    await store.revokeShareLink(slug, linkId, new Date());
+
+    return NextResponse.json({ message: 'Share link revoked.' }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json(
+      { message: 'Failed to revoke share link.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('update', revokeShareLink);
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+import { GET as getNote } from '../route';
+import { apiRequest, createTestNote, slugContext } from '@/test/routes';
+
+describe('POST /api/notes/[slug]/share', () => {
+  it('needs the view password to mint an edit link for a note with only a view password', async () => {
+    const slug = await createTestNote({ viewPassword: 'letmein' });
+    const denied = await POST(
+      apiRequest('POST', `/api/notes/${slug}/share`, { body: { scope: 'edit' } }),
+      slugContext(slug)
+    );
+    expect(denied.status).toBe(401);
+
+    const minted = await POST(
+      apiRequest('POST', `/api/notes/${slug}/share`, { body: { scope: 'edit', password: 'letmein' } }),
+      slugContext(slug)
+    );
+    expect(minted.status).toBe(201);
+    const { token } = await minted.json();
+    const read = await getNote(apiRequest('GET', `/api/notes/${slug}`, { password: token }), slugContext(slug));
+    expect(read.status).toBe(200);
+  });
+
+  it('rejects a wrong password for a history link', async () => {
+    const slug = await createTestNote({ viewPassword: 'letmein', editPassword: 'editor' });
+    const denied = await POST(
+      apiRequest('POST', `/api/notes/${slug}/share`, { body: { scope: 'history', password: 'guess' } }),
+      slugContext(slug)
+    );
+    expect(denied.status).toBe(401);
+  });
+});
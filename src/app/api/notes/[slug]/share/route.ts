@@ -0,0 +1,165 @@
+// src/app/api/notes/[slug]/share/route.ts
+// This API route mints and lists share links for a note.
+// POST exchanges the note's password for a signed, expiring share token with a
+// scope ('view', 'history' or 'edit') and an optional use limit, which can be
+// sent in place of the password. GET lists the note's share links for the owner.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { getNoteStore, ShareLink, ShareScope } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { expiredNoteResponse, noteNotFoundResponse } from '@/lib/expiredNotes';
+import { NoteAccess, checkBearerPassword, checkBodyPassword } from '@/lib/noteAuth';
+import {
+  DEFAULT_SHARE_TTL_SECONDS,
+  MAX_SHARE_TTL_SECONDS,
+  SHARE_SCOPES,
+  createShareToken,
+  parseShareToken,
+  toShareLinkResponse,
+} from '@/lib/shareTokens';
+
+// The access levels each scope grants, all of which minting a link needs
+const SCOPE_ACCESS: Record<ShareScope, NoteAccess[]> = {
+  view: ['view'],
+  history: ['view'],
+  edit: ['view', 'edit'],
+};
+
+// --- POST Method ---
+async function createShareLink(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+
+    const {
+      password,
+      scope = 'view',
+      expiresIn = DEFAULT_SHARE_TTL_SECONDS,
+      maxUses
+    } = await req.json().catch(() => ({}));
+
+    if (!SHARE_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { message: `Scope must be one of: ${SHARE_SCOPES.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > MAX_SHARE_TTL_SECONDS) {
+      return NextResponse.json(
+        { message: `expiresIn must be a whole number of seconds up to ${MAX_SHARE_TTL_SECONDS}.` },
+        { status: 400 }
+      );
+    }
+    if (maxUses != null && (!Number.isInteger(maxUses) || maxUses <= 0)) {
+      return NextResponse.json({ message: 'maxUses must be a positive whole number.' }, { status: 400 });
+    }
+
+    const note = await store.findBySlug(slug);
+
+    if (!note) {
+      return noteNotFoundResponse(slug);
+    }
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return expiredNoteResponse(note.expiresAt);
+    }
+
+    // Share links must not be able to extend themselves
+    if (parseShareToken(password, slug)) {
+      return NextResponse.json(
+        { message: 'A share link cannot be used to create share links.' },
+        { status: 403 }
+      );
+    }
+
+    // A link can only grant what the password itself grants
+    for (const access of SCOPE_ACCESS[scope as ShareScope]) {
+      const authErrorResponse = await checkBodyPassword(
+        req,
+        note,
+        access,
+        password,
+        `share this note with ${scope} access`
+      );
+      if (authErrorResponse) {
+        return authErrorResponse;
+      }
+    }
+
+    const now = new Date();
+    const link: ShareLink = {
+      id: nanoid(12),
+      scope: scope,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + expiresIn * 1000),
+      maxUses: maxUses ?? null,
+      uses: 0,
+      revokedAt: null,
+    };
+
+    // Links can never outlive the note itself
+    if (note.expiresAt && note.expiresAt < link.expiresAt) {
+      link.expiresAt = note.expiresAt;
+    }
+
+    await store.addShareLink(slug, link);
+
+    return NextResponse.json(
+      {
+        message: 'Share link created.',
+        token: createShareToken(slug, link),
+        link: toShareLinkResponse(link),
+      },
+      { status: 201 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { message: 'Failed to create share link.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- GET Method ---
+async function listShareLinks(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const note = await getNoteStore().findBySlug(slug);
+
+    if (!note || note.deletedAt) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    const authErrorResponse = await checkBearerPassword(req, note, 'owner');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    return NextResponse.json(
+      { shareLinks: (note.shareLinks || []).map(toShareLinkResponse) },
+      { status: 200 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error listing share links:', error);
+    return NextResponse.json(
+      { message: 'Failed to list share links.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('create', createShareLink);
+export const GET = withRateLimit('read', listShareLinks);
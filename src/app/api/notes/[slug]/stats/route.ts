@@ -0,0 +1,44 @@
+// src/app/api/notes/[slug]/stats/route.ts
+// This API route returns view analytics for a note: total and unique views,
+// views per day over the last 30 days and the top referrers (see
+// src/lib/analytics). Only the note's owner can see them.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { checkBearerPassword } from '@/lib/noteAuth';
+import { summarizeViews } from '@/lib/analytics';
+
+async function getNoteStats(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+    const note = await store.findBySlug(slug);
+
+    if (!note || note.deletedAt) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    const authErrorResponse = await checkBearerPassword(req, note, 'owner');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    return NextResponse.json(
+      { stats: summarizeViews(await store.getViewBuckets(slug)) },
+      { status: 200 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error fetching note stats:', error);
+    return NextResponse.json(
+      { message: 'Failed to retrieve note stats.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', getNoteStats);
@@ -0,0 +1,50 @@
+// src/app/api/notes/[slug]/undelete/route.ts
+// This API route restores a note from the trash while its grace period lasts.
+// Like deleting, it requires the owner secret (or the edit secret if the note has no owner secret).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { isTrashExpired } from '@/lib/trash';
+import { checkBodyPassword } from '@/lib/noteAuth';
+
+async function undeleteNote(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const store = getNoteStore();
+
+    // The body is optional for unprotected notes
+    const { currentPassword } = await req.json().catch(() => ({}));
+
+    const note = await store.findBySlug(slug);
+
+    if (!note || isTrashExpired(note)) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    if (!note.deletedAt) {
+      return NextResponse.json({ message: 'Note is not in the trash.' }, { status: 409 });
+    }
+
+    const authErrorResponse = await checkBodyPassword(req, note, 'owner', currentPassword, 'restore this note');
+    if (authErrorResponse) {
+      return authErrorResponse;
+    }
+
+    await store.update(slug, { deletedAt: null });
+
+    return NextResponse.json({ message: 'Note restored from trash.' }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error restoring note from trash:', error);
+    return NextResponse.json(
+      { message: 'Failed to restore note.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('update', undeleteNote);
@@ -0,0 +1,77 @@
+// src/app/api/notes/[slug]/unlock/route.ts
+// This API route checks a note's password once and starts an unlock session:
+// a short-lived, signed httpOnly cookie for this note only, which every note
+// route accepts in place of the password (see src/lib/unlockSession).
+// DELETE ends the session again. Password attempts use the strict 'unlock'
+// rate limit policy.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { getGrantedAccess, requiresSecret, startUnlockSession } from '@/lib/noteAuth';
+import { parseShareToken } from '@/lib/shareTokens';
+import { clearUnlockSessionCookie, getUnlockSessionTtlMs } from '@/lib/unlockSession';
+
+// --- POST Method ---
+async function unlockNote(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  try {
+    const { slug } = await Promise.resolve(context.params);
+    const { password } = await req.json().catch(() => ({}));
+
+    if (!password) {
+      return NextResponse.json({ message: 'Password required.' }, { status: 400 });
+    }
+
+    // Share links count their uses per request, so they cannot start sessions
+    if (parseShareToken(password, slug)) {
+      return NextResponse.json(
+        { message: 'A share link cannot be used to unlock a note.' },
+        { status: 400 }
+      );
+    }
+
+    const note = await getNoteStore().findBySlug(slug);
+
+    if (!note || note.deletedAt) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    // Levels without a secret are granted to anyone, so they only count if the password matched one
+    const access = await getGrantedAccess(note, password);
+    if (!access || !requiresSecret(note, access)) {
+      return NextResponse.json({ message: 'Invalid password.' }, { status: 401 });
+    }
+
+    const expiresAt = new Date(Date.now() + getUnlockSessionTtlMs());
+    const response = NextResponse.json(
+      { message: 'Note unlocked.', access, expiresAt: expiresAt.toISOString() },
+      { status: 200 }
+    );
+    startUnlockSession(response, note, access, expiresAt);
+    return response;
+
+  } catch (error: unknown) {
+    console.error('Error unlocking note:', error);
+    return NextResponse.json(
+      { message: 'Failed to unlock note.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE Method ---
+async function lockNote(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  const { slug } = await Promise.resolve(context.params);
+  const response = NextResponse.json({ message: 'Note locked.' }, { status: 200 });
+  clearUnlockSessionCookie(response, slug);
+  return response;
+}
+
+export const POST = withRateLimit('unlock', unlockNote);
+export const DELETE = withRateLimit('update', lockNote);
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+import { getNoteStore } from '@/lib/store';
+import { apiRequest } from '@/test/routes';
+
+describe('POST /api/notes', () => {
+  it('creates a note with its first version', async () => {
+    const response = await POST(
+      apiRequest('POST', '/api/notes', { body: { title: 'Shopping list', content: 'Milk, eggs.' } }),
+      {}
+    );
+    expect(response.status).toBe(201);
+    const { slug } = await response.json();
+    expect(slug).toBe('shopping-list');
+
+    const note = await getNoteStore().findBySlug(slug);
+    expect(note).toMatchObject({ title: 'Shopping list', content: 'Milk, eggs.', revision: 1 });
+    expect((await getNoteStore().getHistory(slug)).map(version => version.content)).toEqual(['Milk, eggs.']);
+  });
+
+  it('requires a title and content', async () => {
+    const response = await POST(apiRequest('POST', '/api/notes', { body: { title: 'Empty' } }), {});
+    expect(response.status).toBe(400);
+  });
+});
@@ -1,129 +1,57 @@
 // src/app/api/notes/route.ts
-// This API route handles the creation of new MicroDoc notes.
-// It now includes a server-side profanity filter, basic rate limiting,
+// This API route handles the creation of new MicroDoc notes and full-text
+// search over public notes (GET ?q=, see src/lib/search), optionally filtered
+// by tag (GET ?tag=). Notes can carry tags and belong to a notebook.
+// It now includes a server-side profanity filter, shared rate limiting,
 // and supports optional expiration dates for notes.
+// A note can be created with separate view, edit and owner secrets;
+// the legacy `password` field sets both the view and the edit secret.
+// Encrypted notes (`encrypted: true`) arrive as ciphertext from the browser,
+// so the profanity filter is skipped for them and their slug is never derived
+// from the title. Notes can also be limited to a number of views, or burn
+// after reading (see src/lib/viewLimit).
 
 import { NextRequest, NextResponse } from 'next/server';
-import { connectToDatabase } from '@/lib/mongodb';
-import { nanoid } from 'nanoid';
-import bcrypt from 'bcryptjs';
+import { getNoteStore, NewNote } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { hashSecret } from '@/lib/noteAuth';
+import { isEncryptedText } from '@/lib/e2e';
+import { parseViewLimit } from '@/lib/viewLimit';
+import { normalizeTag, parseTags } from '@/lib/tags';
+import { checkNotebookMembership } from '@/lib/notebooks';
+import { getLinkedSlugs } from '@/lib/wikiLinks';
+import { generateUniqueSlug } from '@/lib/slugs';
+import {
+  DEFAULT_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_QUERY_LENGTH,
+  buildSnippet,
+  getSearchTerms,
+} from '@/lib/search';
 import {Filter} from 'bad-words';
 
 // Initialize the profanity filter for server-side use
 const filter = new Filter();
 
-// Rate Limiting Configuration and Storage
-const rateLimitStore = new Map<string, { count: number; lastReset: number }>();
-const WINDOW_SIZE_MS = 60 * 1000; // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 5; // Max 5 requests per minute per IP
-
-// Define a type for our note data for better type safety
-interface NoteContent {
-  content: string;
-  timestamp: Date;
-}
-
-interface Note {
-  slug: string;
-  title: string;
-  content: string;
-  passwordHash?: string;
-  createdAt: Date;
-  updatedAt: Date;
-  expiresAt?: Date; // <-- NEW: Optional expiration date
-  history: NoteContent[];
-}
-
-const NANOID_SLUG_LENGTH = 8;
-
-/**
- * Helper function to generate a unique slug.
- * If a custom slug is provided, it tries to use that.
- * Otherwise, it generates a random one.
- * It ensures the slug is unique in the database.
- */
-async function generateUniqueSlug(
-  db: any,
-  proposedSlug?: string | null
-): Promise<string> {
-  let baseSlug = proposedSlug?.trim().toLowerCase().replace(/\s+/g, '-') || '';
-  if (baseSlug) {
-    baseSlug = baseSlug.replace(/[^a-z0-9-]/g, '');
-    if (baseSlug.length > 50) baseSlug = baseSlug.substring(0, 50);
-  }
-
-  let finalSlug: string;
-  let isUnique = false;
-  let attempts = 0;
-  const MAX_ATTEMPTS = 5;
-
-  while (!isUnique && attempts < MAX_ATTEMPTS) {
-    let currentSlug = baseSlug;
-    if (baseSlug && attempts > 0) {
-      currentSlug = `${baseSlug}-${nanoid(4)}`;
-    } else if (!baseSlug) {
-      currentSlug = nanoid(NANOID_SLUG_LENGTH);
-    }
-
-    const existingNote = await db.collection('notes').findOne({ slug: currentSlug });
-    if (!existingNote) {
-      isUnique = true;
-      finalSlug = currentSlug;
-    } else {
-      attempts++;
-      console.warn(`Slug '${currentSlug}' already exists. Attempting another.`);
-    }
-  }
-
-  if (!isUnique) {
-    console.error(`Could not generate unique slug from '${proposedSlug}'. Generating fully random slug.`);
-    let fallbackSlug: string;
-    let fallbackUnique = false;
-    while (!fallbackUnique) {
-      fallbackSlug = nanoid(NANOID_SLUG_LENGTH);
-      const existing = await db.collection('notes').findOne({ slug: fallbackSlug });
-      if (!existing) {
-        fallbackUnique = true;
-        finalSlug = fallbackSlug;
-      }
-    }
-  }
-
-  return finalSlug!;
-}
-
-
-export async function POST(req: NextRequest) {
-  // Rate Limiting Logic
-  const ip = req.ip || req.headers.get('x-forwarded-for') || 'anonymous';
-  const now = Date.now();
-
-  const clientData = rateLimitStore.get(ip) || { count: 0, lastReset: now };
-
-  if (now - clientData.lastReset > WINDOW_SIZE_MS) {
-    clientData.count = 0;
-    clientData.lastReset = now;
-  }
-
-  clientData.count++;
-  rateLimitStore.set(ip, clientData);
-
-  if (clientData.count > MAX_REQUESTS_PER_WINDOW) {
-    const timeLeft = Math.ceil((clientData.lastReset + WINDOW_SIZE_MS - now) / 1000);
-    return NextResponse.json(
-      { message: `Too many requests. Please try again in ${timeLeft} seconds.` },
-      { status: 429, headers: { 'Retry-After': timeLeft.toString() } }
-    );
-  }
-
+async function createNote(req: NextRequest) {
   try {
-    const { client, db } = await connectToDatabase();
+    const store = getNoteStore();
 
     const {
       title,
       content,
       password,
+      viewPassword,
+      editPassword,
+      ownerPassword,
       customSlug,
+      encrypted,
+      unlisted,
+      tags = [],
+      notebook,
+      notebookPassword,
+      burnAfterReading,
+      maxViews,
       expiresAt // <-- NEW: Get expiresAt from request body
     } = await req.json();
 
@@ -135,9 +63,41 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Server-side Profanity Filter
+    if (encrypted && (!isEncryptedText(title) || !isEncryptedText(content))) {
+      return NextResponse.json(
+        { message: 'Encrypted notes must have an encrypted title and content.' },
+        { status: 400 }
+      );
+    }
+
+    const parsedTags = parseTags(tags);
+    if ('error' in parsedTags) {
+      return NextResponse.json({ message: parsedTags.error }, { status: 400 });
+    }
+    // Tags are shown in search results and notebook listings
+    if (filter.isProfane(parsedTags.join(' '))) {
+      return NextResponse.json(
+        { message: 'Profanity detected in tags. Please remove inappropriate language.', error: 'Profanity detected' },
+        { status: 400 }
+      );
+    }
+
+    // Adding a note to a notebook needs the notebook's password
+    if (notebook) {
+      const notebookErrorResponse = await checkNotebookMembership(notebook, notebookPassword);
+      if (notebookErrorResponse) {
+        return notebookErrorResponse;
+      }
+    }
+
+    const viewLimit = parseViewLimit(burnAfterReading, maxViews);
+    if ('error' in viewLimit) {
+      return NextResponse.json({ message: viewLimit.error }, { status: 400 });
+    }
+
+    // Server-side Profanity Filter (the server cannot read encrypted notes)
     const combinedText = `${title} ${content}`;
-    if (filter.isProfane(combinedText)) {
+    if (!encrypted && filter.isProfane(combinedText)) {
       return NextResponse.json(
         { message: 'Profanity detected in title or content. Please remove inappropriate language.', error: 'Profanity detected' },
         { status: 400 }
@@ -145,23 +105,33 @@ export async function POST(req: NextRequest) {
     }
 
     // Generate unique slug
-    const finalSlug = await generateUniqueSlug(db, customSlug || title);
+    const finalSlug = await generateUniqueSlug(store, encrypted ? customSlug : customSlug || title);
 
-    let passwordHash: string | undefined;
-    if (password) {
-      passwordHash = await bcrypt.hash(password, 10);
-    }
+    // Hash each secret that was provided; explicit secrets win over the legacy password
+    const viewSecret = viewPassword || password;
+    const editSecret = editPassword || password;
 
     const noteCreationTime = new Date();
+    // The server cannot see the links in encrypted notes
+    const links = encrypted ? [] : getLinkedSlugs(content);
 
-    const newNote: Note = {
+    const newNote: NewNote = {
       slug: finalSlug,
       title: title,
       content: content,
-      passwordHash: passwordHash,
+      viewPasswordHash: viewSecret ? await hashSecret(viewSecret) : undefined,
+      editPasswordHash: editSecret ? await hashSecret(editSecret) : undefined,
+      ownerPasswordHash: ownerPassword ? await hashSecret(ownerPassword) : undefined,
+      encrypted: encrypted ? true : undefined,
+      unlisted: unlisted ? true : undefined,
+      tags: parsedTags.length > 0 ? parsedTags : undefined,
+      notebook: notebook || undefined,
+      links: links.length > 0 ? links : undefined,
+      ...viewLimit,
       createdAt: noteCreationTime,
       updatedAt: noteCreationTime,
-      history: [{ content: content, timestamp: noteCreationTime }],
+      revision: 1,
+      history: [{ content: content, title: title, timestamp: noteCreationTime }],
     };
 
     // --- NEW: Add expiresAt if provided and valid ---
@@ -179,25 +149,92 @@ export async function POST(req: NextRequest) {
     }
     // --- END NEW ---
 
-    const result = await db.collection('notes').insertOne(newNote);
+    const createdNote = await store.create(newNote);
+
+    return NextResponse.json(
+      {
+        message: 'Note created successfully!',
+        slug: createdNote.slug,
+        id: createdNote.id,
+      },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating note:', error);
+    return NextResponse.json(
+      { message: 'Failed to create note.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
 
-    if (result.acknowledged) {
+/**
+ * Reads a positive integer query parameter.
+ * @returns The value, the fallback if the parameter is missing, or null if it is invalid.
+ */
+function parsePositiveInt(value: string | null, fallback: number): number | null {
+  if (value === null || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+async function searchNotes(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const query = (searchParams.get('q') || '').trim();
+    const tag = normalizeTag(searchParams.get('tag') || '');
+    const page = parsePositiveInt(searchParams.get('page'), 1);
+    const pageSize = parsePositiveInt(searchParams.get('pageSize'), DEFAULT_SEARCH_PAGE_SIZE);
+
+    const terms = getSearchTerms(query);
+    if (terms.length === 0 && !tag) {
+      return NextResponse.json({ message: 'A search query (q) or tag is required.' }, { status: 400 });
+    }
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
       return NextResponse.json(
-        {
-          message: 'Note created successfully!',
-          slug: finalSlug,
-          id: result.insertedId,
-        },
-        { status: 201 }
+        { message: `Search queries can be at most ${MAX_SEARCH_QUERY_LENGTH} characters.` },
+        { status: 400 }
       );
-    } else {
-      throw new Error('Failed to insert document.');
     }
-  } catch (error: any) {
-    console.error('Error creating note:', error);
+    if (page === null || pageSize === null || pageSize > MAX_SEARCH_PAGE_SIZE) {
+      return NextResponse.json(
+        { message: `page must be a positive integer and pageSize between 1 and ${MAX_SEARCH_PAGE_SIZE}.` },
+        { status: 400 }
+      );
+    }
+
+    const { notes, total } = await getNoteStore().searchNotes(query, {
+      offset: (page - 1) * pageSize,
+      limit: pageSize,
+      now: new Date(),
+      tag: tag || undefined,
+    });
+
+    return NextResponse.json(
+      {
+        results: notes.map(note => ({
+          slug: note.slug,
+          title: note.title,
+          ...buildSnippet(note.content, terms),
+          tags: note.tags || [],
+          updatedAt: note.updatedAt.toISOString(),
+        })),
+        total,
+        page,
+        pageSize,
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error('Error searching notes:', error);
     return NextResponse.json(
-      { message: 'Failed to create note.', error: error.message || 'Internal server error' },
+      { message: 'Failed to search notes.', error: error instanceof Error ? error.message : 'Internal server error' },
       { status: 500 }
     );
   }
 }
+
+export const POST = withRateLimit('create', createNote);
+export const GET = withRateLimit('search', searchNotes);
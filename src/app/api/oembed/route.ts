@@ -0,0 +1,109 @@
+// src/app/api/oembed/route.ts
+// This API route is an oEmbed provider (https://oembed.com) for notes:
+// GET /api/oembed?url=<note URL> returns a "rich" response whose HTML is an
+// iframe of the note's embed page (see src/lib/embed). It honours maxwidth,
+// maxheight and an extra theme=dark parameter. Only JSON is supported (other
+// formats are 501), and notes that cannot be embedded are 401 as the spec asks.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+import { withRateLimit } from '@/lib/rateLimit';
+import { expiredNoteResponse, noteNotFoundResponse } from '@/lib/expiredNotes';
+import { requiresSecret } from '@/lib/noteAuth';
+import { hasViewLimit } from '@/lib/viewLimit';
+import {
+  DEFAULT_EMBED_HEIGHT,
+  DEFAULT_EMBED_WIDTH,
+  getEmbedCode,
+  parseEmbedTheme,
+} from '@/lib/embed';
+
+// Note page and embed page URLs, as pasted by users
+const NOTE_PATH_PATTERN = /^\/(?:notes|embed)\/([A-Za-z0-9_-]+)\/?$/;
+
+/**
+ * Finds the slug of the note a URL on this site points to.
+ */
+function getSlugFromUrl(url: string, origin: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== origin) {
+    return null;
+  }
+  return parsed.pathname.match(NOTE_PATH_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * Reads an oEmbed size limit, ignoring anything that is not a positive number.
+ */
+function parseMaxSize(value: string | null): number | undefined {
+  const size = Number(value);
+  return value && Number.isFinite(size) && size > 0 ? Math.floor(size) : undefined;
+}
+
+async function getOEmbed(req: NextRequest) {
+  try {
+    const searchParams = req.nextUrl.searchParams;
+    const format = searchParams.get('format') || 'json';
+    if (format !== 'json') {
+      return NextResponse.json({ message: 'Only the json format is supported.' }, { status: 501 });
+    }
+
+    const url = searchParams.get('url');
+    if (!url) {
+      return NextResponse.json({ message: 'url is required.' }, { status: 400 });
+    }
+    const origin = req.nextUrl.origin;
+    const slug = getSlugFromUrl(url, origin);
+    if (!slug) {
+      return NextResponse.json({ message: 'The url is not a note on this site.' }, { status: 404 });
+    }
+
+    const note = await getNoteStore().findBySlug(slug);
+    if (!note) {
+      return noteNotFoundResponse(slug);
+    }
+    if (note.deletedAt) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      return expiredNoteResponse(note.expiresAt);
+    }
+    if (requiresSecret(note, 'view') || note.encrypted || hasViewLimit(note)) {
+      return NextResponse.json({ message: 'This note cannot be embedded.' }, { status: 401 });
+    }
+
+    const maxWidth = parseMaxSize(searchParams.get('maxwidth'));
+    const maxHeight = parseMaxSize(searchParams.get('maxheight'));
+    const width = Math.min(DEFAULT_EMBED_WIDTH, maxWidth ?? DEFAULT_EMBED_WIDTH);
+    const height = Math.min(DEFAULT_EMBED_HEIGHT, maxHeight ?? DEFAULT_EMBED_HEIGHT);
+    const theme = parseEmbedTheme(searchParams.get('theme'));
+
+    return NextResponse.json(
+      {
+        version: '1.0',
+        type: 'rich',
+        provider_name: 'MicroDoc',
+        provider_url: origin,
+        title: note.title,
+        html: getEmbedCode(origin, slug, note.title, { theme, width, height }),
+        width,
+        height,
+      },
+      { status: 200 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error building oEmbed response:', error);
+    return NextResponse.json(
+      { message: 'Failed to build oEmbed response.', error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', getOEmbed);
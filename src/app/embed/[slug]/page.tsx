@@ -0,0 +1,120 @@
+// src/app/embed/[slug]/page.tsx
+// A note rendered for embedding in an iframe (see src/lib/embed): just the
+// title and content, without navigation. ?theme=dark switches to dark colours
+// and ?height= (in pixels) fixes the height, scrolling the content inside it.
+// Links open in a new tab so they never navigate the embedding page's frame.
+// Notes that need a password, a key or a counted view are not shown here.
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import ReactMarkdown from "react-markdown";
+import { AlertCircle, RotateCw } from "lucide-react";
+import { wikiLinksToMarkdown } from "@/lib/wikiLinks";
+import { parseEmbedHeight, parseEmbedTheme } from "@/lib/embed";
+
+interface EmbeddedNote {
+  title: string;
+  content: string;
+}
+
+export default function EmbedNotePage() {
+  const { slug } = useParams();
+  const searchParams = useSearchParams();
+  const theme = parseEmbedTheme(searchParams.get("theme"));
+  const height = parseEmbedHeight(searchParams.get("height"));
+
+  const [note, setNote] = useState<EmbeddedNote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (!slug) {
+      return;
+    }
+    const fetchNote = async () => {
+      try {
+        const response = await fetch(`/api/notes/${slug}?view=1`);
+        const data = await response.json();
+        if (response.status === 401 || data.confirmationRequired) {
+          setError("This note cannot be embedded.");
+        } else if (!response.ok) {
+          setError(data.message || "Failed to load note.");
+        } else if (data.note.isProtected || data.note.encrypted) {
+          // A session cookie may have let us read it, but other readers cannot
+          setError("This note cannot be embedded.");
+        } else {
+          setNote(data.note);
+        }
+      } catch (err) {
+        console.error("Error fetching note:", err);
+        setError("Could not connect to the server.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchNote();
+  }, [slug]);
+
+  const isDark = theme === "dark";
+
+  return (
+    <div
+      className={`flex flex-col p-4 overflow-auto ${
+        isDark ? "bg-[#1A202C] text-gray-100" : "bg-white text-gray-800"
+      } ${height ? "" : "min-h-screen"}`}
+      style={height ? { height } : undefined}
+    >
+      {loading && (
+        <div className="flex-1 flex items-center justify-center">
+          <RotateCw className="animate-spin h-6 w-6 text-[#7F56D9]" />
+        </div>
+      )}
+
+      {error && !loading && (
+        <div className="flex-1 flex items-center justify-center space-x-2 text-sm">
+          <AlertCircle className="h-5 w-5 text-[#B42318]" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {note && !loading && (
+        <>
+          <h1 className="text-2xl font-bold mb-3">{note.title}</h1>
+          <div className="note-content leading-relaxed flex-1">
+            <ReactMarkdown
+              components={{
+                a: ({ href, children }) => (
+                  <a
+                    href={href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={isDark ? "text-[#B692F6]" : "text-[#7F56D9]"}
+                  >
+                    {children}
+                  </a>
+                ),
+              }}
+            >
+              {wikiLinksToMarkdown(note.content)}
+            </ReactMarkdown>
+          </div>
+        </>
+      )}
+
+      <p
+        className={`mt-4 text-xs ${isDark ? "text-gray-400" : "text-gray-500"}`}
+      >
+        <a
+          href={`/notes/${slug}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hover:underline"
+        >
+          Open in MicroDoc
+        </a>
+      </p>
+    </div>
+  );
+}
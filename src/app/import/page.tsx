@@ -0,0 +1,249 @@
+// src/app/import/page.tsx
+// Imports existing Markdown documents as notes: one or more .md files or zip
+// archives of them. Shows what happened to each file once the import is done.
+
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  CheckCircle2,
+  RotateCw,
+  Upload,
+  XCircle,
+} from "lucide-react";
+
+// The outcome for one file, as returned by POST /api/import
+type ImportResult =
+  | { file: string; ok: true; slug: string; title: string }
+  | { file: string; ok: false; message: string };
+
+export default function ImportPage() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [tags, setTags] = useState<string>(""); // Comma separated
+  const [notebook, setNotebook] = useState<string>("");
+  const [notebookPassword, setNotebookPassword] = useState<string>("");
+  const [unlisted, setUnlisted] = useState<boolean>(false);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [message, setMessage] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setMessage("");
+    setResults(null);
+    setIsLoading(true);
+
+    const form = new FormData();
+    files.forEach((file) => form.append("files", file));
+    form.append("tags", tags);
+    if (notebook) {
+      form.append("notebook", notebook);
+      form.append("notebookPassword", notebookPassword);
+    }
+    form.append("unlisted", String(unlisted));
+
+    try {
+      const response = await fetch("/api/import", {
+        method: "POST",
+        body: form,
+      });
+      const data = await response.json();
+      if (data.results) {
+        setResults(data.results);
+        setMessage(data.message);
+      } else {
+        setError(data.message || "Failed to import files.");
+      }
+    } catch (err) {
+      console.error("Error importing files:", err);
+      setError("Could not connect to the server.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-[#F5F5F7] p-4 sm:p-8">
+      <div className="w-full max-w-2xl bg-white p-8 rounded-lg shadow-xl my-4 lg:my-8 space-y-6">
+        <h1 className="text-3xl font-bold text-[#1A202C] text-center mb-6 flex items-center justify-center space-x-3">
+          <Upload className="h-8 w-8 text-[#7F56D9]" />
+          <span>Import Notes</span>
+        </h1>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="files"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Markdown Files or Zip Archives
+            </label>
+            <input
+              type="file"
+              id="files"
+              multiple
+              accept=".md,.markdown,.zip"
+              className="mt-1 block w-full text-sm text-gray-700
+                         file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0
+                         file:text-sm file:font-medium file:bg-[#F4EBFF] file:text-[#6A4BBA]
+                         hover:file:bg-[#E9D7FE]"
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              disabled={isLoading}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Titles come from the front-matter title, the first heading or the
+              file name. Up to 50 files per import.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="tags"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Tags (Optional)
+            </label>
+            <input
+              type="text"
+              id="tags"
+              className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                         focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                         text-gray-800 bg-white"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g., imported, docs"
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="notebook"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Notebook (Optional)
+              </label>
+              <input
+                type="text"
+                id="notebook"
+                className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={notebook}
+                onChange={(e) =>
+                  setNotebook(
+                    e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, "")
+                  )
+                }
+                placeholder="Notebook slug"
+                disabled={isLoading}
+              />
+            </div>
+            {notebook && (
+              <div>
+                <label
+                  htmlFor="notebookPassword"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Notebook Password
+                </label>
+                <input
+                  type="password"
+                  id="notebookPassword"
+                  className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white"
+                  value={notebookPassword}
+                  onChange={(e) => setNotebookPassword(e.target.value)}
+                  placeholder="Only if the notebook has a password"
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={unlisted}
+              onChange={(e) => setUnlisted(e.target.checked)}
+              disabled={isLoading}
+              className="h-4 w-4 rounded border-gray-300 text-[#7F56D9] focus:ring-[#7F56D9]"
+            />
+            <span>Unlisted (hide from search)</span>
+          </label>
+
+          {error && (
+            <div className="text-center px-4 py-3 rounded-md flex items-center justify-center space-x-2 bg-[#F8D7DA] border border-[#F5C6CB] text-[#721C24]">
+              <AlertCircle className="h-5 w-5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm
+                       text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                       focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                       transition duration-150 ease-in-out
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={isLoading || files.length === 0}
+          >
+            {isLoading ? (
+              <span className="flex items-center justify-center">
+                <RotateCw className="animate-spin h-5 w-5 mr-2" />
+                Importing...
+              </span>
+            ) : (
+              "Import"
+            )}
+          </button>
+        </form>
+
+        {results && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">{message}</p>
+            <ul className="divide-y divide-gray-200 text-sm">
+              {results.map((result, index) => (
+                <li
+                  key={`${result.file}-${index}`}
+                  className="py-2 flex items-start space-x-2"
+                >
+                  {result.ok ? (
+                    <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />
+                  )}
+                  <div>
+                    <p className="text-gray-800">{result.file}</p>
+                    {result.ok ? (
+                      <Link
+                        href={`/notes/${result.slug}`}
+                        className="text-[#7F56D9] hover:underline"
+                      >
+                        {result.title}
+                      </Link>
+                    ) : (
+                      <p className="text-[#721C24]">{result.message}</p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <p className="text-center text-sm text-gray-500">
+          <Link href="/" className="hover:text-[#7F56D9] underline">
+            Back to Home
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
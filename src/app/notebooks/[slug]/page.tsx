@@ -0,0 +1,246 @@
+// src/app/notebooks/[slug]/page.tsx
+// A notebook's index page: lists its notes, most recently updated first, and
+// filters them by tag. Password-protected notebooks ask for their password,
+// which is only kept in memory for this page.
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { AlertCircle, BookOpen, Lock, Plus, RotateCw } from "lucide-react";
+
+// A notebook as returned by GET /api/notebooks/[slug]
+interface NotebookData {
+  notebook: {
+    slug: string;
+    name: string;
+    isProtected: boolean;
+    createdAt: string;
+  };
+  notes: {
+    slug: string;
+    title: string | null; // Null for notes that need a password to read
+    isProtected: boolean;
+    encrypted: boolean;
+    tags: string[];
+    updatedAt: string;
+  }[];
+  tags: { tag: string; count: number }[];
+}
+
+export default function NotebookPage() {
+  const { slug } = useParams();
+  const [data, setData] = useState<NotebookData | null>(null);
+  const [tag, setTag] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [enteredPassword, setEnteredPassword] = useState<string>("");
+  const [passwordRequired, setPasswordRequired] = useState<boolean>(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotebook = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/notebooks/${slug}?tag=${encodeURIComponent(tag)}`,
+        {
+          headers: password ? { Authorization: `Bearer ${password}` } : {},
+        }
+      );
+      const body = await response.json();
+      if (response.ok) {
+        setData(body);
+        setPasswordRequired(false);
+        setPasswordError(null);
+      } else if (response.status === 401) {
+        setPasswordRequired(true);
+        setPasswordError(password ? body.message : null);
+      } else {
+        setError(body.message || "Failed to load notebook.");
+      }
+    } catch (err) {
+      console.error("Error fetching notebook:", err);
+      setError("Could not connect to the server.");
+    } finally {
+      setLoading(false);
+    }
+  }, [slug, tag, password]);
+
+  useEffect(() => {
+    fetchNotebook();
+  }, [fetchNotebook]);
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPassword(enteredPassword);
+  };
+
+  const noteLabel = (note: NotebookData["notes"][number]) =>
+    note.title ?? (note.encrypted ? "Encrypted note" : "Protected note");
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-[#F5F5F7] p-4 sm:p-8">
+      <div className="w-full max-w-2xl bg-white p-8 rounded-lg shadow-xl my-4 lg:my-8 space-y-6">
+        {loading && !data && (
+          <div className="flex flex-col items-center justify-center space-y-4 py-12">
+            <RotateCw className="animate-spin h-10 w-10 text-[#7F56D9]" />
+            <p className="text-gray-600">Loading Notebook...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-center px-4 py-3 rounded-md flex items-center justify-center space-x-2 bg-[#F8D7DA] border border-[#F5C6CB] text-[#721C24]">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {passwordRequired && !error && (
+          <div className="flex flex-col items-center space-y-4 py-8">
+            <Lock className="h-12 w-12 text-[#7F56D9]" />
+            <h2 className="text-2xl font-bold text-[#1A202C]">
+              Notebook Protected
+            </h2>
+            <p className="text-gray-600">
+              Please enter the password to open this notebook.
+            </p>
+            <form
+              onSubmit={handlePasswordSubmit}
+              className="w-full max-w-sm space-y-4 mt-4"
+            >
+              <input
+                type="password"
+                className="block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                placeholder="Enter password"
+                value={enteredPassword}
+                onChange={(e) => setEnteredPassword(e.target.value)}
+                required
+                disabled={loading}
+              />
+              {passwordError && (
+                <p className="text-sm text-center text-[#721C24]">
+                  {passwordError}
+                </p>
+              )}
+              <button
+                type="submit"
+                className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm
+                           text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                           transition duration-150 ease-in-out
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={loading}
+              >
+                {loading ? "Unlocking..." : "Open Notebook"}
+              </button>
+            </form>
+          </div>
+        )}
+
+        {data && !passwordRequired && !error && (
+          <>
+            <h1 className="text-3xl font-bold text-[#1A202C] text-center flex items-center justify-center space-x-3">
+              <BookOpen className="h-8 w-8 text-[#7F56D9]" />
+              <span>{data.notebook.name}</span>
+              {data.notebook.isProtected && (
+                <Lock className="h-6 w-6 text-gray-500" />
+              )}
+            </h1>
+
+            {data.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                <button
+                  onClick={() => setTag("")}
+                  className={`px-2 py-0.5 rounded-full ${
+                    tag
+                      ? "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      : "bg-[#7F56D9] text-white"
+                  }`}
+                >
+                  All
+                </button>
+                {data.tags.map((entry) => (
+                  <button
+                    key={entry.tag}
+                    onClick={() => setTag(entry.tag)}
+                    className={`px-2 py-0.5 rounded-full ${
+                      tag === entry.tag
+                        ? "bg-[#7F56D9] text-white"
+                        : "bg-[#F4EBFF] text-[#6A4BBA] hover:bg-[#E9D7FE]"
+                    }`}
+                  >
+                    #{entry.tag} ({entry.count})
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {data.notes.length === 0 ? (
+              <p className="text-center text-gray-600 py-8">
+                {tag
+                  ? `No notes in this notebook are tagged #${tag}.`
+                  : "This notebook has no notes yet."}
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {data.notes.map((note) => (
+                  <li key={note.slug} className="py-4 space-y-1">
+                    <Link
+                      href={`/notes/${note.slug}`}
+                      className={`font-semibold hover:text-[#7F56D9] ${
+                        note.title === null
+                          ? "italic text-gray-500"
+                          : "text-[#1A202C]"
+                      }`}
+                    >
+                      {noteLabel(note)}
+                    </Link>
+                    {note.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {note.tags.map((noteTag) => (
+                          <span
+                            key={noteTag}
+                            className="px-2 py-0.5 rounded-full bg-[#F4EBFF] text-xs text-[#6A4BBA]"
+                          >
+                            #{noteTag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-400">
+                      Updated {new Date(note.updatedAt).toLocaleString()}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-center space-x-4 mt-6">
+              <Link
+                href={`/?notebook=${data.notebook.slug}`}
+                className="py-2 px-4 border border-transparent rounded-md shadow-sm
+                           text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                           transition duration-150 ease-in-out flex items-center space-x-2"
+              >
+                <Plus className="h-4 w-4" />
+                <span>New Note</span>
+              </Link>
+              <Link
+                href="/"
+                className="py-2 px-4 text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md
+                           transition duration-150 ease-in-out"
+              >
+                Back to Home
+              </Link>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+// src/app/notebooks/page.tsx
+// Creates a notebook: a named collection of notes with an optional password.
+// Notes join a notebook when they are created or edited.
+
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { AlertCircle, BookOpen } from "lucide-react";
+
+export default function NewNotebookPage() {
+  const [name, setName] = useState<string>("");
+  const [customSlug, setCustomSlug] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/notebooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          customSlug: customSlug || undefined,
+          password: password || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        router.push(`/notebooks/${data.slug}`);
+      } else {
+        setError(data.message || "Failed to create notebook.");
+      }
+    } catch (err) {
+      console.error("Error creating notebook:", err);
+      setError("Could not connect to the server.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-[#F5F5F7] p-4 sm:p-8">
+      <div className="w-full max-w-lg bg-white p-8 rounded-lg shadow-xl my-4 lg:my-8 space-y-6">
+        <h1 className="text-3xl font-bold text-[#1A202C] text-center mb-6 flex items-center justify-center space-x-3">
+          <BookOpen className="h-8 w-8 text-[#7F56D9]" />
+          <span>New Notebook</span>
+        </h1>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="name"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Name
+            </label>
+            <input
+              type="text"
+              id="name"
+              className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                         focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                         text-gray-800 bg-white"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Team Wiki"
+              maxLength={100}
+              required
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="customSlug"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Custom URL Slug (Optional)
+            </label>
+            <input
+              type="text"
+              id="customSlug"
+              className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                         focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                         text-gray-800 bg-white"
+              value={customSlug}
+              onChange={(e) =>
+                setCustomSlug(
+                  e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, "")
+                )
+              }
+              placeholder="e.g., team-wiki"
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Password (Optional)
+            </label>
+            <input
+              type="password"
+              id="password"
+              className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                         focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                         text-gray-800 bg-white"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Needed to list the notebook and add notes to it"
+              disabled={isLoading}
+            />
+          </div>
+
+          {error && (
+            <div className="text-center px-4 py-3 rounded-md flex items-center justify-center space-x-2 bg-[#F8D7DA] border border-[#F5C6CB] text-[#721C24]">
+              <AlertCircle className="h-5 w-5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm
+                       text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                       focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                       transition duration-150 ease-in-out
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={isLoading || !name.trim()}
+          >
+            {isLoading ? "Creating..." : "Create Notebook"}
+          </button>
+        </form>
+
+        <p className="text-center text-sm text-gray-500">
+          <Link href="/" className="hover:text-[#7F56D9] underline">
+            Back to Home
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
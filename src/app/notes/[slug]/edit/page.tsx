@@ -1,13 +1,33 @@
 // src/app/notes/[slug]/edit/page.tsx
 // This page allows users to edit an existing MicroDoc note.
-// It now includes a client-side profanity filter and an optional expiration date input.
+// It now includes a client-side profanity filter, an optional expiration date input,
+// a button to delete the note, merges or resolves conflicting edits when
+// someone else saved the note first, and live collaboration with other editors.
+// Editing needs the note's edit password (if it has one); the owner can also
+// change the view, edit and owner passwords here. Passwords are exchanged for
+// an unlock session, shared with the view and history pages.
+// Encrypted notes are decrypted and re-encrypted in the browser with the key
+// from the URL #fragment, except for an unchanged title or content, which is
+// sent back as stored; live collaboration is not available for them.
+// Each save can carry the editor's name and a short change message, which
+// show up on the history page.
 
 "use client";
 
 import React, { useState, useEffect, useCallback } from "react";
-import { useParams, useRouter } from "next/navigation";
-import { RotateCw, AlertCircle, Lock } from "lucide-react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { RotateCw, AlertCircle, Lock, Trash2, Users } from "lucide-react";
 import MarkdownEditor from "@/components/MarkdownEditor";
+import DeleteNoteDialog from "@/components/DeleteNoteDialog";
+import DiffViewer from "@/components/DiffViewer";
+import { threeWayMerge } from "@/lib/merge";
+import { useCollaboration } from "@/lib/useCollaboration";
+import { unlockNote } from "@/lib/unlockNote";
+import { decryptNote, encryptText, getKeyFromLocation } from "@/lib/e2e";
+import {
+  MAX_AUTHOR_LENGTH,
+  MAX_CHANGE_MESSAGE_LENGTH,
+} from "@/lib/historyEvents";
 import { Filter } from "bad-words";
 
 // Initialize the profanity filter
@@ -17,15 +37,49 @@ const filter = new Filter();
 interface NoteData {
   title: string;
   content: string;
-  isProtected: boolean;
+  isProtected: boolean; // Reading needs a password
+  isEditProtected: boolean; // Editing needs a password
+  hasOwnerPassword: boolean;
+  access: "view" | "edit" | "owner"; // What our unlock session or share link allows
+  encrypted?: boolean; // Title and content are stored encrypted (see src/lib/e2e)
+  tags: string[];
+  notebook: string | null; // Slug of the notebook the note belongs to
   createdAt: string;
   updatedAt: string;
   expiresAt?: string; // <-- NEW: Optional expiration date as ISO string
+  revision: number; // Revision this edit is based on
+  stored?: { title: string; content: string }; // Ciphertext of an encrypted note
+}
+
+// State kept while the user resolves a conflicting edit
+interface EditConflict {
+  theirs: NoteData; // The version someone else saved
+  mergedDraft: string; // Best-effort automatic merge, may need manual fixes
+}
+
+/**
+ * Decrypts a note for editing, keeping the ciphertext of an encrypted note:
+ * encrypting again gives a different one, so unchanged fields are saved as
+ * they were stored.
+ */
+async function decryptForEdit(
+  note: NoteData,
+  encodedKey: string | null
+): Promise<NoteData> {
+  const decrypted = await decryptNote(note, encodedKey);
+  return note.encrypted
+    ? { ...decrypted, stored: { title: note.title, content: note.content } }
+    : decrypted;
 }
 
 export default function EditNotePage() {
   const { slug } = useParams();
   const router = useRouter();
+  // A share link (?token=...) is used in place of the password
+  const shareToken = useSearchParams().get("token");
+  const tokenQuery = shareToken
+    ? `?token=${encodeURIComponent(shareToken)}`
+    : "";
 
   // State for fetching/viewing the note data
   const [initialNote, setInitialNote] = useState<NoteData | null>(null);
@@ -42,10 +96,19 @@ export default function EditNotePage() {
   // State for the edit form
   const [title, setTitle] = useState<string>("");
   const [content, setContent] = useState<string>("");
-  const [currentPasswordForUpdate, setCurrentPasswordForUpdate] =
-    useState<string>("");
-  const [newPassword, setNewPassword] = useState<string>("");
-  const [confirmNewPassword, setConfirmNewPassword] = useState<string>("");
+  const [ownerPassword, setOwnerPassword] = useState<string>(""); // Unlocks access password changes
+  const [ownerUnlockError, setOwnerUnlockError] = useState<string | null>(null);
+  // New access passwords (owner only); blank keeps the current one
+  const [newViewPassword, setNewViewPassword] = useState<string>("");
+  const [newEditPassword, setNewEditPassword] = useState<string>("");
+  const [newOwnerPassword, setNewOwnerPassword] = useState<string>("");
+  const [removeViewPassword, setRemoveViewPassword] = useState<boolean>(false);
+  const [removeEditPassword, setRemoveEditPassword] = useState<boolean>(false);
+  const [removeOwnerPassword, setRemoveOwnerPassword] =
+    useState<boolean>(false);
+  const [tags, setTags] = useState<string>(""); // Comma separated
+  const [notebook, setNotebook] = useState<string>("");
+  const [notebookPassword, setNotebookPassword] = useState<string>(""); // Needed to move the note into a notebook
   const [expiresAt, setExpiresAt] = useState<string>(""); // <-- NEW: State for expiration date (string for datetime-local)
 
   // State for update operation feedback
@@ -53,6 +116,15 @@ export default function EditNotePage() {
   const [updateMessage, setUpdateMessage] = useState<string | null>(null);
   const [updateError, setUpdateError] = useState<string | null>(null);
   const [profanityDetected, setProfanityDetected] = useState<boolean>(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState<boolean>(false);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+
+  // Display name shown to other collaborators, remembered in this browser
+  const [collabName, setCollabName] = useState<string>("");
+
+  // Recorded with the saved version on the history page
+  const [author, setAuthor] = useState<string>(""); // Remembered in this browser
+  const [changeMessage, setChangeMessage] = useState<string>("");
 
   const baseAlertClasses =
     "mt-4 text-center px-4 py-3 rounded-md flex items-center justify-center space-x-2";
@@ -99,13 +171,37 @@ export default function EditNotePage() {
         const response = await fetch(`/api/notes/${slug}`, { headers });
         const data = await response.json();
 
-        if (response.ok) {
-          setInitialNote(data.note);
-          setTitle(data.note.title);
-          setContent(data.note.content);
+        if (response.ok && data.confirmationRequired) {
+          // Loading it here would use up one of its views
+          setFetchError("Notes with a view limit cannot be edited.");
+          setInitialNote(null);
+        } else if (response.ok && data.note.access === "view") {
+          // The note is readable, but this page needs the edit password
+          setPasswordRequired(true);
+          if (passwordAttempt) {
+            setViewPasswordError("This share link does not allow editing.");
+          }
+          setInitialNote(null);
+        } else if (response.ok) {
+          let note: NoteData;
+          try {
+            note = await decryptForEdit(data.note, getKeyFromLocation());
+          } catch (decryptError) {
+            console.error("Error decrypting note:", decryptError);
+            setFetchError(
+              "This note is encrypted. Open it with the full link, including the key after #."
+            );
+            setInitialNote(null);
+            return;
+          }
+          setInitialNote(note);
+          setTitle(note.title);
+          setContent(note.content);
+          setTags(note.tags.join(", "));
+          setNotebook(note.notebook || "");
           setPasswordRequired(false);
           // Initial check for profanity after loading content
-          checkProfanity(data.note.title + " " + data.note.content);
+          checkProfanity(note.title + " " + note.content);
           // <-- NEW: Set expiresAt if present in fetched note
           if (data.note.expiresAt) {
             // Format ISO string to datetime-local format (YYYY-MM-DDTHH:MM)
@@ -126,13 +222,21 @@ export default function EditNotePage() {
           setPasswordRequired(true);
           setViewPasswordError("Incorrect password. Please try again.");
           setInitialNote(null);
+        } else if (
+          response.status === 404 &&
+          data.message === "Note has been deleted."
+        ) {
+          setFetchError(
+            "This note is in the trash. Restore it from the note's page to edit it again."
+          );
+          setInitialNote(null);
         } else {
           setFetchError(
             data.message || `Failed to fetch note: ${response.statusText}`
           );
           setInitialNote(null);
         }
-      } catch (err: any) {
+      } catch (err: unknown) {
         console.error("Error fetching note for edit:", err);
         setFetchError("Could not connect to the server or fetch note data.");
         setInitialNote(null);
@@ -147,16 +251,93 @@ export default function EditNotePage() {
   // Initial fetch on component mount or slug change
   useEffect(() => {
     if (slug) {
-      fetchNoteForEdit();
+      fetchNoteForEdit(shareToken);
     }
-  }, [slug, fetchNoteForEdit]);
+  }, [slug, shareToken, fetchNoteForEdit]);
 
   // Handler for submitting the password to view the note
   const handleViewPasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setAttemptingViewPassword(true);
     setViewPasswordError(null);
-    await fetchNoteForEdit(enteredViewPassword);
+    const result = await unlockNote(String(slug), enteredViewPassword);
+    if (!result.ok || result.access === "view") {
+      setViewPasswordError(
+        result.ok
+          ? "This password only allows viewing. Enter the edit password."
+          : result.message || "Failed to unlock note."
+      );
+      setAttemptingViewPassword(false);
+      return;
+    }
+    // The session cookie replaces the password from now on
+    setEnteredViewPassword("");
+    await fetchNoteForEdit(shareToken);
+  };
+
+  // Handler for unlocking owner access without reloading the draft
+  const handleOwnerUnlock = async () => {
+    setOwnerUnlockError(null);
+    const result = await unlockNote(String(slug), ownerPassword);
+    if (result.ok && result.access === "owner") {
+      setOwnerPassword("");
+      setInitialNote((prev) => (prev ? { ...prev, access: "owner" } : prev));
+    } else {
+      setOwnerUnlockError(
+        result.ok
+          ? "This is not the owner password."
+          : result.message || "Failed to unlock note."
+      );
+    }
+  };
+
+  /**
+   * Handles a 409 response: merges our changes into the version saved in the
+   * meantime, or opens the conflict resolution panel if both edits overlap.
+   * @param theirs The server's current version of the note.
+   */
+  const handleEditConflict = (theirs: NoteData) => {
+    const base = initialNote as NoteData;
+    const { merged, clean } = threeWayMerge(
+      base.content,
+      content,
+      theirs.content
+    );
+    // Keep our title if we changed it, otherwise take theirs
+    const mergedTitle = title === base.title ? theirs.title : title;
+
+    if (clean) {
+      setInitialNote(theirs);
+      setTitle(mergedTitle);
+      setContent(merged);
+      setUpdateMessage(
+        "Someone else saved this note while you were editing. Their changes have been merged with yours - review the result and save again."
+      );
+    } else {
+      setTitle(mergedTitle);
+      setConflict({ theirs, mergedDraft: merged });
+      setUpdateError(
+        "Someone else changed the same part of this note. Choose how to resolve the conflict below."
+      );
+    }
+  };
+
+  /**
+   * Resolves a conflict by picking the content to continue editing with.
+   * The edit is then based on the other person's revision.
+   */
+  const resolveConflict = (resolution: "merged" | "mine" | "theirs") => {
+    if (!conflict) return;
+    if (resolution === "merged") {
+      setContent(conflict.mergedDraft);
+    } else if (resolution === "theirs") {
+      setTitle(conflict.theirs.title);
+      setContent(conflict.theirs.content);
+    }
+    setInitialNote(conflict.theirs);
+    setConflict(null);
+    setUpdateError(null);
+    setUpdateMessage("Conflict resolved. Review the note and save again.");
   };
 
   // Handler for submitting the edit form (PUT request)
@@ -178,12 +359,6 @@ export default function EditNotePage() {
       return;
     }
 
-    if (newPassword && newPassword !== confirmNewPassword) {
-      setUpdateError("New passwords do not match.");
-      setIsUpdating(false);
-      return;
-    }
-
     // --- NEW: Validate expiration date on frontend before sending ---
     let expirationDateToSend: string | null | undefined = undefined; // Can be string, null (to clear), or undefined (no change)
     if (expiresAt) {
@@ -200,23 +375,61 @@ export default function EditNotePage() {
     }
     // --- END NEW ---
 
-    let passwordToSend = currentPasswordForUpdate;
-    if (initialNote?.isProtected && !currentPasswordForUpdate) {
-      passwordToSend = enteredViewPassword;
+    // Access password changes: a string sets a new password, null removes it
+    const accessChanges = {
+      viewPassword: removeViewPassword ? null : newViewPassword || undefined,
+      editPassword: removeEditPassword ? null : newEditPassword || undefined,
+      ownerPassword: removeOwnerPassword ? null : newOwnerPassword || undefined,
+    };
+    // Changing the password behind our unlock session ends it, so unlock
+    // again with the new one after saving
+    let nextUnlockPassword: string | undefined;
+    if (accessChanges.ownerPassword) {
+      nextUnlockPassword = accessChanges.ownerPassword;
+    } else if (!initialNote?.hasOwnerPassword && accessChanges.editPassword) {
+      nextUnlockPassword = accessChanges.editPassword;
     }
 
     try {
+      // Encrypted notes only ever leave the browser encrypted
+      const encryptionKey = initialNote?.encrypted
+        ? getKeyFromLocation()
+        : null;
+      if (initialNote?.encrypted && !encryptionKey) {
+        setUpdateError(
+          "The encryption key is missing from the link. Open the note with the full link to save it."
+        );
+        return;
+      }
+      const encryptField = async (
+        field: "title" | "content",
+        value: string
+      ) => {
+        if (!encryptionKey) return value;
+        const stored = initialNote?.stored;
+        return stored && initialNote[field] === value
+          ? stored[field]
+          : encryptText(encryptionKey, value);
+      };
+
       const response = await fetch(`/api/notes/${slug}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
+          // Only save if nobody else has saved since we loaded the note
+          "If-Match": `"${initialNote?.revision ?? 0}"`,
         },
         body: JSON.stringify({
-          title,
-          content,
-          currentPassword: passwordToSend,
-          newPassword: newPassword || undefined,
+          title: await encryptField("title", title),
+          content: await encryptField("content", content),
+          currentPassword: shareToken || undefined,
+          ...accessChanges,
+          tags,
+          notebook: notebook || null,
+          notebookPassword: notebookPassword || undefined,
           expiresAt: expirationDateToSend, // <-- NEW: Include expiresAt in the body
+          author: author || undefined,
+          message: changeMessage || undefined,
         }),
       });
 
@@ -224,12 +437,27 @@ export default function EditNotePage() {
 
       if (response.ok) {
         setUpdateMessage(data.message || "Note updated successfully!");
-        setCurrentPasswordForUpdate("");
-        setNewPassword("");
-        setConfirmNewPassword("");
+        setNewViewPassword("");
+        setNewEditPassword("");
+        setNewOwnerPassword("");
+        setRemoveViewPassword(false);
+        setRemoveEditPassword(false);
+        setRemoveOwnerPassword(false);
+        setNotebookPassword("");
+        setChangeMessage("");
+        window.localStorage.setItem("microdocs:authorName", author);
+        if (nextUnlockPassword) {
+          await unlockNote(String(slug), nextUnlockPassword);
+        }
         // Re-fetch to update local state and potentially the expiresAt field
-        await fetchNoteForEdit(passwordToSend);
-        setTimeout(() => router.push(`/notes/${slug}`), 2000);
+        await fetchNoteForEdit(shareToken);
+        setTimeout(
+          () =>
+            router.push(`/notes/${slug}${tokenQuery}${window.location.hash}`),
+          2000
+        );
+      } else if (response.status === 409 && data.note) {
+        handleEditConflict(await decryptForEdit(data.note, encryptionKey));
       } else if (response.status === 401) {
         setUpdateError(data.message || "Authentication required to update.");
       } else {
@@ -241,7 +469,7 @@ export default function EditNotePage() {
           );
         }
       }
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error("Fetch update error:", err);
       setUpdateError(
         "An unexpected error occurred during update. Please try again."
@@ -251,6 +479,33 @@ export default function EditNotePage() {
     }
   };
 
+  // Pick up (or create) this browser's collaborator name
+  useEffect(() => {
+    let storedName = window.localStorage.getItem("microdocs:collabName");
+    if (!storedName) {
+      storedName = `Guest ${Math.floor(1000 + Math.random() * 9000)}`;
+      window.localStorage.setItem("microdocs:collabName", storedName);
+    }
+    setCollabName(storedName);
+    setAuthor(window.localStorage.getItem("microdocs:authorName") || "");
+  }, []);
+
+  // Live collaboration: other editors' changes flow into `content`
+  const collaboration = useCollaboration({
+    slug: String(slug),
+    enabled:
+      !!initialNote && !initialNote.encrypted && !!collabName && !conflict,
+    name: collabName,
+    password: shareToken || undefined,
+    content,
+    setContent,
+    // Edits saved by the session become the base for our next save
+    onSaved: (revision, savedContent) =>
+      setInitialNote((prev) =>
+        prev ? { ...prev, revision, content: savedContent } : prev
+      ),
+  });
+
   // Render logic
   if (loadingInitial) {
     return (
@@ -285,7 +540,7 @@ export default function EditNotePage() {
           <Lock className="h-12 w-12 text-[#7F56D9]" />
           <h2 className="text-2xl font-bold text-[#1A202C]">Note Protected</h2>
           <p className="text-gray-600">
-            Please enter the password to edit this note.
+            Please enter the edit password for this note.
           </p>
           <form
             onSubmit={handleViewPasswordSubmit}
@@ -296,7 +551,7 @@ export default function EditNotePage() {
               className="block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
                          focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
                          text-gray-800 bg-white"
-              placeholder="Enter password"
+              placeholder="Enter edit password"
               value={enteredViewPassword}
               onChange={(e) => setEnteredViewPassword(e.target.value)}
               required
@@ -379,87 +634,273 @@ export default function EditNotePage() {
             >
               Note Content (Markdown supported)
             </label>
+            {/* Live collaboration status */}
+            <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-gray-600">
+              <Users className="h-4 w-4" />
+              {collaboration.connected ? (
+                collaboration.participants.length > 0 ? (
+                  <>
+                    <span>Editing live with</span>
+                    {collaboration.participants.map((participant) => (
+                      <span
+                        key={participant.id}
+                        className="px-2 py-0.5 rounded-full text-white"
+                        style={{ backgroundColor: participant.color }}
+                      >
+                        {participant.name}
+                      </span>
+                    ))}
+                  </>
+                ) : (
+                  <span>Live editing on - nobody else is here yet.</span>
+                )
+              ) : (
+                <span>Connecting to live editing...</span>
+              )}
+              {collaboration.error && (
+                <span className="text-[#721C24]">{collaboration.error}</span>
+              )}
+            </div>
             <MarkdownEditor
               value={content}
               onChange={handleContentChange}
               rows={15}
               disabled={isUpdating}
               className={profanityDetected ? "border-red-400" : ""}
+              remoteCursors={collaboration.participants
+                .filter((participant) => participant.cursor)
+                .map((participant) => ({
+                  id: participant.id,
+                  name: participant.name,
+                  color: participant.color,
+                  position: participant.cursor!.end,
+                }))}
+              onSelectionChange={collaboration.sendCursor}
             />
           </div>
 
-          {/* Current Password for Update (Conditionally rendered) */}
-          {initialNote?.isProtected && (
+          {/* Owner unlock, needed to change access passwords */}
+          {initialNote?.access === "edit" && !shareToken && (
+            <div>
+              <label
+                htmlFor="owner-password-unlock"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Owner Password (to change access passwords)
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="password"
+                  id="owner-password-unlock"
+                  className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white"
+                  value={ownerPassword}
+                  onChange={(e) => setOwnerPassword(e.target.value)}
+                  placeholder="Enter owner password"
+                  disabled={isUpdating}
+                />
+                <button
+                  type="button"
+                  onClick={handleOwnerUnlock}
+                  className="mt-1 py-2 px-4 text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md
+                             transition duration-150 ease-in-out disabled:opacity-50"
+                  disabled={isUpdating || !ownerPassword}
+                >
+                  Unlock
+                </button>
+              </div>
+              {ownerUnlockError && (
+                <p className="mt-1 text-xs text-[#721C24]">
+                  {ownerUnlockError}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Access Passwords (owner only) */}
+          {initialNote?.access === "owner" && (
+            <fieldset className="space-y-3">
+              <legend className="block text-sm font-medium text-gray-700 mb-1">
+                Access Passwords (Optional)
+              </legend>
+              <div>
+                <label
+                  htmlFor="new-view-password"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  View Password
+                </label>
+                <input
+                  type="password"
+                  id="new-view-password"
+                  className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white disabled:bg-gray-100"
+                  value={newViewPassword}
+                  onChange={(e) => setNewViewPassword(e.target.value)}
+                  placeholder={
+                    initialNote.isProtected
+                      ? "Leave blank to keep current password"
+                      : "Leave blank so anyone can read"
+                  }
+                  disabled={isUpdating || removeViewPassword}
+                />
+                {initialNote.isProtected && (
+                  <label
+                    className="mt-1 flex items-center space-x-2 text-xs text-gray-600"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={removeViewPassword}
+                      onChange={(e) => setRemoveViewPassword(e.target.checked)}
+                      disabled={isUpdating}
+                    />
+                    <span>Remove this password</span>
+                  </label>
+                )}
+              </div>
+              <div>
+                <label
+                  htmlFor="new-edit-password"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Edit Password
+                </label>
+                <input
+                  type="password"
+                  id="new-edit-password"
+                  className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white disabled:bg-gray-100"
+                  value={newEditPassword}
+                  onChange={(e) => setNewEditPassword(e.target.value)}
+                  placeholder={
+                    initialNote.isEditProtected
+                      ? "Leave blank to keep current password"
+                      : "Leave blank so anyone can edit"
+                  }
+                  disabled={isUpdating || removeEditPassword}
+                />
+                {initialNote.isEditProtected && (
+                  <label
+                    className="mt-1 flex items-center space-x-2 text-xs text-gray-600"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={removeEditPassword}
+                      onChange={(e) => setRemoveEditPassword(e.target.checked)}
+                      disabled={isUpdating}
+                    />
+                    <span>Remove this password</span>
+                  </label>
+                )}
+              </div>
+              <div>
+                <label
+                  htmlFor="new-owner-password"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Owner Password
+                </label>
+                <input
+                  type="password"
+                  id="new-owner-password"
+                  className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white disabled:bg-gray-100"
+                  value={newOwnerPassword}
+                  onChange={(e) => setNewOwnerPassword(e.target.value)}
+                  placeholder={
+                    initialNote.hasOwnerPassword
+                      ? "Leave blank to keep current password"
+                      : "Needed to change passwords or delete"
+                  }
+                  disabled={isUpdating || removeOwnerPassword}
+                />
+                {initialNote.hasOwnerPassword && (
+                  <label
+                    className="mt-1 flex items-center space-x-2 text-xs text-gray-600"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={removeOwnerPassword}
+                      onChange={(e) => setRemoveOwnerPassword(e.target.checked)}
+                      disabled={isUpdating}
+                    />
+                    <span>Remove this password</span>
+                  </label>
+                )}
+              </div>
+            </fieldset>
+          )}
+
+          {/* Tags and Notebook */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div>
               <label
-                htmlFor="current-password-update"
+                htmlFor="edit-tags"
                 className="block text-sm font-medium text-gray-700 mb-1"
               >
-                Current Password (required to save changes)
+                Tags
               </label>
               <input
-                type="password"
-                id="current-password-update"
+                type="text"
+                id="edit-tags"
                 className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
                            focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
                            text-gray-800 bg-white"
-                value={currentPasswordForUpdate}
-                onChange={(e) => setCurrentPasswordForUpdate(e.target.value)}
-                placeholder="Enter current password to confirm changes"
-                required={initialNote.isProtected}
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="Separate tags with commas"
                 disabled={isUpdating}
               />
-              <p className="mt-1 text-xs text-gray-500">
-                You used this password to unlock the note. Enter it here to save
-                changes.
-              </p>
             </div>
-          )}
-
-          {/* New Password */}
-          <div>
-            <label
-              htmlFor="new-password"
-              className="block text-sm font-medium text-gray-700 mb-1"
-            >
-              New Password (Optional, leave blank to keep current)
-            </label>
-            <input
-              type="password"
-              id="new-password"
-              className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
-                         focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
-                         text-gray-800 bg-white"
-              value={newPassword}
-              onChange={(e) => setNewPassword(e.target.value)}
-              placeholder="Leave blank to keep current password"
-              disabled={isUpdating}
-            />
-          </div>
-
-          {/* Confirm New Password */}
-          {newPassword && (
             <div>
               <label
-                htmlFor="confirm-new-password"
+                htmlFor="edit-notebook"
                 className="block text-sm font-medium text-gray-700 mb-1"
               >
-                Confirm New Password
+                Notebook
               </label>
               <input
-                type="password"
-                id="confirm-new-password"
+                type="text"
+                id="edit-notebook"
                 className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
                            focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
                            text-gray-800 bg-white"
-                value={confirmNewPassword}
-                onChange={(e) => setConfirmNewPassword(e.target.value)}
-                placeholder="Confirm your new password"
-                required={!!newPassword}
+                value={notebook}
+                onChange={(e) =>
+                  setNotebook(
+                    e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, "")
+                  )
+                }
+                placeholder="Notebook slug, or blank for none"
                 disabled={isUpdating}
               />
             </div>
-          )}
+            {notebook && notebook !== (initialNote?.notebook || "") && (
+              <div className="sm:col-span-2">
+                <label
+                  htmlFor="edit-notebookPassword"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Notebook Password
+                </label>
+                <input
+                  type="password"
+                  id="edit-notebookPassword"
+                  className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white"
+                  value={notebookPassword}
+                  onChange={(e) => setNotebookPassword(e.target.value)}
+                  placeholder="Only if the notebook has a password"
+                  disabled={isUpdating}
+                />
+              </div>
+            )}
+          </div>
 
           {/* Expiration Date Input */}
           <div>
@@ -486,6 +927,89 @@ export default function EditNotePage() {
             </p>
           </div>
 
+          {/* Who made this change and why, for the history page */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label
+                htmlFor="edit-author"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Your Name (Optional)
+              </label>
+              <input
+                type="text"
+                id="edit-author"
+                className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                maxLength={MAX_AUTHOR_LENGTH}
+                placeholder="Shown in the note's history"
+                disabled={isUpdating}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label
+                htmlFor="edit-message"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Change Message (Optional)
+              </label>
+              <input
+                type="text"
+                id="edit-message"
+                className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={changeMessage}
+                onChange={(e) => setChangeMessage(e.target.value)}
+                maxLength={MAX_CHANGE_MESSAGE_LENGTH}
+                placeholder="e.g., Fix typos in the intro"
+                disabled={isUpdating}
+              />
+            </div>
+          </div>
+
+          {/* Conflict Resolution */}
+          {conflict && (
+            <div className="border border-yellow-300 bg-yellow-50 p-4 rounded-md shadow-sm space-y-3">
+              <h2 className="text-lg font-bold text-yellow-800">
+                Conflicting Edit
+              </h2>
+              <p className="text-sm text-gray-700">
+                Changes from your version to the one saved at{" "}
+                {new Date(conflict.theirs.updatedAt).toLocaleString()}:
+              </p>
+              <div className="bg-white p-4 rounded-md border border-gray-100 max-h-[300px] overflow-auto">
+                <DiffViewer oldText={content} newText={conflict.theirs.content} />
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <button
+                  type="button"
+                  onClick={() => resolveConflict("merged")}
+                  className="py-1.5 px-3 rounded-md text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]"
+                >
+                  Edit Merged Draft
+                </button>
+                <button
+                  type="button"
+                  onClick={() => resolveConflict("mine")}
+                  className="py-1.5 px-3 rounded-md text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300"
+                >
+                  Keep My Version
+                </button>
+                <button
+                  type="button"
+                  onClick={() => resolveConflict("theirs")}
+                  className="py-1.5 px-3 rounded-md text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300"
+                >
+                  Use Their Version
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Submission Button */}
           <button
             type="submit"
@@ -494,7 +1018,7 @@ export default function EditNotePage() {
                        focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
                        transition duration-150 ease-in-out
                        disabled:opacity-50 disabled:cursor-not-allowed"
-            disabled={isUpdating || profanityDetected}
+            disabled={isUpdating || profanityDetected || !!conflict}
           >
             {isUpdating ? (
               <span className="flex items-center justify-center">
@@ -523,10 +1047,24 @@ export default function EditNotePage() {
           </p>
         )}
 
-        {/* Action Buttons (Go back to view) */}
-        <div className="flex justify-center mt-6">
+        {showDeleteDialog && initialNote && (
+          <DeleteNoteDialog
+            slug={String(slug)}
+            title={initialNote.title}
+            isProtected={initialNote.access !== "owner"}
+            onClose={() => setShowDeleteDialog(false)}
+            onDeleted={(purged) =>
+              router.push(purged ? "/" : `/notes/${slug}`)
+            }
+          />
+        )}
+
+        {/* Action Buttons (Go back to view, delete) */}
+        <div className="flex justify-center mt-6 space-x-4">
           <button
-            onClick={() => router.push(`/notes/${slug}`)}
+            onClick={() =>
+              router.push(`/notes/${slug}${tokenQuery}${window.location.hash}`)
+            }
             className="py-2 px-4 text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md
                        focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400
                        transition duration-150 ease-in-out"
@@ -534,6 +1072,16 @@ export default function EditNotePage() {
           >
             Back to View Note
           </button>
+          <button
+            onClick={() => setShowDeleteDialog(true)}
+            className="py-2 px-4 text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 rounded-md
+                       focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-300
+                       transition duration-150 ease-in-out flex items-center space-x-2"
+            disabled={isUpdating}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Delete Note</span>
+          </button>
         </div>
       </div>
     </div>
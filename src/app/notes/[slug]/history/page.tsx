@@ -1,12 +1,25 @@
 // src/app/notes/[slug]/history/page.tsx
 // This component displays the historical versions of a MicroDoc note,
-// handling password protection, allowing users to restore previous versions,
+// handling password protection, allowing users to restore previous versions
+// (copied on the server by the history restore endpoint),
 // and now includes diff-based viewing of changes between versions.
+// Encrypted notes and each of their versions are decrypted in the browser with
+// the key from the URL #fragment. Each version shows who saved it, their change
+// message and any title and settings changes saved with it. Any two versions
+// can be compared as a line and word diff, or downloaded as a unified diff.
+// The Blame tab shows which version last changed each line. Owners can set
+// how much history is kept and squash it (see src/lib/historyRetention).
 
 "use client";
 
 import React, { useState, useEffect, useCallback } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { unlockNote } from "@/lib/unlockNote";
+import {
+  decryptNote,
+  decryptText,
+  getKeyFromLocation,
+} from "@/lib/e2e";
 import ReactMarkdown from "react-markdown";
 import {
   RotateCw,
@@ -14,24 +27,63 @@ import {
   Lock,
   History as HistoryIcon,
   Undo2,
+  GitCompare,
+  Download,
+  Settings,
 } from "lucide-react";
-import { diff_match_patch } from "diff-match-patch";
-
-// Import the diff-match-patch library
-
-// Initialize diff-match-patch
-const dmp = new diff_match_patch();
+import DiffViewer from "@/components/DiffViewer";
+import DiffHunks from "@/components/DiffHunks";
+import BlameView, { type BlameRevision } from "@/components/BlameView";
+import { blameNoteContent, type BlameLine } from "@/lib/noteBlame";
+import {
+  diffNoteContent,
+  formatUnifiedDiff,
+  type NoteDiff,
+} from "@/lib/noteDiff";
+import { describeHistoryEvent } from "@/lib/historyEvents";
+import type { HistoryRetention, NoteHistoryEvent } from "@/lib/store";
 
 // Define types for history data
 interface HistoryEntry {
+  version: number; // Numbered from 1 in the order the versions were saved
+  title: string | null; // Null on versions saved before titles were recorded
   content: string;
   timestamp: string; // ISO string
+  author: string | null;
+  message: string | null;
+  events: NoteHistoryEvent[]; // Title and settings changes saved with this version
 }
 
 interface NoteHistoryData {
   title: string;
   history: HistoryEntry[];
-  isProtected: boolean;
+  isProtected: boolean; // Reading needs a password
+  encrypted?: boolean; // Title and every version are encrypted (see src/lib/e2e)
+  retention: HistoryRetention | null; // The note's own retention policy
+  defaultRetention: HistoryRetention | null; // The server's policy, null if it keeps everything
+}
+
+/**
+ * Describes a retention policy in a short sentence.
+ */
+function describeRetention(retention: HistoryRetention | null): string {
+  if (!retention || (!retention.keepLast && !retention.keepDays)) {
+    return retention?.thinDaily
+      ? "One version per day is kept."
+      : "Every version is kept.";
+  }
+  const rules = [
+    retention.keepLast && `the last ${retention.keepLast} versions`,
+    retention.keepDays && `versions from the last ${retention.keepDays} days`,
+  ].filter(Boolean);
+  return `Keeps ${rules.join(" and ")}${
+    retention.thinDaily ? ", and one version per day before that" : ""
+  }.`;
+}
+
+interface BlameData {
+  lines: BlameLine[];
+  revisions: BlameRevision[];
 }
 
 // Define type for current note data (needed for diffing latest history vs current)
@@ -42,51 +94,19 @@ interface CurrentNoteData {
   createdAt: string;
   updatedAt: string;
   expiresAt?: string;
+  revision: number;
+  access: "view" | "edit" | "owner"; // Restoring a version needs "edit"
+  encrypted?: boolean;
 }
 
-/**
- * DiffViewer Component: Renders the differences between two strings.
- * Highlights additions in green and deletions in red.
- */
-interface DiffViewerProps {
-  oldText: string;
-  newText: string;
-}
-
-const DiffViewer: React.FC<DiffViewerProps> = ({ oldText, newText }) => {
-  const diffs = dmp.diff_main(oldText, newText);
-  dmp.diff_cleanupSemantic(diffs); // Optional: improves readability of diffs
-
-  return (
-    <div className="font-mono text-sm leading-relaxed whitespace-pre-wrap break-words">
-      {diffs.map((diff, i) => {
-        const [type, text] = diff;
-        if (type === 0) {
-          // Common (no change)
-          return <span key={i}>{text}</span>;
-        } else if (type === -1) {
-          // Deletion
-          return (
-            <del key={i} className="bg-red-200 text-red-800 no-underline">
-              {text}
-            </del>
-          );
-        } else {
-          // Addition
-          return (
-            <ins key={i} className="bg-green-200 text-green-800 no-underline">
-              {text}
-            </ins>
-          );
-        }
-      })}
-    </div>
-  );
-};
-
 export default function NoteHistoryPage() {
   const { slug } = useParams();
   const router = useRouter();
+  // A share link (?token=...) is used in place of the password
+  const shareToken = useSearchParams().get("token");
+  const tokenQuery = shareToken
+    ? `?token=${encodeURIComponent(shareToken)}`
+    : "";
 
   // State for fetching history data
   const [noteHistory, setNoteHistory] = useState<NoteHistoryData | null>(null);
@@ -100,7 +120,7 @@ export default function NoteHistoryPage() {
 
   // State for password protection when viewing history
   const [passwordRequired, setPasswordRequired] = useState<boolean>(false);
-  const [enteredPassword, setEnteredPassword] = useState<string>(""); // Password used to initially view history
+  const [enteredPassword, setEnteredPassword] = useState<string>(""); // Password typed into the unlock form
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [attemptingPassword, setAttemptingPassword] = useState<boolean>(false);
 
@@ -111,8 +131,29 @@ export default function NoteHistoryPage() {
   const [restorePasswordPrompt, setRestorePasswordPrompt] =
     useState<boolean>(false);
   const [restorePassword, setRestorePassword] = useState<string>("");
-  const [restoreContent, setRestoreContent] = useState<string>("");
-  const [restoreIndex, setRestoreIndex] = useState<number | null>(null);
+  const [restoreVersion, setRestoreVersion] = useState<number | null>(null);
+
+  // State for comparing any two versions
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<NoteDiff | null>(null);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  // State for the owner's history settings
+  const [useDefaultRetention, setUseDefaultRetention] = useState<boolean>(true);
+  const [keepLastInput, setKeepLastInput] = useState<string>("");
+  const [keepDaysInput, setKeepDaysInput] = useState<string>("");
+  const [thinDailyInput, setThinDailyInput] = useState<boolean>(false);
+  const [isSavingSettings, setIsSavingSettings] = useState<boolean>(false);
+  const [settingsMessage, setSettingsMessage] = useState<string | null>(null);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+
+  // State for the blame tab
+  const [activeTab, setActiveTab] = useState<"versions" | "blame">("versions");
+  const [blame, setBlame] = useState<BlameData | null>(null);
+  const [loadingBlame, setLoadingBlame] = useState<boolean>(false);
+  const [blameError, setBlameError] = useState<string | null>(null);
 
   const baseAlertClasses =
     "mt-4 text-center px-4 py-3 rounded-md flex items-center justify-center space-x-2";
@@ -141,6 +182,40 @@ export default function NoteHistoryPage() {
         const data = await response.json();
 
         if (response.ok) {
+          if (data.encrypted) {
+            const key = getKeyFromLocation();
+            try {
+              if (!key) {
+                throw new Error("Missing encryption key.");
+              }
+              data.title = await decryptText(key, data.title);
+              data.history = await Promise.all(
+                data.history.map(async (entry: HistoryEntry) => ({
+                  ...entry,
+                  title: entry.title && (await decryptText(key, entry.title)),
+                  content: await decryptText(key, entry.content),
+                  events: await Promise.all(
+                    entry.events.map(async (event) =>
+                      event.type === "title"
+                        ? {
+                            ...event,
+                            from: await decryptText(key, event.from),
+                            to: await decryptText(key, event.to),
+                          }
+                        : event
+                    )
+                  ),
+                }))
+              );
+            } catch (decryptError) {
+              console.error("Error decrypting note history:", decryptError);
+              setFetchError(
+                "This note is encrypted. Open it with the full link, including the key after #."
+              );
+              setNoteHistory(null);
+              return;
+            }
+          }
           setNoteHistory(data);
           setPasswordRequired(false);
         } else if (
@@ -163,7 +238,7 @@ export default function NoteHistoryPage() {
           );
           setNoteHistory(null);
         }
-      } catch (err: any) {
+      } catch (err: unknown) {
         console.error("Error fetching note history:", err);
         setFetchError("Could not connect to the server or fetch note history.");
         setNoteHistory(null);
@@ -190,15 +265,25 @@ export default function NoteHistoryPage() {
         }
         const response = await fetch(`/api/notes/${slug}`, { headers });
         const data = await response.json();
-        if (response.ok) {
-          setCurrentNote(data.note);
+        if (response.ok && data.confirmationRequired) {
+          // Loading it here would use up one of its views
+          setCurrentNoteError("Notes with a view limit have no history.");
+          setCurrentNote(null);
+        } else if (response.ok) {
+          try {
+            setCurrentNote(await decryptNote(data.note, getKeyFromLocation()));
+          } catch (decryptError) {
+            console.error("Error decrypting current note:", decryptError);
+            setCurrentNoteError("Could not decrypt the current note.");
+            setCurrentNote(null);
+          }
         } else {
           setCurrentNoteError(
             data.message || "Failed to fetch current note for diffing."
           );
           setCurrentNote(null);
         }
-      } catch (err: any) {
+      } catch (err: unknown) {
         console.error("Error fetching current note for diff:", err);
         setCurrentNoteError("Network error fetching current note.");
         setCurrentNote(null);
@@ -209,72 +294,114 @@ export default function NoteHistoryPage() {
     [slug]
   );
 
+  // Compare the two latest versions until the user picks others
+  useEffect(() => {
+    const versions = noteHistory?.history || [];
+    setCompareTo(
+      versions.length > 0 ? versions[versions.length - 1].version : null
+    );
+    setCompareFrom(
+      versions.length > 1 ? versions[versions.length - 2].version : null
+    );
+    setComparison(null);
+    setCompareError(null);
+    // Annotated again when the blame tab is next opened
+    setBlame(null);
+  }, [noteHistory]);
+
+  // Show the note's own retention policy in the settings form
+  useEffect(() => {
+    const retention = noteHistory?.retention;
+    setUseDefaultRetention(!retention);
+    setKeepLastInput(retention?.keepLast ? String(retention.keepLast) : "");
+    setKeepDaysInput(retention?.keepDays ? String(retention.keepDays) : "");
+    setThinDailyInput(!!retention?.thinDaily);
+  }, [noteHistory]);
+
   // Initial fetch when component mounts or slug changes
   useEffect(() => {
     if (slug) {
-      fetchNoteHistory();
+      fetchNoteHistory(shareToken);
       // Fetch current note in parallel
-      fetchCurrentNote();
+      fetchCurrentNote(shareToken);
     }
-  }, [slug, fetchNoteHistory, fetchCurrentNote]);
+  }, [slug, shareToken, fetchNoteHistory, fetchCurrentNote]);
 
   const handleViewPasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setAttemptingPassword(true);
     setPasswordError(null);
+    const result = await unlockNote(String(slug), enteredPassword);
+    if (!result.ok) {
+      setPasswordError(result.message || "Failed to unlock note.");
+      setAttemptingPassword(false);
+      return;
+    }
+    // The session cookie replaces the password from now on
+    setEnteredPassword("");
     await Promise.all([
-      fetchNoteHistory(enteredPassword),
-      fetchCurrentNote(enteredPassword), // Pass password to fetch current note too
+      fetchNoteHistory(shareToken),
+      fetchCurrentNote(shareToken),
     ]);
   };
 
-  const handleRestoreClick = (contentToRestore: string, index: number) => {
-    setRestoreContent(contentToRestore);
-    setRestoreIndex(index);
+  const handleRestoreClick = (version: number) => {
+    setRestoreVersion(version);
     setRestoreError(null);
     setRestoreMessage(null);
 
-    if (noteHistory?.isProtected) {
+    if (currentNote?.access === "view") {
       setRestorePasswordPrompt(true);
     } else {
-      handleConfirmRestore({ preventDefault: () => {} } as React.FormEvent);
+      restoreNoteVersion(version);
     }
   };
 
-  const handleConfirmRestore = async (e: React.FormEvent) => {
+  const handleConfirmRestore = (e: React.FormEvent) => {
     e.preventDefault();
+    if (restoreVersion !== null) {
+      restoreNoteVersion(restoreVersion);
+    }
+  };
+
+  // The server copies the stored version, so encrypted notes need no key here
+  const restoreNoteVersion = async (version: number) => {
     setIsRestoring(true);
     setRestoreError(null);
     setRestoreMessage(null);
 
-    if (noteHistory?.isProtected && !restorePassword) {
-      setRestoreError("Password is required to restore this version.");
-      setIsRestoring(false);
-      return;
-    }
-
-    try {
-      const currentTitle = currentNote?.title; // Use current note's title for PUT request
-
-      if (!currentTitle) {
-        throw new Error(
-          "Current note title not available for restore operation."
+    if (currentNote?.access === "view") {
+      // Upgrade the unlock session with the edit password first
+      const result = restorePassword
+        ? await unlockNote(String(slug), restorePassword)
+        : null;
+      if (!result?.ok || result.access === "view") {
+        setRestoreError(
+          result && !result.ok
+            ? result.message || "Failed to unlock note."
+            : "The edit password is required to restore this version."
         );
+        setIsRestoring(false);
+        return;
       }
+    }
 
-      const response = await fetch(`/api/notes/${slug}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          title: currentTitle,
-          content: restoreContent,
-          currentPassword: noteHistory?.isProtected
-            ? restorePassword || enteredPassword
-            : undefined,
-        }),
-      });
+    try {
+      const response = await fetch(
+        `/api/notes/${slug}/history/${version}/restore`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            baseRevision: currentNote?.revision,
+            currentPassword: shareToken || undefined,
+            author:
+              window.localStorage.getItem("microdocs:authorName") || undefined,
+          }),
+        }
+      );
 
       const data = await response.json();
 
@@ -286,23 +413,226 @@ export default function NoteHistoryPage() {
         setRestorePassword("");
         // Re-fetch both history and current note after restore
         await Promise.all([
-          fetchNoteHistory(enteredPassword || restorePassword),
-          fetchCurrentNote(enteredPassword || restorePassword),
+          fetchNoteHistory(shareToken),
+          fetchCurrentNote(shareToken),
         ]);
-        setTimeout(() => router.push(`/notes/${slug}`), 2000);
+        setTimeout(
+          () =>
+            router.push(`/notes/${slug}${tokenQuery}${window.location.hash}`),
+          2000
+        );
+      } else if (response.status === 409) {
+        // Someone saved in the meantime: show their version and let the user retry
+        setRestoreError(
+          "The note changed while you were viewing its history. The current version has been reloaded; please try again."
+        );
+        setCurrentNote(await decryptNote(data.note, getKeyFromLocation()));
       } else if (response.status === 401) {
         setRestoreError(data.message || "Authentication failed for restore.");
       } else {
         setRestoreError(data.message || "Failed to restore note version.");
       }
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error("Error during restore:", err);
-      setRestoreError(`An unexpected error occurred: ${err.message}`);
+      setRestoreError(
+        `An unexpected error occurred: ${err instanceof Error ? err.message : err}`
+      );
     } finally {
       setIsRestoring(false);
     }
   };
 
+  /**
+   * Diffs the selected versions of an encrypted note in the browser, the only
+   * place its versions can be read.
+   */
+  const diffDecryptedVersions = (): NoteDiff => {
+    const versions = noteHistory?.history || [];
+    const fromEntry = versions.find((entry) => entry.version === compareFrom);
+    const toEntry = versions.find((entry) => entry.version === compareTo);
+    if (!fromEntry || !toEntry) {
+      throw new Error("Pick two versions to compare.");
+    }
+    return diffNoteContent(fromEntry.content, toEntry.content);
+  };
+
+  /**
+   * Fetches the diff between the selected versions from the server.
+   * @param format "unified" for a unified diff instead of JSON hunks.
+   */
+  const fetchDiff = async (format?: "unified") => {
+    const headers: HeadersInit = {};
+    if (shareToken) {
+      headers["Authorization"] = `Bearer ${shareToken}`;
+    }
+    const query = `from=${compareFrom}&to=${compareTo}${format ? `&format=${format}` : ""}`;
+    const response = await fetch(`/api/notes/${slug}/history/diff?${query}`, {
+      headers,
+    });
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.message || "Failed to compare versions.");
+    }
+    return response;
+  };
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsComparing(true);
+    setCompareError(null);
+    try {
+      setComparison(
+        noteHistory?.encrypted
+          ? diffDecryptedVersions()
+          : ((await (await fetchDiff()).json()) as NoteDiff)
+      );
+    } catch (err: unknown) {
+      console.error("Error comparing versions:", err);
+      setCompareError(
+        err instanceof Error ? err.message : "Failed to compare versions."
+      );
+      setComparison(null);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleDownloadDiff = async () => {
+    setCompareError(null);
+    try {
+      const unifiedDiff = noteHistory?.encrypted
+        ? formatUnifiedDiff(
+            diffDecryptedVersions(),
+            `a/${slug}.md\tversion ${compareFrom}`,
+            `b/${slug}.md\tversion ${compareTo}`
+          )
+        : await (await fetchDiff("unified")).text();
+      const url = URL.createObjectURL(
+        new Blob([unifiedDiff], { type: "text/x-diff" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${slug}-${compareFrom}-${compareTo}.diff`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      console.error("Error downloading diff:", err);
+      setCompareError(
+        err instanceof Error ? err.message : "Failed to download the diff."
+      );
+    }
+  };
+
+  /**
+   * Loads the blame of the latest version when the blame tab is opened. The
+   * server annotates the note, except for encrypted notes, which are
+   * annotated here from their decrypted versions.
+   */
+  const loadBlame = async () => {
+    setLoadingBlame(true);
+    setBlameError(null);
+    try {
+      if (noteHistory?.encrypted) {
+        setBlame({
+          lines: blameNoteContent(noteHistory.history),
+          revisions: noteHistory.history,
+        });
+        return;
+      }
+
+      const headers: HeadersInit = {};
+      if (shareToken) {
+        headers["Authorization"] = `Bearer ${shareToken}`;
+      }
+      const response = await fetch(`/api/notes/${slug}/history/blame`, {
+        headers,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load blame.");
+      }
+      setBlame(data);
+    } catch (err: unknown) {
+      console.error("Error loading blame:", err);
+      setBlameError(
+        err instanceof Error ? err.message : "Failed to load blame."
+      );
+      setBlame(null);
+    } finally {
+      setLoadingBlame(false);
+    }
+  };
+
+  const handleTabChange = (tab: "versions" | "blame") => {
+    setActiveTab(tab);
+    if (tab === "blame" && !blame && !loadingBlame) {
+      loadBlame();
+    }
+  };
+
+  /**
+   * Sends an owner action on the history (saving the retention policy or
+   * squashing the history) and reloads the history afterwards.
+   */
+  const sendHistorySettings = async (
+    path: "retention" | "squash",
+    method: "PUT" | "POST",
+    body: Record<string, unknown>
+  ) => {
+    setIsSavingSettings(true);
+    setSettingsMessage(null);
+    setSettingsError(null);
+    try {
+      const response = await fetch(`/api/notes/${slug}/history/${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...body,
+          currentPassword: shareToken || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setSettingsError(data.message || "Failed to update the history.");
+        return;
+      }
+      await fetchNoteHistory(shareToken);
+      setSettingsMessage(
+        data.removed > 0 && path === "retention"
+          ? `${data.message} ${data.removed} older versions were removed.`
+          : data.message
+      );
+    } catch (err: unknown) {
+      console.error("Error updating history settings:", err);
+      setSettingsError("Could not connect to the server.");
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const handleSaveRetention = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendHistorySettings("retention", "PUT", {
+      retention: useDefaultRetention
+        ? null
+        : {
+            ...(keepLastInput ? { keepLast: Number(keepLastInput) } : {}),
+            ...(keepDaysInput ? { keepDays: Number(keepDaysInput) } : {}),
+            thinDaily: thinDailyInput,
+          },
+    });
+  };
+
+  const handleSquashHistory = () => {
+    if (
+      window.confirm(
+        "Remove every version except the latest? This cannot be undone."
+      )
+    ) {
+      sendHistorySettings("squash", "POST", {});
+    }
+  };
+
   // Determine overall loading state
   const overallLoading = loading || loadingCurrentNote;
   // Determine overall error state
@@ -416,11 +746,8 @@ export default function NoteHistoryPage() {
                 Confirm Restore
               </h2>
               <p className="text-gray-600 text-center">
-                To restore version{" "}
-                {restoreIndex !== null
-                  ? noteHistory?.history.length - restoreIndex
-                  : ""}
-                , please enter the note's password.
+                To restore version {restoreVersion ?? ""}, please enter the
+                note's edit password.
               </p>
               <form onSubmit={handleConfirmRestore} className="space-y-4">
                 <input
@@ -428,10 +755,10 @@ export default function NoteHistoryPage() {
                   className="block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
                              focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
                              text-gray-800 bg-white"
-                  placeholder="Enter password"
+                  placeholder="Enter edit password"
                   value={restorePassword}
                   onChange={(e) => setRestorePassword(e.target.value)}
-                  required={noteHistory?.isProtected}
+                  required
                   disabled={isRestoring}
                 />
                 {restoreError && (
@@ -497,72 +824,301 @@ export default function NoteHistoryPage() {
           </div>
         )}
 
-        {reversedHistory.length === 0 ? (
-          <div className="text-center text-gray-600 py-8">
-            <p>
-              No history found for this note yet. Changes will appear here after
-              updates.
+        {/* Switch between the list of versions and the blame view */}
+        {reversedHistory.length > 0 && (
+          <div className="flex border-b border-gray-200 mb-6">
+            {(["versions", "blame"] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => handleTabChange(tab)}
+                className={`py-2 px-4 -mb-px border-b-2 text-sm font-medium transition duration-150 ease-in-out ${
+                  activeTab === tab
+                    ? "border-[#7F56D9] text-[#7F56D9]"
+                    : "border-transparent text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                {tab === "versions" ? "Versions" : "Blame"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {activeTab === "blame" && (
+          <div className="mb-6">
+            <p className="text-sm text-gray-600 mb-3">
+              Each line of the latest version, next to the version that last
+              changed it.
             </p>
+            {loadingBlame && (
+              <div className="flex items-center space-x-2 text-gray-600">
+                <RotateCw className="animate-spin h-5 w-5" />
+                <span>Loading blame...</span>
+              </div>
+            )}
+            {blameError && (
+              <p className="text-sm text-[#721C24]">{blameError}</p>
+            )}
+            {blame && !loadingBlame && (
+              <BlameView lines={blame.lines} revisions={blame.revisions} />
+            )}
           </div>
-        ) : (
-          <div className="space-y-8">
-            {reversedHistory.map((entry, index) => {
-              // Determine which content to compare against
-              const previousEntryContent = reversedHistory[index + 1]
-                ? reversedHistory[index + 1].content
-                : "";
-              // Compare latest history entry with current note content
-              const contentToCompareWith =
-                index === 0 && currentNote
-                  ? currentNote.content
-                  : previousEntryContent;
-
-              return (
-                <div
-                  key={index}
-                  className="border-b border-gray-200 pb-6 last:border-b-0"
+        )}
+
+        {/* Compare any two versions */}
+        {activeTab === "versions" && reversedHistory.length > 1 && (
+          <div className="border border-gray-200 p-4 rounded-md shadow-sm mb-6">
+            <h2 className="text-xl font-bold text-[#1A202C] mb-3 flex items-center space-x-2">
+              <GitCompare className="h-5 w-5 text-[#7F56D9]" />
+              <span>Compare Versions</span>
+            </h2>
+            <form
+              onSubmit={handleCompare}
+              className="flex flex-wrap items-end gap-3 mb-4"
+            >
+              <label className="text-sm text-gray-700">
+                From
+                <select
+                  className="block mt-1 px-2 py-1 border border-[#D1D5DB] rounded-md bg-white text-gray-800"
+                  value={compareFrom ?? ""}
+                  onChange={(e) => {
+                    setCompareFrom(Number(e.target.value));
+                    setComparison(null);
+                  }}
                 >
-                  <div className="flex justify-between items-center mb-3">
-                    <h2 className="text-xl font-semibold text-[#1A202C]">
-                      Version {noteHistory.history.length - index}
-                    </h2>
-                    <span className="text-sm text-gray-500">
-                      {new Date(entry.timestamp).toLocaleString()}
-                    </span>
-                    <button
-                      onClick={() => handleRestoreClick(entry.content, index)}
-                      className="py-1 px-2 border border-transparent rounded-md shadow-sm
+                  {reversedHistory.map((entry) => (
+                    <option key={entry.version} value={entry.version}>
+                      Version {entry.version}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                To
+                <select
+                  className="block mt-1 px-2 py-1 border border-[#D1D5DB] rounded-md bg-white text-gray-800"
+                  value={compareTo ?? ""}
+                  onChange={(e) => {
+                    setCompareTo(Number(e.target.value));
+                    setComparison(null);
+                  }}
+                >
+                  {reversedHistory.map((entry) => (
+                    <option key={entry.version} value={entry.version}>
+                      Version {entry.version}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="submit"
+                className="py-2 px-4 text-sm text-white bg-[#7F56D9] hover:bg-[#6A4BBA] rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                           transition duration-150 ease-in-out
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isComparing}
+              >
+                {isComparing ? "Comparing..." : "Compare"}
+              </button>
+              <button
+                type="button"
+                onClick={handleDownloadDiff}
+                className="py-2 px-4 text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400
+                           transition duration-150 ease-in-out flex items-center space-x-1"
+              >
+                <Download className="h-4 w-4" />
+                <span>Download .diff</span>
+              </button>
+            </form>
+            {compareError && (
+              <p className="text-sm text-[#721C24] mb-2">{compareError}</p>
+            )}
+            {comparison && <DiffHunks diff={comparison} />}
+          </div>
+        )}
+
+        {activeTab === "versions" &&
+          (reversedHistory.length === 0 ? (
+            <div className="text-center text-gray-600 py-8">
+              <p>
+                No history found for this note yet. Changes will appear here
+                after updates.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {reversedHistory.map((entry, index) => {
+                // Determine which content to compare against
+                const previousEntryContent = reversedHistory[index + 1]
+                  ? reversedHistory[index + 1].content
+                  : "";
+                // Compare latest history entry with current note content
+                const contentToCompareWith =
+                  index === 0 && currentNote
+                    ? currentNote.content
+                    : previousEntryContent;
+
+                return (
+                  <div
+                    key={index}
+                    className="border-b border-gray-200 pb-6 last:border-b-0"
+                  >
+                    <div className="flex justify-between items-center mb-3">
+                      <h2 className="text-xl font-semibold text-[#1A202C]">
+                        Version {entry.version}
+                      </h2>
+                      <span className="text-sm text-gray-500">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </span>
+                      <button
+                        onClick={() => handleRestoreClick(entry.version)}
+                        className="py-1 px-2 border border-transparent rounded-md shadow-sm
                                  text-xs font-medium text-white bg-[#34D399] hover:bg-[#20B2AA]
                                  focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#34D399]
                                  transition duration-150 ease-in-out flex items-center space-x-1"
-                      disabled={isRestoring}
-                    >
-                      <Undo2 className="h-3 w-3" />
-                      <span>Restore</span>
-                    </button>
+                        disabled={isRestoring}
+                      >
+                        <Undo2 className="h-3 w-3" />
+                        <span>Restore</span>
+                      </button>
+                    </div>
+                    {(entry.message ||
+                      entry.author ||
+                      entry.events.length > 0) && (
+                      <div className="mb-3 text-sm space-y-1">
+                        {entry.message && (
+                          <p className="font-medium text-gray-800">
+                            {entry.message}
+                          </p>
+                        )}
+                        {entry.author && (
+                          <p className="text-gray-500">by {entry.author}</p>
+                        )}
+                        {entry.events.length > 0 && (
+                          <ul className="list-disc list-inside text-gray-600">
+                            {entry.events.map((event, eventIndex) => (
+                              <li key={eventIndex}>
+                                {describeHistoryEvent(event)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                    {/* Display the diff */}
+                    <div className="bg-gray-50 p-4 rounded-md border border-gray-100 shadow-sm">
+                      <h3 className="text-md font-medium text-gray-700 mb-2">
+                        {index === 0 && currentNote
+                          ? "Changes from Current Version"
+                          : "Changes from Previous Version"}
+                      </h3>
+                      <DiffViewer
+                        oldText={contentToCompareWith}
+                        newText={entry.content}
+                      />
+                    </div>
                   </div>
-                  {/* Display the diff */}
-                  <div className="bg-gray-50 p-4 rounded-md border border-gray-100 shadow-sm">
-                    <h3 className="text-md font-medium text-gray-700 mb-2">
-                      {index === 0 && currentNote
-                        ? "Changes from Current Version"
-                        : "Changes from Previous Version"}
-                    </h3>
-                    <DiffViewer
-                      oldText={contentToCompareWith}
-                      newText={entry.content}
+                );
+              })}
+            </div>
+          ))}
+
+        {/* History settings, for the note's owner */}
+        {currentNote?.access === "owner" && noteHistory && (
+          <div className="border border-gray-200 p-4 rounded-md shadow-sm mt-6">
+            <h2 className="text-xl font-bold text-[#1A202C] mb-2 flex items-center space-x-2">
+              <Settings className="h-5 w-5 text-[#7F56D9]" />
+              <span>History Settings</span>
+            </h2>
+            <p className="text-sm text-gray-600 mb-3">
+              {describeRetention(
+                noteHistory.retention ?? noteHistory.defaultRetention
+              )}{" "}
+              Quick successive saves by the same author share one version.
+            </p>
+            <form onSubmit={handleSaveRetention} className="space-y-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={useDefaultRetention}
+                  onChange={(e) => setUseDefaultRetention(e.target.checked)}
+                />
+                <span>
+                  Use the default policy (
+                  {describeRetention(noteHistory.defaultRetention)})
+                </span>
+              </label>
+              {!useDefaultRetention && (
+                <div className="flex flex-wrap items-end gap-3">
+                  <label className="text-sm text-gray-700">
+                    Keep last N versions
+                    <input
+                      type="number"
+                      min={1}
+                      className="block mt-1 w-32 px-2 py-1 border border-[#D1D5DB] rounded-md bg-white text-gray-800"
+                      value={keepLastInput}
+                      onChange={(e) => setKeepLastInput(e.target.value)}
                     />
-                  </div>
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Keep versions newer than (days)
+                    <input
+                      type="number"
+                      min={1}
+                      className="block mt-1 w-32 px-2 py-1 border border-[#D1D5DB] rounded-md bg-white text-gray-800"
+                      value={keepDaysInput}
+                      onChange={(e) => setKeepDaysInput(e.target.value)}
+                    />
+                  </label>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={thinDailyInput}
+                      onChange={(e) => setThinDailyInput(e.target.checked)}
+                    />
+                    <span>Keep one version per day of older ones</span>
+                  </label>
                 </div>
-              );
-            })}
+              )}
+              <div className="flex flex-wrap gap-3">
+                <button
+                  type="submit"
+                  className="py-2 px-4 text-sm text-white bg-[#7F56D9] hover:bg-[#6A4BBA] rounded-md
+                             focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                             transition duration-150 ease-in-out
+                             disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={isSavingSettings}
+                >
+                  Save Retention
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSquashHistory}
+                  className="py-2 px-4 text-sm text-white bg-[#B42318] hover:bg-[#912018] rounded-md
+                             focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#B42318]
+                             transition duration-150 ease-in-out
+                             disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={isSavingSettings || reversedHistory.length < 2}
+                >
+                  Squash History
+                </button>
+              </div>
+            </form>
+            {settingsError && (
+              <p className="mt-2 text-sm text-[#721C24]">{settingsError}</p>
+            )}
+            {settingsMessage && (
+              <p className="mt-2 text-sm text-[#155724]">{settingsMessage}</p>
+            )}
           </div>
         )}
 
         {/* Action Buttons (Go back to view/edit) */}
         <div className="flex justify-center mt-6 space-x-4">
           <button
-            onClick={() => router.push(`/notes/${slug}`)}
+            onClick={() =>
+              router.push(`/notes/${slug}${tokenQuery}${window.location.hash}`)
+            }
             className="py-2 px-4 text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md
                        focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400
                        transition duration-150 ease-in-out"
@@ -571,7 +1127,11 @@ export default function NoteHistoryPage() {
             Back to View Note
           </button>
           <button
-            onClick={() => router.push(`/notes/${slug}/edit`)}
+            onClick={() =>
+              router.push(
+                `/notes/${slug}/edit${tokenQuery}${window.location.hash}`
+              )
+            }
             className="py-2 px-4 text-white bg-[#7F56D9] hover:bg-[#6A4BBA] rounded-md
                        focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
                        transition duration-150 ease-in-out"
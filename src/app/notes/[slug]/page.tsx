@@ -1,13 +1,26 @@
 // src/app/notes/[slug]/page.tsx
 // This component displays a single MicroDoc note, handling password protection,
-// providing navigation links, "Copy Link" button, expiration display,
-// and now includes a "Copy Content" button.
+// providing navigation links, "Copy Link" and "Copy Embed Code" buttons, expiration display,
+// a "Copy Content" button, downloads in several formats, deleting to / restoring from the trash, and
+// creating share links. Opening a share link (?token=...) unlocks the note.
+// Entering the password starts an unlock session shared with the edit and
+// history pages. Encrypted notes are decrypted here with the key from the URL
+// #fragment, which is carried along to the edit and history pages.
+// Notes with a view limit are only shown after the reader confirms, because
+// showing them counts a view (or burns the note). The owner can open a
+// panel with the note's view stats. Tags link to the notes sharing them, and
+// the notebook (if any) to its index page. [[slug]] wiki links are rendered as
+// links (flagged when the note is missing or expired), and the notes linking
+// here are listed under "Linked from".
 
 "use client";
 
 import React, { useState, useEffect, useCallback } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import ReactMarkdown from "react-markdown";
+import Link from "next/link";
+import WikiLink from "@/components/WikiLink";
+import { useWikiLinks } from "@/lib/useWikiLinks";
 import {
   Lock,
   RotateCw,
@@ -16,22 +29,66 @@ import {
   History as HistoryIcon,
   Copy,
   CalendarOff,
+  Trash2,
+  Undo2,
+  Link2,
+  Eye,
+  BarChart3,
+  Download,
+  Code,
 } from "lucide-react"; // Import Copy icon
+import DeleteNoteDialog from "@/components/DeleteNoteDialog";
+import ShareLinkDialog from "@/components/ShareLinkDialog";
+import NoteStatsPanel from "@/components/NoteStatsPanel";
+import { forgetDeletedNote } from "@/lib/recentlyDeleted";
+import { unlockNote } from "@/lib/unlockNote";
+import { decryptNote, getKeyFromLocation } from "@/lib/e2e";
+import { getEmbedCode } from "@/lib/embed";
 
 interface NoteData {
   title: string;
   content: string;
-  isProtected: boolean;
+  isProtected: boolean; // Reading needs a password
+  isEditProtected: boolean;
+  hasOwnerPassword: boolean;
+  access: "view" | "edit" | "owner"; // What this browser's session or share link allows
+  encrypted?: boolean; // Title and content arrive encrypted (see src/lib/e2e)
   createdAt: string;
   updatedAt: string;
   expiresAt?: string; // Optional expiration date as ISO string
+  viewsRemaining: number | null; // Null when the note has no view limit
+  burnAfterReading: boolean; // The note was deleted when we viewed it
+  tags: string[];
+  notebook: string | null; // Slug of the notebook the note belongs to
+  backlinks: { slug: string; title: string | null; encrypted: boolean }[]; // Notes linking here
+}
+
+// Returned by the API instead of the note until the reader confirms the view
+interface ViewConfirmationInfo {
+  burnAfterReading: boolean;
+  viewsRemaining: number;
+}
+
+// Returned by the API while a note is in the trash
+interface DeletedNoteInfo {
+  isProtected: boolean; // Restoring or purging needs the owner password
+  deletedAt: string;
+  restorableUntil: string;
 }
 
 export default function ViewNotePage() {
   const { slug } = useParams();
   const router = useRouter();
+  // A share link (?token=...) is used in place of the password
+  const shareToken = useSearchParams().get("token");
+  const tokenQuery = shareToken
+    ? `?token=${encodeURIComponent(shareToken)}`
+    : "";
 
   const [note, setNote] = useState<NoteData | null>(null);
+  const { markdown, statuses: linkStatuses } = useWikiLinks(
+    note?.content ?? ""
+  );
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -41,19 +98,38 @@ export default function ViewNotePage() {
   const [attemptingPassword, setAttemptingPassword] = useState<boolean>(false);
 
   const [copyLinkMessage, setCopyLinkMessage] = useState<string | null>(null); // State for copy link feedback
+  const [copyEmbedMessage, setCopyEmbedMessage] = useState<string | null>(
+    null
+  );
   const [copyContentMessage, setCopyContentMessage] = useState<string | null>(
     null
   ); // <-- NEW: State for copy content feedback
+  const [downloadMessage, setDownloadMessage] = useState<string | null>(null);
+
+  // State for deleting and restoring from the trash
+  const [deletedInfo, setDeletedInfo] = useState<DeletedNoteInfo | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = useState<boolean>(false);
+  const [showShareDialog, setShowShareDialog] = useState<boolean>(false);
+  const [showStats, setShowStats] = useState<boolean>(false);
+  const [undeletePassword, setUndeletePassword] = useState<string>("");
+  const [isUndeleting, setIsUndeleting] = useState<boolean>(false);
+  const [undeleteError, setUndeleteError] = useState<string | null>(null);
+
+  // State for notes with a view limit
+  const [viewConfirmation, setViewConfirmation] =
+    useState<ViewConfirmationInfo | null>(null);
 
   const baseAlertClasses =
     "mt-4 text-center px-4 py-3 rounded-md flex items-center justify-center space-x-2";
 
   const fetchNote = useCallback(
-    async (passwordAttempt: string | null = null) => {
+    async (passwordAttempt: string | null = null, confirmView = false) => {
       setLoading(true);
       setError(null);
       setPasswordError(null);
       setPasswordRequired(false);
+      setDeletedInfo(null);
+      setViewConfirmation(null);
 
       try {
         let headers: HeadersInit = {
@@ -63,11 +139,27 @@ export default function ViewNotePage() {
           headers["Authorization"] = `Bearer ${passwordAttempt}`;
         }
 
-        const response = await fetch(`/api/notes/${slug}`, { headers });
+        // Reading the note here counts a view in its stats. Confirming also
+        // counts a view of a note with a view limit
+        const response = await fetch(
+          `/api/notes/${slug}?view=1${confirmView ? "&confirm=1" : ""}`,
+          { headers }
+        );
         const data = await response.json();
 
-        if (response.ok) {
-          setNote(data.note);
+        if (response.ok && data.confirmationRequired) {
+          setViewConfirmation(data);
+          setNote(null);
+        } else if (response.ok) {
+          try {
+            setNote(await decryptNote(data.note, getKeyFromLocation()));
+          } catch (decryptError) {
+            console.error("Error decrypting note:", decryptError);
+            setError(
+              "This note is encrypted. Open it with the full link, including the key after #."
+            );
+            setNote(null);
+          }
           setPasswordRequired(false);
         } else if (
           response.status === 401 &&
@@ -83,10 +175,22 @@ export default function ViewNotePage() {
           setPasswordError("Incorrect password. Please try again.");
           setNote(null);
         } else if (
-          response.status === 404 &&
+          response.status === 410 &&
           data.message === "Note has expired."
         ) {
-          setError("This note has expired and is no longer accessible.");
+          setError(
+            data.expiredAt
+              ? `This note expired on ${new Date(
+                  data.expiredAt
+                ).toLocaleString()} and is no longer accessible.`
+              : "This note has expired and is no longer accessible."
+          );
+          setNote(null);
+        } else if (
+          response.status === 404 &&
+          data.message === "Note has been deleted."
+        ) {
+          setDeletedInfo(data);
           setNote(null);
         } else {
           setError(
@@ -94,7 +198,7 @@ export default function ViewNotePage() {
           );
           setNote(null);
         }
-      } catch (err: any) {
+      } catch (err: unknown) {
         console.error("Error fetching note:", err);
         setError("Could not connect to the server or fetch note data.");
         setNote(null);
@@ -108,15 +212,23 @@ export default function ViewNotePage() {
 
   useEffect(() => {
     if (slug) {
-      fetchNote();
+      fetchNote(shareToken);
     }
-  }, [slug, fetchNote]);
+  }, [slug, shareToken, fetchNote]);
 
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setAttemptingPassword(true);
     setPasswordError(null);
-    await fetchNote(enteredPassword);
+    const result = await unlockNote(String(slug), enteredPassword);
+    if (!result.ok) {
+      setPasswordError(result.message || "Failed to unlock note.");
+      setAttemptingPassword(false);
+      return;
+    }
+    // The session cookie replaces the password from now on
+    setEnteredPassword("");
+    await fetchNote(shareToken);
   };
 
   /**
@@ -142,6 +254,34 @@ export default function ViewNotePage() {
     }
   };
 
+  /**
+   * Handles copying the iframe code that embeds the note (see src/lib/embed).
+   */
+  const handleCopyEmbedCode = () => {
+    if (!note) {
+      return;
+    }
+    try {
+      const tempInput = document.createElement("textarea");
+      tempInput.value = getEmbedCode(
+        window.location.origin,
+        String(slug),
+        note.title
+      );
+      document.body.appendChild(tempInput);
+      tempInput.select();
+      document.execCommand("copy");
+      document.body.removeChild(tempInput);
+
+      setCopyEmbedMessage("Embed code copied!");
+      setTimeout(() => setCopyEmbedMessage(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy embed code:", err);
+      setCopyEmbedMessage("Failed to copy embed code.");
+      setTimeout(() => setCopyEmbedMessage(null), 2000);
+    }
+  };
+
   /**
    * Handles copying the current note's content to the clipboard.
    * Uses document.execCommand('copy') for broader compatibility in iframes.
@@ -170,6 +310,85 @@ export default function ViewNotePage() {
     }
   };
 
+  /**
+   * Downloads the note in one of the export formats. The file is fetched
+   * rather than linked to, so a share link's token can be sent along.
+   */
+  const handleDownload = async (format: "md" | "html" | "txt" | "json") => {
+    try {
+      const response = await fetch(
+        `/api/notes/${slug}/export?format=${format}`,
+        {
+          headers: shareToken ? { Authorization: `Bearer ${shareToken}` } : {},
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json();
+        setDownloadMessage(data.message || "Failed to download note.");
+        setTimeout(() => setDownloadMessage(null), 3000);
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = `${slug}.${format}`;
+      document.body.appendChild(anchor);
+      anchor.click();
+      document.body.removeChild(anchor);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Failed to download note:", err);
+      setDownloadMessage("Failed to download note.");
+      setTimeout(() => setDownloadMessage(null), 3000);
+    }
+  };
+
+  /**
+   * Restores the note from the trash.
+   */
+  const handleUndelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUndeleting(true);
+    setUndeleteError(null);
+
+    try {
+      const response = await fetch(`/api/notes/${slug}/undelete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currentPassword: deletedInfo?.isProtected
+            ? undeletePassword
+            : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        forgetDeletedNote(String(slug));
+        if (undeletePassword) {
+          await unlockNote(String(slug), undeletePassword);
+        }
+        await fetchNote(shareToken);
+      } else {
+        setUndeleteError(data.message || "Failed to restore note.");
+      }
+    } catch (err) {
+      console.error("Error restoring note:", err);
+      setUndeleteError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsUndeleting(false);
+    }
+  };
+
+  const handleDeleted = (purged: boolean) => {
+    setShowDeleteDialog(false);
+    if (purged) {
+      router.push("/");
+    } else {
+      fetchNote();
+    }
+  };
+
   // Helper to check if the note is currently expired on the client side
   const isNoteExpired = note?.expiresAt
     ? new Date(note.expiresAt) <= new Date()
@@ -197,6 +416,140 @@ export default function ViewNotePage() {
           </div>
         )}
 
+        {deletedInfo && !loading && !error && (
+          <div className="flex flex-col items-center space-y-4 py-8">
+            <Trash2 className="h-12 w-12 text-[#7F56D9]" />
+            <h2 className="text-2xl font-bold text-[#1A202C]">
+              Note Deleted
+            </h2>
+            <p className="text-gray-600 text-center">
+              This note was deleted on{" "}
+              {new Date(deletedInfo.deletedAt).toLocaleString()}. It can be
+              restored until{" "}
+              {new Date(deletedInfo.restorableUntil).toLocaleString()}.
+            </p>
+            <form
+              onSubmit={handleUndelete}
+              className="w-full max-w-sm space-y-4 mt-4"
+            >
+              {deletedInfo.isProtected && (
+                <input
+                  type="password"
+                  className="block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white"
+                  placeholder="Enter owner password"
+                  value={undeletePassword}
+                  onChange={(e) => setUndeletePassword(e.target.value)}
+                  required
+                  disabled={isUndeleting}
+                />
+              )}
+              {undeleteError && (
+                <p className="text-sm text-center text-[#721C24]">
+                  {undeleteError}
+                </p>
+              )}
+              <button
+                type="submit"
+                className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm
+                           text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                           transition duration-150 ease-in-out
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isUndeleting}
+              >
+                {isUndeleting ? (
+                  <span className="flex items-center justify-center">
+                    <RotateCw className="animate-spin h-5 w-5 mr-2" />
+                    Restoring...
+                  </span>
+                ) : (
+                  <span className="flex items-center justify-center space-x-2">
+                    <Undo2 className="h-4 w-4" />
+                    <span>Restore Note</span>
+                  </span>
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowDeleteDialog(true)}
+                className="w-full py-2 px-4 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100
+                           border border-red-200 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-300
+                           transition duration-150 ease-in-out"
+                disabled={isUndeleting}
+              >
+                Delete Permanently
+              </button>
+            </form>
+          </div>
+        )}
+
+        {showShareDialog && note && (
+          <ShareLinkDialog
+            slug={String(slug)}
+            needsPassword={note.access !== "owner"}
+            urlFragment={note.encrypted ? window.location.hash : ""}
+            onClose={() => setShowShareDialog(false)}
+          />
+        )}
+
+        {showDeleteDialog && (
+          <DeleteNoteDialog
+            slug={String(slug)}
+            title={note?.title || String(slug)}
+            isProtected={
+              note ? note.access !== "owner" : !!deletedInfo?.isProtected
+            }
+            defaultPassword={undeletePassword}
+            purgeOnly={!!deletedInfo}
+            onClose={() => setShowDeleteDialog(false)}
+            onDeleted={handleDeleted}
+          />
+        )}
+
+        {viewConfirmation && !loading && !error && (
+          <div className="flex flex-col items-center space-y-4 py-8">
+            <Eye className="h-12 w-12 text-[#7F56D9]" />
+            <h2 className="text-2xl font-bold text-[#1A202C]">
+              {viewConfirmation.burnAfterReading
+                ? "Burn After Reading"
+                : "Limited Views"}
+            </h2>
+            <p className="text-gray-600 text-center">
+              {viewConfirmation.burnAfterReading
+                ? "This note will be deleted as soon as you view it. Make sure you are ready to read it now."
+                : `This note can be viewed ${viewConfirmation.viewsRemaining} more time${
+                    viewConfirmation.viewsRemaining === 1 ? "" : "s"
+                  }. Viewing it now uses one of them.`}
+            </p>
+            <div className="flex flex-col sm:flex-row justify-center space-y-4 sm:space-y-0 sm:space-x-4 mt-4">
+              <button
+                onClick={() => fetchNote(shareToken, true)}
+                className="py-2 px-4 border border-transparent rounded-md shadow-sm
+                           text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                           transition duration-150 ease-in-out flex items-center justify-center space-x-2"
+              >
+                <Eye className="h-4 w-4" />
+                <span>Show Note</span>
+              </button>
+              {/* Lets the author pass the link on without using up a view */}
+              <button
+                onClick={handleCopyLink}
+                className="py-2 px-4 border border-gray-200 rounded-md shadow-sm
+                           text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200
+                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-300
+                           transition duration-150 ease-in-out flex items-center justify-center space-x-2"
+              >
+                <Copy className="h-4 w-4" />
+                <span>{copyLinkMessage || "Copy Link"}</span>
+              </button>
+            </div>
+          </div>
+        )}
+
         {passwordRequired && !loading && !error && (
           <div className="flex flex-col items-center space-y-4 py-8">
             <Lock className="h-12 w-12 text-[#7F56D9]" />
@@ -274,6 +627,39 @@ export default function ViewNotePage() {
                     {copyLinkMessage}
                   </span>
                 )}
+                {/* Only notes anyone can read without a password, key or counted view embed */}
+                {!note.isProtected &&
+                  !note.encrypted &&
+                  note.viewsRemaining === null && (
+                    <button
+                      onClick={handleCopyEmbedCode}
+                      className="py-1.5 px-3 border border-gray-200 rounded-md shadow-sm
+                                 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200
+                                 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-300
+                                 transition duration-150 ease-in-out flex items-center space-x-1"
+                    >
+                      <Code className="h-4 w-4" />
+                      <span>Copy Embed Code</span>
+                    </button>
+                  )}
+                {copyEmbedMessage && (
+                  <span className="text-xs text-gray-600 animate-fade-in-out">
+                    {copyEmbedMessage}
+                  </span>
+                )}
+                {/* Share without handing out the password */}
+                {!shareToken && (
+                  <button
+                    onClick={() => setShowShareDialog(true)}
+                    className="py-1.5 px-3 border border-gray-200 rounded-md shadow-sm
+                               text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200
+                               focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-300
+                               transition duration-150 ease-in-out flex items-center space-x-1"
+                  >
+                    <Link2 className="h-4 w-4" />
+                    <span>Share Link</span>
+                  </button>
+                )}
                 {/* NEW: Copy Content Button */}
                 <button
                   onClick={handleCopyContent}
@@ -290,6 +676,36 @@ export default function ViewNotePage() {
                     {copyContentMessage}
                   </span>
                 )}
+                {/* The server cannot export encrypted or view-limited notes */}
+                {!note.encrypted && note.viewsRemaining === null && (
+                  <div className="flex items-center space-x-1 text-sm text-gray-700">
+                    <Download className="h-4 w-4" />
+                    {(
+                      [
+                        ["md", "MD"],
+                        ["html", "HTML"],
+                        ["txt", "TXT"],
+                        ["json", "JSON"],
+                      ] as const
+                    ).map(([format, label]) => (
+                      <button
+                        key={format}
+                        onClick={() => handleDownload(format)}
+                        className="py-1 px-2 border border-gray-200 rounded-md shadow-sm
+                                   text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200
+                                   transition duration-150 ease-in-out"
+                        title={`Download as ${label}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {downloadMessage && (
+                  <span className="text-xs text-gray-600 animate-fade-in-out">
+                    {downloadMessage}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -314,43 +730,158 @@ export default function ViewNotePage() {
                 </span>
               )}
             </div>
+            {(note.tags.length > 0 || note.notebook) && (
+              <div className="not-prose mb-6 flex flex-wrap items-center gap-2 text-sm">
+                {note.notebook && (
+                  <Link
+                    href={`/notebooks/${note.notebook}`}
+                    className="text-[#7F56D9] hover:underline mr-2"
+                  >
+                    Notebook: {note.notebook}
+                  </Link>
+                )}
+                {note.tags.map((tag) => (
+                  <Link
+                    key={tag}
+                    href={`/search?tag=${encodeURIComponent(tag)}`}
+                    className="px-2 py-0.5 rounded-full bg-[#F4EBFF] text-[#6A4BBA] hover:bg-[#E9D7FE]"
+                  >
+                    #{tag}
+                  </Link>
+                ))}
+              </div>
+            )}
+            {note.viewsRemaining !== null && (
+              <div
+                className={`${baseAlertClasses} bg-[#FFF3CD] border border-[#FFEEBA] text-[#856404] mb-6`}
+              >
+                <AlertCircle className="h-5 w-5" />
+                <span>
+                  {note.burnAfterReading
+                    ? "This note has been deleted. Copy anything you need before leaving this page."
+                    : `This note can be viewed ${note.viewsRemaining} more time${
+                        note.viewsRemaining === 1 ? "" : "s"
+                      }.`}
+                </span>
+              </div>
+            )}
             {isNoteExpired && (
               <div
                 className={`${baseAlertClasses} bg-[#F8D7DA] border border-[#F5C6CB] text-[#721C24] mb-6`}
               >
                 <AlertCircle className="h-5 w-5" />
                 <span>
-                  This note has expired and its content may be removed soon.
+                  This note has expired and its content will be removed shortly.
                 </span>
               </div>
             )}
 
             <div className="note-content text-gray-800 leading-relaxed">
-              <ReactMarkdown>{note.content}</ReactMarkdown>
+              <ReactMarkdown
+                components={{
+                  a: ({ href, children }) => (
+                    <WikiLink href={href} statuses={linkStatuses}>
+                      {children}
+                    </WikiLink>
+                  ),
+                }}
+              >
+                {markdown}
+              </ReactMarkdown>
             </div>
 
+            {note.backlinks.length > 0 && (
+              <div className="not-prose mt-8 pt-4 border-t border-gray-200">
+                <h2 className="text-sm font-medium text-gray-700 mb-2">
+                  Linked from
+                </h2>
+                <ul className="space-y-1 text-sm">
+                  {note.backlinks.map((backlink) => (
+                    <li key={backlink.slug}>
+                      <Link
+                        href={`/notes/${backlink.slug}`}
+                        className={`hover:text-[#7F56D9] ${
+                          backlink.title === null
+                            ? "italic text-gray-500"
+                            : "text-[#6A4BBA]"
+                        }`}
+                      >
+                        {backlink.title ??
+                          (backlink.encrypted
+                            ? backlink.slug
+                            : "Protected note")}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="mt-8 flex flex-col sm:flex-row justify-center space-y-4 sm:space-y-0 sm:space-x-4">
-              <button
-                onClick={() => router.push(`/notes/${slug}/edit`)}
-                className="py-2 px-4 border border-transparent rounded-md shadow-sm
-                           text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
-                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
-                           transition duration-150 ease-in-out flex items-center justify-center space-x-2"
-              >
-                <Edit className="h-4 w-4" />
-                <span>Edit Note</span>
-              </button>
-              <button
-                onClick={() => router.push(`/notes/${slug}/history`)}
-                className="py-2 px-4 border border-transparent rounded-md shadow-sm
-                           text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300
-                           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400
-                           transition duration-150 ease-in-out flex items-center justify-center space-x-2"
-              >
-                <HistoryIcon className="h-4 w-4" />
-                <span>View History</span>
-              </button>
+              {/* Notes with a view limit cannot be edited and have no history */}
+              {note.viewsRemaining === null && (
+                <>
+                  <button
+                    onClick={() =>
+                      router.push(
+                        `/notes/${slug}/edit${tokenQuery}${window.location.hash}`
+                      )
+                    }
+                    className="py-2 px-4 border border-transparent rounded-md shadow-sm
+                               text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                               focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                               transition duration-150 ease-in-out flex items-center justify-center space-x-2"
+                  >
+                    <Edit className="h-4 w-4" />
+                    <span>Edit Note</span>
+                  </button>
+                  <button
+                    onClick={() =>
+                      router.push(
+                        `/notes/${slug}/history${tokenQuery}${window.location.hash}`
+                      )
+                    }
+                    className="py-2 px-4 border border-transparent rounded-md shadow-sm
+                               text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300
+                               focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400
+                               transition duration-150 ease-in-out flex items-center justify-center space-x-2"
+                  >
+                    <HistoryIcon className="h-4 w-4" />
+                    <span>View History</span>
+                  </button>
+                </>
+              )}
+              {!note.burnAfterReading && (
+                <button
+                  onClick={() => setShowDeleteDialog(true)}
+                  className="py-2 px-4 border border-red-200 rounded-md shadow-sm
+                             text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100
+                             focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-300
+                             transition duration-150 ease-in-out flex items-center justify-center space-x-2"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Delete Note</span>
+                </button>
+              )}
+              {!shareToken && !note.burnAfterReading && (
+                <button
+                  onClick={() => setShowStats(!showStats)}
+                  className="py-2 px-4 border border-gray-200 rounded-md shadow-sm
+                             text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200
+                             focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-300
+                             transition duration-150 ease-in-out flex items-center justify-center space-x-2"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  <span>{showStats ? "Hide Stats" : "View Stats"}</span>
+                </button>
+              )}
             </div>
+
+            {showStats && (
+              <div className="not-prose mt-8 border-t border-gray-200 pt-6">
+                <NoteStatsPanel slug={String(slug)} />
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,17 @@
+// src/app/notes/[slug]/raw/route.ts
+// Serves a note's Markdown as text/markdown, for scripts and `curl`. It answers
+// like GET /api/notes/[slug] with `Accept: text/markdown`, so the same
+// credentials (Bearer secret, share link or unlock session), view limit
+// confirmation (?confirm=1), rate limit and errors apply.
+
+import { NextRequest } from 'next/server';
+import { GET as getNote } from '@/app/api/notes/[slug]/route';
+
+export async function GET(
+  req: NextRequest,
+  context: { params: { slug: string } }
+) {
+  const headers = new Headers(req.headers);
+  headers.set('Accept', 'text/markdown');
+  return getNote(new NextRequest(req.nextUrl, { headers }), context);
+}
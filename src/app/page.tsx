@@ -1,12 +1,15 @@
 // src/app/page.tsx
 // This is the home page where users can create new MicroDocs.
-// It now includes a client-side profanity filter and an optional expiration date input.
+// It now includes a client-side profanity filter, an optional expiration date input,
+// and opt-in end-to-end encryption (the key is only kept in the link's #fragment).
 
 "use client";
 
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import MarkdownEditor from "@/components/MarkdownEditor";
+import { encryptText, generateEncryptionKey } from "@/lib/e2e";
 import { Filter } from "bad-words";
 
 // Initialize the profanity filter
@@ -16,7 +19,18 @@ export default function HomePage() {
   const [title, setTitle] = useState<string>("");
   const [content, setContent] = useState<string>("");
   const [customSlug, setCustomSlug] = useState<string>("");
-  const [password, setPassword] = useState<string>("");
+  const [viewPassword, setViewPassword] = useState<string>("");
+  const [editPassword, setEditPassword] = useState<string>("");
+  const [ownerPassword, setOwnerPassword] = useState<string>("");
+  const [encrypted, setEncrypted] = useState<boolean>(false);
+  const [unlisted, setUnlisted] = useState<boolean>(false);
+  const [tags, setTags] = useState<string>(""); // Comma separated
+  const [notebook, setNotebook] = useState<string>("");
+  const [notebookPassword, setNotebookPassword] = useState<string>("");
+  const [viewLimit, setViewLimit] = useState<"none" | "burn" | "views">(
+    "none"
+  );
+  const [maxViews, setMaxViews] = useState<string>("");
   const [expiresAt, setExpiresAt] = useState<string>(""); // <-- NEW: State for expiration date (string for datetime-local)
   const [message, setMessage] = useState<string>("");
   const [error, setError] = useState<string>("");
@@ -25,6 +39,16 @@ export default function HomePage() {
 
   const router = useRouter();
 
+  // "New note" links from a notebook page preselect the notebook (?notebook=)
+  useEffect(() => {
+    const preselected = new URLSearchParams(window.location.search).get(
+      "notebook"
+    );
+    if (preselected) {
+      setNotebook(preselected);
+    }
+  }, []);
+
   const checkProfanity = (text: string) => {
     if (filter.isProfane(text)) {
       setProfanityDetected(true);
@@ -78,17 +102,39 @@ export default function HomePage() {
     }
     // --- END NEW ---
 
+    if (viewLimit === "views" && !(Number(maxViews) >= 1)) {
+      setError("Enter how many times the note may be viewed.");
+      setIsLoading(false);
+      return;
+    }
+
     try {
+      // Encrypted notes leave the browser as ciphertext; the key never does
+      const encryptionKey = encrypted ? await generateEncryptionKey() : null;
+
       const response = await fetch("/api/notes", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          title,
-          content,
+          title: encryptionKey
+            ? await encryptText(encryptionKey, title)
+            : title,
+          content: encryptionKey
+            ? await encryptText(encryptionKey, content)
+            : content,
+          encrypted: encrypted || undefined,
+          unlisted: unlisted || undefined,
+          tags,
+          notebook: notebook || undefined,
+          notebookPassword: notebookPassword || undefined,
+          burnAfterReading: viewLimit === "burn" || undefined,
+          maxViews: viewLimit === "views" ? Number(maxViews) : undefined,
           customSlug,
-          password,
+          viewPassword,
+          editPassword,
+          ownerPassword,
           expiresAt: expirationDateToSend, // <-- NEW: Include expiresAt in the body
         }),
       });
@@ -97,7 +143,9 @@ export default function HomePage() {
 
       if (response.ok) {
         setMessage(data.message || "Note created successfully!");
-        router.push(`/notes/${data.slug}`);
+        router.push(
+          `/notes/${data.slug}${encryptionKey ? `#${encryptionKey}` : ""}`
+        );
       } else {
         if (data.error && data.error.includes("Profanity")) {
           setError(data.error);
@@ -199,25 +247,231 @@ export default function HomePage() {
             />
           </div>
 
-          {/* Password Input */}
+          {/* Tags and Notebook */}
+          <fieldset className="space-y-3">
+            <legend className="block text-sm font-medium text-gray-700 mb-1">
+              Organize (Optional)
+            </legend>
+            <div>
+              <label
+                htmlFor="tags"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Tags
+              </label>
+              <input
+                type="text"
+                id="tags"
+                className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="e.g., meetings, project-x"
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="notebook"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Notebook
+              </label>
+              <input
+                type="text"
+                id="notebook"
+                className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={notebook}
+                onChange={(e) => setNotebook(sanitizeSlug(e.target.value))}
+                placeholder="Notebook slug, e.g. team-wiki"
+                disabled={isLoading}
+              />
+            </div>
+            {notebook && (
+              <div>
+                <label
+                  htmlFor="notebookPassword"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Notebook Password
+                </label>
+                <input
+                  type="password"
+                  id="notebookPassword"
+                  className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white"
+                  value={notebookPassword}
+                  onChange={(e) => setNotebookPassword(e.target.value)}
+                  placeholder="Only if the notebook has a password"
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Separate tags with commas.{" "}
+              <Link href="/notebooks" className="hover:text-[#7F56D9] underline">
+                Create a notebook
+              </Link>{" "}
+              to collect related notes on one page.
+            </p>
+          </fieldset>
+
+          {/* Access Passwords */}
+          <fieldset className="space-y-3">
+            <legend className="block text-sm font-medium text-gray-700 mb-1">
+              Access Passwords (Optional)
+            </legend>
+            <div>
+              <label
+                htmlFor="viewPassword"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                View Password
+              </label>
+              <input
+                type="password"
+                id="viewPassword"
+                className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={viewPassword}
+                onChange={(e) => setViewPassword(e.target.value)}
+                placeholder="Leave blank so anyone can read"
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="editPassword"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Edit Password
+              </label>
+              <input
+                type="password"
+                id="editPassword"
+                className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={editPassword}
+                onChange={(e) => setEditPassword(e.target.value)}
+                placeholder="Leave blank so anyone can edit"
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="ownerPassword"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Owner Password
+              </label>
+              <input
+                type="password"
+                id="ownerPassword"
+                className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={ownerPassword}
+                onChange={(e) => setOwnerPassword(e.target.value)}
+                placeholder="Needed to change passwords or delete"
+                disabled={isLoading}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              The edit password also unlocks reading, and the owner password
+              unlocks everything. Without an owner password, the edit password
+              can manage the note.
+            </p>
+          </fieldset>
+
+          {/* End-to-end Encryption */}
           <div>
             <label
-              htmlFor="password"
+              className="flex items-center space-x-2 text-sm font-medium text-gray-700"
+            >
+              <input
+                type="checkbox"
+                checked={encrypted}
+                onChange={(e) => setEncrypted(e.target.checked)}
+                disabled={isLoading}
+              />
+              <span>Encrypt in my browser (end-to-end)</span>
+            </label>
+            <p className="mt-1 text-xs text-gray-500">
+              The server only stores ciphertext. The key is part of the
+              note&apos;s link, so anyone without the full link cannot read it
+              and a lost link cannot be recovered. Live collaboration is not
+              available for encrypted notes.
+            </p>
+          </div>
+
+          {/* Search Visibility */}
+          <div>
+            <label
+              className="flex items-center space-x-2 text-sm font-medium text-gray-700"
+            >
+              <input
+                type="checkbox"
+                checked={unlisted}
+                onChange={(e) => setUnlisted(e.target.checked)}
+                disabled={isLoading}
+              />
+              <span>Unlisted (hide from search)</span>
+            </label>
+            <p className="mt-1 text-xs text-gray-500">
+              Notes without a view password show up in search unless they are
+              unlisted. Encrypted notes and notes with a view limit never do.
+            </p>
+          </div>
+
+          {/* View Limit */}
+          <div>
+            <label
+              htmlFor="viewLimit"
               className="block text-sm font-medium text-gray-700 mb-1"
             >
-              Password (Optional, to protect this note)
+              View Limit (Optional)
             </label>
-            <input
-              type="password"
-              id="password"
-              className="mt-1 block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
-                         focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
-                         text-gray-800 bg-white"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Leave blank for public note"
-              disabled={isLoading}
-            />
+            <div className="flex space-x-3">
+              <select
+                id="viewLimit"
+                className="block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                           focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                           text-gray-800 bg-white"
+                value={viewLimit}
+                onChange={(e) =>
+                  setViewLimit(e.target.value as "none" | "burn" | "views")
+                }
+                disabled={isLoading}
+              >
+                <option value="none">No limit</option>
+                <option value="burn">Delete after the first view</option>
+                <option value="views">Expire after a number of views</option>
+              </select>
+              {viewLimit === "views" && (
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  className="block w-32 px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                             focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                             text-gray-800 bg-white"
+                  placeholder="Views"
+                  value={maxViews}
+                  onChange={(e) => setMaxViews(e.target.value)}
+                  disabled={isLoading}
+                />
+              )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Readers confirm before the note is shown, and every view counts.
+              Notes with a view limit cannot be edited.
+            </p>
           </div>
 
           {/* Expiration Date Input */}
@@ -296,6 +550,21 @@ export default function HomePage() {
             {error}
           </p>
         )}
+
+        <p className="text-center text-sm text-gray-500 space-x-4">
+          <Link href="/search" className="hover:text-[#7F56D9] underline">
+            Search public notes
+          </Link>
+          <Link href="/notebooks" className="hover:text-[#7F56D9] underline">
+            New notebook
+          </Link>
+          <Link href="/import" className="hover:text-[#7F56D9] underline">
+            Import Markdown files
+          </Link>
+          <Link href="/trash" className="hover:text-[#7F56D9] underline">
+            Recently deleted notes
+          </Link>
+        </p>
       </div>
     </div>
   );
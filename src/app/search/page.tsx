@@ -0,0 +1,256 @@
+// src/app/search/page.tsx
+// Full-text search over public notes, optionally limited to a tag. The query,
+// tag and page live in the URL (?q=...&tag=...&page=...), so searches can be
+// bookmarked and shared.
+
+"use client";
+
+import React, { Suspense, useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { AlertCircle, RotateCw, Search } from "lucide-react";
+
+const PAGE_SIZE = 10;
+
+// A search result as returned by GET /api/notes?q=
+interface SearchResult {
+  slug: string;
+  title: string;
+  snippet: string;
+  highlights: { start: number; end: number }[];
+  tags: string[];
+  updatedAt: string;
+}
+
+/**
+ * Renders a snippet with its matched ranges marked.
+ */
+function HighlightedSnippet({
+  snippet,
+  highlights,
+}: Pick<SearchResult, "snippet" | "highlights">) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach((highlight, index) => {
+    parts.push(snippet.slice(position, highlight.start));
+    parts.push(
+      <mark key={index} className="bg-[#E9D7FE] text-[#1A202C] rounded-sm">
+        {snippet.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    position = highlight.end;
+  });
+  parts.push(snippet.slice(position));
+  return <p className="text-sm text-gray-600">{parts}</p>;
+}
+
+function SearchResults() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const query = searchParams.get("q") || "";
+  const tag = searchParams.get("tag") || "";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const [input, setInput] = useState<string>(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInput(query);
+    if (!query.trim() && !tag) {
+      setResults([]);
+      setTotal(0);
+      return;
+    }
+
+    const fetchResults = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `/api/notes?q=${encodeURIComponent(query)}&tag=${encodeURIComponent(
+            tag
+          )}&page=${page}&pageSize=${PAGE_SIZE}`
+        );
+        const data = await response.json();
+        if (response.ok) {
+          setResults(data.results);
+          setTotal(data.total);
+        } else {
+          setError(data.message || "Search failed. Please try again.");
+          setResults([]);
+          setTotal(0);
+        }
+      } catch (err) {
+        console.error("Error searching notes:", err);
+        setError("Could not connect to the server.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchResults();
+  }, [query, tag, page]);
+
+  const goTo = (nextQuery: string, nextTag: string, nextPage: number) => {
+    const params = new URLSearchParams();
+    if (nextQuery) params.set("q", nextQuery);
+    if (nextTag) params.set("tag", nextTag);
+    if (nextPage > 1) params.set("page", String(nextPage));
+    router.push(`/search?${params.toString()}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim() || tag) {
+      goTo(input.trim(), tag, 1);
+    }
+  };
+
+  const pageCount = Math.ceil(total / PAGE_SIZE);
+
+  return (
+    <div className="w-full max-w-2xl bg-white p-8 rounded-lg shadow-xl my-4 lg:my-8 space-y-6">
+      <h1 className="text-3xl font-bold text-[#1A202C] text-center mb-6 flex items-center justify-center space-x-3">
+        <Search className="h-8 w-8 text-[#7F56D9]" />
+        <span>Search Notes</span>
+      </h1>
+
+      <form onSubmit={handleSubmit} className="flex space-x-2">
+        <input
+          type="search"
+          className="block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                     focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                     text-gray-800 bg-white"
+          placeholder="Search public notes"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          maxLength={200}
+        />
+        <button
+          type="submit"
+          className="py-2 px-4 border border-transparent rounded-md shadow-sm
+                     text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                     focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                     transition duration-150 ease-in-out"
+        >
+          Search
+        </button>
+      </form>
+
+      {tag && (
+        <p className="text-sm text-gray-600 flex items-center space-x-2">
+          <span>
+            Notes tagged{" "}
+            <span className="px-2 py-0.5 rounded-full bg-[#F4EBFF] text-[#6A4BBA]">
+              #{tag}
+            </span>
+          </span>
+          <button
+            onClick={() => goTo(query, "", 1)}
+            className="text-xs text-gray-500 hover:text-[#7F56D9] underline"
+          >
+            Clear tag
+          </button>
+        </p>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-8 text-gray-600">
+          <RotateCw className="animate-spin h-6 w-6 mr-2 text-[#7F56D9]" />
+          Searching...
+        </div>
+      )}
+
+      {error && (
+        <div className="text-center px-4 py-3 rounded-md flex items-center justify-center space-x-2 bg-[#F8D7DA] border border-[#F5C6CB] text-[#721C24]">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!loading && !error && (query || tag) && (
+        <>
+          <p className="text-sm text-gray-500">
+            {total === 0
+              ? "No public notes match."
+              : `${total} note${total === 1 ? "" : "s"} match.`}
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {results.map((result) => (
+              <li key={result.slug} className="py-4 space-y-1">
+                <Link
+                  href={`/notes/${result.slug}`}
+                  className="font-semibold text-[#1A202C] hover:text-[#7F56D9]"
+                >
+                  {result.title}
+                </Link>
+                <HighlightedSnippet
+                  snippet={result.snippet}
+                  highlights={result.highlights}
+                />
+                {result.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {result.tags.map((resultTag) => (
+                      <button
+                        key={resultTag}
+                        onClick={() => goTo(query, resultTag, 1)}
+                        className="px-2 py-0.5 rounded-full bg-[#F4EBFF] text-xs text-[#6A4BBA] hover:bg-[#E9D7FE]"
+                      >
+                        #{resultTag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-400">
+                  Updated {new Date(result.updatedAt).toLocaleString()}
+                </p>
+              </li>
+            ))}
+          </ul>
+          {pageCount > 1 && (
+            <div className="flex justify-between items-center text-sm">
+              <button
+                onClick={() => goTo(query, tag, page - 1)}
+                disabled={page <= 1}
+                className="py-1.5 px-3 border border-gray-200 rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-gray-500">
+                Page {page} of {pageCount}
+              </span>
+              <button
+                onClick={() => goTo(query, tag, page + 1)}
+                disabled={page >= pageCount}
+                className="py-1.5 px-3 border border-gray-200 rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      <p className="text-center text-sm text-gray-500">
+        <Link href="/" className="hover:text-[#7F56D9] underline">
+          Create a new note
+        </Link>
+      </p>
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  // useSearchParams needs a Suspense boundary on statically rendered pages
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-[#F5F5F7] p-4 sm:p-8">
+      <Suspense>
+        <SearchResults />
+      </Suspense>
+    </div>
+  );
+}
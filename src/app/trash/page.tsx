@@ -0,0 +1,77 @@
+// src/app/trash/page.tsx
+// Lists notes deleted from this browser that can still be restored.
+// Opening a note shows its restore / delete-permanently options.
+
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { Trash2 } from "lucide-react";
+import {
+  getRecentlyDeletedNotes,
+  RecentlyDeletedNote,
+} from "@/lib/recentlyDeleted";
+
+export default function RecentlyDeletedPage() {
+  const [notes, setNotes] = useState<RecentlyDeletedNote[]>([]);
+
+  // localStorage is only available in the browser, so read it after mounting
+  useEffect(() => {
+    setNotes(getRecentlyDeletedNotes());
+  }, []);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-[#F5F5F7] p-4 sm:p-8">
+      <div className="w-full max-w-2xl bg-white p-8 rounded-lg shadow-xl my-4 lg:my-8 space-y-6">
+        <h1 className="text-3xl font-bold text-[#1A202C] text-center mb-6 flex items-center justify-center space-x-3">
+          <Trash2 className="h-8 w-8 text-[#7F56D9]" />
+          <span>Recently Deleted</span>
+        </h1>
+
+        {notes.length === 0 ? (
+          <p className="text-center text-gray-600 py-8">
+            No recently deleted notes from this browser.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {notes.map((entry) => (
+              <li
+                key={entry.slug}
+                className="py-4 flex justify-between items-center"
+              >
+                <div>
+                  <p className="font-semibold text-[#1A202C]">{entry.title}</p>
+                  <p className="text-sm text-gray-500">
+                    Deleted {new Date(entry.deletedAt).toLocaleString()}
+                    {entry.restorableUntil &&
+                      ` · restorable until ${new Date(
+                        entry.restorableUntil
+                      ).toLocaleString()}`}
+                  </p>
+                </div>
+                <Link
+                  href={`/notes/${entry.slug}`}
+                  className="py-1.5 px-3 border border-gray-200 rounded-md shadow-sm
+                             text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200
+                             transition duration-150 ease-in-out"
+                >
+                  Recover
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-center mt-6">
+          <Link
+            href="/"
+            className="py-2 px-4 text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md
+                       transition duration-150 ease-in-out"
+          >
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+// src/components/BlameView.tsx
+// Renders a note line by line next to the version that last changed each line
+// (see src/lib/noteBlame). Runs of lines from the same version are shown as a
+// block, labelled once with the version's number, author and date.
+
+"use client";
+
+import React from "react";
+import type { BlameLine } from "@/lib/noteBlame";
+
+export interface BlameRevision {
+  version: number;
+  timestamp: string; // ISO string
+  author: string | null;
+  message: string | null;
+}
+
+interface BlameViewProps {
+  lines: BlameLine[];
+  revisions: BlameRevision[];
+}
+
+const BlameView: React.FC<BlameViewProps> = ({ lines, revisions }) => {
+  if (lines.length === 0) {
+    return <p className="text-sm text-gray-600">This version is empty.</p>;
+  }
+
+  const revisionsByVersion = new Map(
+    revisions.map((revision) => [revision.version, revision])
+  );
+  let block = 0;
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-md">
+      <table className="w-full border-collapse text-sm">
+        <tbody>
+          {lines.map((line, index) => {
+            const startsBlock =
+              index === 0 || lines[index - 1].version !== line.version;
+            if (startsBlock && index > 0) {
+              block++;
+            }
+            const revision = revisionsByVersion.get(line.version);
+            return (
+              <tr
+                key={line.line}
+                className={`${block % 2 === 0 ? "bg-white" : "bg-gray-50"} ${
+                  startsBlock && index > 0 ? "border-t border-gray-200" : ""
+                }`}
+              >
+                <td
+                  className="w-56 px-2 align-top text-xs text-gray-500"
+                  title={revision?.message ?? undefined}
+                >
+                  {startsBlock && (
+                    <>
+                      <span className="font-semibold text-[#7F56D9]">
+                        Version {line.version}
+                      </span>
+                      {revision?.author && <span> by {revision.author}</span>}
+                      {revision && (
+                        <span className="block">
+                          {new Date(revision.timestamp).toLocaleString()}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </td>
+                <td className="w-10 px-2 align-top text-right font-mono text-gray-400 select-none">
+                  {line.line}
+                </td>
+                <td className="px-2 font-mono whitespace-pre-wrap break-words text-gray-800">
+                  {line.text}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default BlameView;
@@ -0,0 +1,150 @@
+// src/components/DeleteNoteDialog.tsx
+// Confirmation dialog for deleting a note. Moves the note to the trash by
+// default, or removes it and its history permanently when "purge" is checked.
+
+"use client";
+
+import React, { useState } from "react";
+import { RotateCw, Trash2 } from "lucide-react";
+import { forgetDeletedNote, rememberDeletedNote } from "@/lib/recentlyDeleted";
+
+interface DeleteNoteDialogProps {
+  slug: string;
+  title: string;
+  isProtected: boolean;
+  defaultPassword?: string; // Password the note was unlocked with, if any
+  purgeOnly?: boolean; // The note is already in the trash
+  onClose: () => void;
+  onDeleted: (purged: boolean) => void;
+}
+
+export default function DeleteNoteDialog({
+  slug,
+  title,
+  isProtected,
+  defaultPassword = "",
+  purgeOnly = false,
+  onClose,
+  onDeleted,
+}: DeleteNoteDialogProps) {
+  const [password, setPassword] = useState<string>(defaultPassword);
+  const [purge, setPurge] = useState<boolean>(purgeOnly);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/notes/${slug}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currentPassword: isProtected ? password : undefined,
+          purge,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        if (purge) {
+          forgetDeletedNote(slug);
+        } else {
+          rememberDeletedNote({
+            slug,
+            title,
+            deletedAt: new Date().toISOString(),
+            restorableUntil: data.restorableUntil,
+          });
+        }
+        onDeleted(purge);
+      } else {
+        setError(data.message || "Failed to delete note.");
+      }
+    } catch (err) {
+      console.error("Error deleting note:", err);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md space-y-4">
+        <h2 className="text-xl font-bold text-[#1A202C] text-center">
+          {purgeOnly ? "Delete Permanently" : "Delete Note"}
+        </h2>
+        <p className="text-gray-600 text-center">
+          {purge
+            ? "This note and its entire history will be removed permanently. This cannot be undone."
+            : "This note will be moved to the trash. You can restore it until its restore window ends."}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isProtected && (
+            <input
+              type="password"
+              className="block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                         focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                         text-gray-800 bg-white"
+              placeholder="Enter owner password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              disabled={isDeleting}
+            />
+          )}
+          {!purgeOnly && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={purge}
+                onChange={(e) => setPurge(e.target.checked)}
+                disabled={isDeleting}
+              />
+              <span>Delete permanently instead of moving to trash</span>
+            </label>
+          )}
+          {error && (
+            <p className="text-sm text-center text-[#721C24]">{error}</p>
+          )}
+          <div className="flex justify-end space-x-4 mt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="py-2 px-4 text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md
+                         focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400
+                         transition duration-150 ease-in-out"
+              disabled={isDeleting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="py-2 px-4 border border-transparent rounded-md shadow-sm
+                         text-sm font-medium text-white bg-red-600 hover:bg-red-700
+                         focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500
+                         transition duration-150 ease-in-out
+                         disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isDeleting}
+            >
+              {isDeleting ? (
+                <span className="flex items-center justify-center">
+                  <RotateCw className="animate-spin h-5 w-5 mr-2" />
+                  Deleting...
+                </span>
+              ) : (
+                <span className="flex items-center justify-center space-x-1">
+                  <Trash2 className="h-4 w-4" />
+                  <span>{purge ? "Delete Permanently" : "Move to Trash"}</span>
+                </span>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
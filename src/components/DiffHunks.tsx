@@ -0,0 +1,93 @@
+// src/components/DiffHunks.tsx
+// Renders a line diff between two note versions (see src/lib/noteDiff) like a
+// code review: hunks of numbered lines, removed lines in red and added lines
+// in green, with the changed words within them highlighted.
+
+"use client";
+
+import React from "react";
+import type { DiffLine, NoteDiff } from "@/lib/noteDiff";
+
+interface DiffHunksProps {
+  diff: NoteDiff;
+}
+
+const LINE_CLASSES: Record<DiffLine["type"], string> = {
+  context: "text-gray-700",
+  remove: "bg-red-50 text-red-800",
+  add: "bg-green-50 text-green-800",
+};
+
+const LINE_PREFIXES: Record<DiffLine["type"], string> = {
+  context: " ",
+  remove: "-",
+  add: "+",
+};
+
+const DiffHunks: React.FC<DiffHunksProps> = ({ diff }) => {
+  if (diff.hunks.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">
+        These versions have the same content.
+      </p>
+    );
+  }
+
+  return (
+    <div className="font-mono text-sm overflow-x-auto">
+      <p className="mb-2 font-sans text-gray-600">
+        <span className="text-green-700">+{diff.additions}</span>{" "}
+        <span className="text-red-700">-{diff.deletions}</span> lines
+      </p>
+      {diff.hunks.map((hunk, hunkIndex) => (
+        <div
+          key={hunkIndex}
+          className="mb-3 border border-gray-200 rounded-md overflow-hidden"
+        >
+          <div className="px-2 py-1 bg-blue-50 text-blue-700">
+            {`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}
+          </div>
+          <table className="w-full border-collapse">
+            <tbody>
+              {hunk.lines.map((line, lineIndex) => (
+                <tr key={lineIndex} className={LINE_CLASSES[line.type]}>
+                  <td className="w-10 px-2 text-right text-gray-400 select-none">
+                    {line.oldLine ?? ""}
+                  </td>
+                  <td className="w-10 px-2 text-right text-gray-400 select-none">
+                    {line.newLine ?? ""}
+                  </td>
+                  <td className="px-2 whitespace-pre-wrap break-words">
+                    <span className="select-none">
+                      {LINE_PREFIXES[line.type]}
+                    </span>
+                    {line.segments
+                      ? line.segments.map((segment, segmentIndex) =>
+                          segment.type === "equal" ? (
+                            <span key={segmentIndex}>{segment.text}</span>
+                          ) : (
+                            <mark
+                              key={segmentIndex}
+                              className={
+                                segment.type === "insert"
+                                  ? "bg-green-200 text-green-900"
+                                  : "bg-red-200 text-red-900"
+                              }
+                            >
+                              {segment.text}
+                            </mark>
+                          )
+                        )
+                      : line.text}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiffHunks;
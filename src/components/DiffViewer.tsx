@@ -0,0 +1,49 @@
+// src/components/DiffViewer.tsx
+// Renders the differences between two strings using diff-match-patch.
+// Highlights additions in green and deletions in red.
+
+"use client";
+
+import React from "react";
+import { diff_match_patch } from "diff-match-patch";
+
+// Initialize diff-match-patch
+const dmp = new diff_match_patch();
+
+interface DiffViewerProps {
+  oldText: string;
+  newText: string;
+}
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ oldText, newText }) => {
+  const diffs = dmp.diff_main(oldText, newText);
+  dmp.diff_cleanupSemantic(diffs); // Optional: improves readability of diffs
+
+  return (
+    <div className="font-mono text-sm leading-relaxed whitespace-pre-wrap break-words">
+      {diffs.map((diff, i) => {
+        const [type, text] = diff;
+        if (type === 0) {
+          // Common (no change)
+          return <span key={i}>{text}</span>;
+        } else if (type === -1) {
+          // Deletion
+          return (
+            <del key={i} className="bg-red-200 text-red-800 no-underline">
+              {text}
+            </del>
+          );
+        } else {
+          // Addition
+          return (
+            <ins key={i} className="bg-green-200 text-green-800 no-underline">
+              {text}
+            </ins>
+          );
+        }
+      })}
+    </div>
+  );
+};
+
+export default DiffViewer;
@@ -1,13 +1,25 @@
 // src/components/MarkdownEditor.tsx
 // This component now includes live preview, syntax highlighting for code blocks,
-// and enables the browser's native spellcheck for the input area.
+// enables the browser's native spellcheck for the input area, and can show
+// other collaborators' cursors on top of the input. The preview renders
+// [[slug]] wiki links and flags links to missing or expired notes.
 
 "use client";
 
-import React from "react";
+import React, { useRef } from "react";
 import ReactMarkdown from "react-markdown";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { atomDark } from "react-syntax-highlighter/dist/esm/styles/prism";
+import WikiLink from "@/components/WikiLink";
+import { useWikiLinks } from "@/lib/useWikiLinks";
+
+// A collaborator's cursor to draw over the input
+export interface RemoteCursor {
+  id: string;
+  name: string;
+  color: string;
+  position: number; // Offset into the value
+}
 
 interface MarkdownEditorProps {
   value: string;
@@ -16,6 +28,42 @@ interface MarkdownEditorProps {
   rows?: number;
   disabled?: boolean;
   className?: string;
+  remoteCursors?: RemoteCursor[];
+  onSelectionChange?: (start: number, end: number) => void;
+}
+
+/**
+ * Splits the text at each cursor position and inserts a colored caret with the
+ * collaborator's name. Rendered with transparent text in a layer that mirrors
+ * the textarea, so the carets line up with the real characters.
+ */
+function renderCursorOverlay(value: string, cursors: RemoteCursor[]) {
+  const sorted = [...cursors].sort((a, b) => a.position - b.position);
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  for (const cursor of sorted) {
+    const position = Math.min(Math.max(cursor.position, offset), value.length);
+    parts.push(value.slice(offset, position));
+    parts.push(
+      <span
+        key={cursor.id}
+        className="relative border-l-2"
+        style={{ borderColor: cursor.color }}
+      >
+        <span
+          className="absolute -top-4 left-0 text-[10px] leading-none px-1 py-0.5 rounded text-white whitespace-nowrap"
+          style={{ backgroundColor: cursor.color }}
+        >
+          {cursor.name}
+        </span>
+      </span>
+    );
+    offset = position;
+  }
+  parts.push(value.slice(offset));
+  // A trailing newline needs a character after it to take up space
+  parts.push("\u200b");
+  return parts;
 }
 
 export default function MarkdownEditor({
@@ -25,11 +73,30 @@ export default function MarkdownEditor({
   rows = 10,
   disabled = false,
   className = "",
+  remoteCursors = [],
+  onSelectionChange,
 }: MarkdownEditorProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const { markdown, statuses: linkStatuses } = useWikiLinks(value);
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    onSelectionChange?.(
+      e.currentTarget.selectionStart,
+      e.currentTarget.selectionEnd
+    );
+  };
+
+  // Keep the cursor overlay scrolled together with the textarea
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (overlayRef.current) {
+      overlayRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
+  };
+
   return (
     <div className="flex flex-col md:flex-row gap-4">
       {/* Markdown Input Area */}
-      <div className="flex-1">
+      <div className="flex-1 relative">
         <label htmlFor="markdown-input" className="sr-only">
           Markdown Input
         </label>
@@ -44,7 +111,19 @@ export default function MarkdownEditor({
           placeholder={placeholder}
           disabled={disabled}
           spellCheck="true"
+          onSelect={handleSelect}
+          onScroll={handleScroll}
         ></textarea>
+        {remoteCursors.length > 0 && (
+          <div
+            ref={overlayRef}
+            aria-hidden="true"
+            className="pointer-events-none absolute left-0 right-0 bottom-0 top-1 px-3 py-2 border border-transparent
+                       sm:text-sm text-transparent whitespace-pre-wrap break-words overflow-hidden"
+          >
+            {renderCursorOverlay(value, remoteCursors)}
+          </div>
+        )}
       </div>
 
       {/* Live Markdown Preview Area */}
@@ -55,6 +134,11 @@ export default function MarkdownEditor({
         <div className="prose max-w-none text-gray-800 leading-relaxed">
           <ReactMarkdown
             components={{
+              a: ({ href, children }) => (
+                <WikiLink href={href} statuses={linkStatuses}>
+                  {children}
+                </WikiLink>
+              ),
               // Custom renderer for <code> blocks (code fences)
               code({ node, inline, className, children, ref, ...rest }) {
                 // <-- FIX: Destructure 'ref' here
@@ -95,7 +179,7 @@ export default function MarkdownEditor({
               },
             }}
           >
-            {value}
+            {markdown}
           </ReactMarkdown>
         </div>
         {value.trim() === "" && (
@@ -0,0 +1,74 @@
+// src/components/NoteExportDocument.tsx
+// The body of a note's self-contained HTML document, for the HTML export
+// (see src/lib/noteExport, which wraps it in the document's <head> with
+// NOTE_EXPORT_STYLES). Rendered on the server to static markup, so it only
+// uses those styles, never Tailwind classes. Code blocks are highlighted like
+// in MarkdownEditor's preview.
+
+import React from "react";
+import ReactMarkdown from "react-markdown";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { atomDark } from "react-syntax-highlighter/dist/esm/styles/prism";
+
+interface NoteExportDocumentProps {
+  title: string;
+  markdown: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Typography roughly matching the note page
+export const NOTE_EXPORT_STYLES = `
+  body { margin: 0; background: #F5F5F7; color: #1A202C; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.65; }
+  main { max-width: 48rem; margin: 2rem auto; padding: 2rem; background: #fff; border-radius: 0.5rem; box-shadow: 0 10px 25px rgba(0, 0, 0, 0.08); }
+  h1.note-title { font-size: 2rem; margin: 0 0 0.25rem; }
+  .note-meta { color: #6B7280; font-size: 0.875rem; margin-bottom: 2rem; }
+  a { color: #7F56D9; }
+  blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 4px solid #E5E7EB; color: #4B5563; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #E5E7EB; padding: 0.25rem 0.75rem; }
+  img { max-width: 100%; }
+  pre { margin: 1rem 0; padding: 0; background: none; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875rem; }
+  :not(pre) > code { background: #E5E7EB; padding: 0.125rem 0.25rem; border-radius: 0.25rem; }
+  pre > code { display: block; background: #E5E7EB; padding: 0.5rem; border-radius: 0.25rem; overflow-x: auto; }
+`;
+
+export default function NoteExportDocument({
+  title,
+  markdown,
+  createdAt,
+  updatedAt,
+}: NoteExportDocumentProps) {
+  return (
+    <main>
+      <h1 className="note-title">{title}</h1>
+      <p className="note-meta">
+        Created {createdAt.toUTCString()} · Last updated{" "}
+        {updatedAt.toUTCString()}
+      </p>
+      <ReactMarkdown
+        components={{
+          // Fenced code blocks with a language are highlighted, the rest render as is
+          code({ className, children }) {
+            const match = /language-(\w+)/.exec(className || "");
+            if (!match) {
+              return <code className={className}>{children}</code>;
+            }
+            return (
+              <SyntaxHighlighter
+                style={atomDark}
+                language={match[1]}
+                PreTag="div"
+              >
+                {String(children).replace(/\n$/, "")}
+              </SyntaxHighlighter>
+            );
+          },
+        }}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </main>
+  );
+}
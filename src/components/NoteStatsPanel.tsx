@@ -0,0 +1,185 @@
+// src/components/NoteStatsPanel.tsx
+// Panel showing a note's view analytics: total and unique views, a bar chart
+// of views per day and the top referrers. The stats are only available to the
+// note's owner, so the panel asks for the owner password when needed.
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { RotateCw } from "lucide-react";
+import { unlockNote } from "@/lib/unlockNote";
+
+interface NoteStatsPanelProps {
+  slug: string;
+}
+
+// Stats as returned by the stats API
+interface NoteStats {
+  totalViews: number;
+  uniqueVisitors: number;
+  days: { day: string; views: number; uniqueVisitors: number }[];
+  referrers: { host: string; views: number }[];
+}
+
+export default function NoteStatsPanel({ slug }: NoteStatsPanelProps) {
+  const [stats, setStats] = useState<NoteStats | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [passwordRequired, setPasswordRequired] = useState<boolean>(false);
+  const [password, setPassword] = useState<string>("");
+  const [isUnlocking, setIsUnlocking] = useState<boolean>(false);
+
+  const fetchStats = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/notes/${slug}/stats`);
+      const data = await response.json();
+      if (response.ok) {
+        setStats(data.stats);
+        setPasswordRequired(false);
+      } else if (response.status === 401) {
+        setPasswordRequired(true);
+      } else {
+        setError(data.message || "Failed to load stats.");
+      }
+    } catch (err) {
+      console.error("Error fetching note stats:", err);
+      setError("Could not connect to the server.");
+    } finally {
+      setLoading(false);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    const result = await unlockNote(slug, password);
+    setIsUnlocking(false);
+    if (!result.ok) {
+      setError(result.message || "Failed to unlock note.");
+      return;
+    }
+    if (result.access !== "owner") {
+      setError("Only the owner password shows the stats.");
+      return;
+    }
+    setPassword("");
+    await fetchStats();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6 text-gray-600">
+        <RotateCw className="animate-spin h-5 w-5 mr-2" />
+        Loading stats...
+      </div>
+    );
+  }
+
+  if (passwordRequired) {
+    return (
+      <form onSubmit={handleUnlock} className="space-y-3 max-w-sm mx-auto py-4">
+        <p className="text-sm text-gray-600 text-center">
+          Enter the owner password to see who reads this note.
+        </p>
+        <input
+          type="password"
+          className="block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm
+                     focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm
+                     text-gray-800 bg-white"
+          placeholder="Enter owner password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          disabled={isUnlocking}
+        />
+        {error && <p className="text-sm text-center text-[#721C24]">{error}</p>}
+        <button
+          type="submit"
+          className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm
+                     text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                     transition duration-150 ease-in-out
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={isUnlocking}
+        >
+          {isUnlocking ? "Unlocking..." : "Show Stats"}
+        </button>
+      </form>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <p className="text-sm text-center text-[#721C24] py-4">
+        {error || "No stats available."}
+      </p>
+    );
+  }
+
+  const maxDailyViews = Math.max(1, ...stats.days.map((day) => day.views));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 text-center">
+        <div className="rounded-md bg-gray-50 p-4">
+          <p className="text-2xl font-bold text-[#1A202C]">
+            {stats.totalViews}
+          </p>
+          <p className="text-sm text-gray-600">Total views</p>
+        </div>
+        <div className="rounded-md bg-gray-50 p-4">
+          <p className="text-2xl font-bold text-[#1A202C]">
+            {stats.uniqueVisitors}
+          </p>
+          <p className="text-sm text-gray-600">Unique visitors</p>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">
+          Views over the last {stats.days.length} days
+        </h3>
+        <div className="flex items-end h-32 space-x-1 border-b border-gray-200">
+          {stats.days.map((day) => (
+            <div
+              key={day.day}
+              className="flex-1 bg-[#7F56D9] rounded-t-sm min-h-[2px]"
+              style={{ height: `${(day.views / maxDailyViews) * 100}%` }}
+              title={`${day.day}: ${day.views} views, ${day.uniqueVisitors} unique`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{stats.days[0]?.day}</span>
+          <span>{stats.days[stats.days.length - 1]?.day}</span>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">
+          Top referrers
+        </h3>
+        {stats.referrers.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No referrers yet. Visits from links on other sites show up here.
+          </p>
+        ) : (
+          <ul className="space-y-1 text-sm text-gray-700">
+            {stats.referrers.slice(0, 10).map((referrer) => (
+              <li key={referrer.host} className="flex justify-between">
+                <span>{referrer.host}</span>
+                <span className="text-gray-500">{referrer.views}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
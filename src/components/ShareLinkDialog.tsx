@@ -0,0 +1,349 @@
+// src/components/ShareLinkDialog.tsx
+// Dialog for sharing a note without handing out its password. Exchanges the
+// password for a signed share link with a scope, an expiry and an optional use
+// limit, and lists existing links so the owner can revoke them.
+
+"use client";
+
+import React, { useState } from "react";
+import { Copy, Link2, RotateCw } from "lucide-react";
+
+interface ShareLinkDialogProps {
+  slug: string;
+  needsPassword: boolean; // This browser is not unlocked for everything yet
+  urlFragment?: string; // Appended to the link, e.g. "#<key>" for encrypted notes
+  onClose: () => void;
+}
+
+// Share link as returned by the share API
+interface ShareLinkInfo {
+  id: string;
+  scope: "view" | "history" | "edit";
+  expiresAt: string;
+  maxUses: number | null;
+  uses: number;
+  revokedAt: string | null;
+}
+
+const SCOPE_LABELS: Record<ShareLinkInfo["scope"], string> = {
+  view: "View only",
+  history: "View and history",
+  edit: "Edit",
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+];
+
+export default function ShareLinkDialog({
+  slug,
+  needsPassword,
+  urlFragment = "",
+  onClose,
+}: ShareLinkDialogProps) {
+  const [password, setPassword] = useState<string>("");
+  const [scope, setScope] = useState<ShareLinkInfo["scope"]>("view");
+  const [expiresIn, setExpiresIn] = useState<number>(EXPIRY_OPTIONS[2].seconds);
+  const [maxUses, setMaxUses] = useState<string>("");
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [copyMessage, setCopyMessage] = useState<string | null>(null);
+
+  // Existing links, loaded on demand (needs the owner password)
+  const [links, setLinks] = useState<ShareLinkInfo[] | null>(null);
+  const [isLoadingLinks, setIsLoadingLinks] = useState<boolean>(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    setShareUrl(null);
+
+    try {
+      const response = await fetch(`/api/notes/${slug}/share`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          password: password || undefined,
+          scope,
+          expiresIn,
+          maxUses: maxUses ? Number(maxUses) : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setShareUrl(
+          `${window.location.origin}/notes/${slug}?token=${encodeURIComponent(
+            data.token
+          )}${urlFragment}`
+        );
+        if (links) {
+          setLinks([...links, data.link]);
+        }
+      } else {
+        setError(data.message || "Failed to create share link.");
+      }
+    } catch (err) {
+      console.error("Error creating share link:", err);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  /**
+   * Copies the generated link to the clipboard.
+   * Uses document.execCommand('copy') for broader compatibility in iframes.
+   */
+  const handleCopy = () => {
+    if (!shareUrl) return;
+    try {
+      const tempInput = document.createElement("textarea");
+      tempInput.value = shareUrl;
+      document.body.appendChild(tempInput);
+      tempInput.select();
+      document.execCommand("copy");
+      document.body.removeChild(tempInput);
+      setCopyMessage("Link copied!");
+    } catch (err) {
+      console.error("Failed to copy share link:", err);
+      setCopyMessage("Failed to copy link.");
+    }
+    setTimeout(() => setCopyMessage(null), 2000);
+  };
+
+  const handleLoadLinks = async () => {
+    setIsLoadingLinks(true);
+    setError(null);
+    try {
+      const headers: HeadersInit = {};
+      if (password) {
+        headers["Authorization"] = `Bearer ${password}`;
+      }
+      const response = await fetch(`/api/notes/${slug}/share`, { headers });
+      const data = await response.json();
+      if (response.ok) {
+        setLinks(data.shareLinks);
+      } else {
+        setError(data.message || "Failed to load share links.");
+      }
+    } catch (err) {
+      console.error("Error loading share links:", err);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoadingLinks(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/notes/${slug}/share/${linkId}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword: password || undefined }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setLinks((prev) =>
+          prev
+            ? prev.map((link) =>
+                link.id === linkId
+                  ? { ...link, revokedAt: new Date().toISOString() }
+                  : link
+              )
+            : prev
+        );
+      } else {
+        setError(data.message || "Failed to revoke share link.");
+      }
+    } catch (err) {
+      console.error("Error revoking share link:", err);
+      setError("An unexpected error occurred. Please try again.");
+    }
+  };
+
+  const inputClasses =
+    "block w-full px-3 py-2 border border-[#D1D5DB] rounded-md shadow-sm focus:outline-none focus:ring-[#7F56D9] focus:border-[#7F56D9] sm:text-sm text-gray-800 bg-white";
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md space-y-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold text-[#1A202C] text-center">
+          Create Share Link
+        </h2>
+        <p className="text-gray-600 text-center text-sm">
+          Anyone with the link gets the chosen access until it expires, runs
+          out of uses or is revoked. They never see the password.
+        </p>
+        <form onSubmit={handleCreate} className="space-y-4">
+          {needsPassword && (
+            <input
+              type="password"
+              className={inputClasses}
+              placeholder="Note password, if needed"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isCreating}
+            />
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700 space-y-1">
+              <span>Access</span>
+              <select
+                className={inputClasses}
+                value={scope}
+                onChange={(e) =>
+                  setScope(e.target.value as ShareLinkInfo["scope"])
+                }
+                disabled={isCreating}
+              >
+                {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700 space-y-1">
+              <span>Expires after</span>
+              <select
+                className={inputClasses}
+                value={expiresIn}
+                onChange={(e) => setExpiresIn(Number(e.target.value))}
+                disabled={isCreating}
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.seconds} value={option.seconds}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="block text-sm text-gray-700 space-y-1">
+            <span>Maximum uses (optional)</span>
+            <input
+              type="number"
+              min={1}
+              className={inputClasses}
+              placeholder="Unlimited"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              disabled={isCreating}
+            />
+          </label>
+
+          {shareUrl && (
+            <div className="space-y-2">
+              <input
+                type="text"
+                readOnly
+                className={`${inputClasses} bg-gray-50`}
+                value={shareUrl}
+                onFocus={(e) => e.target.select()}
+              />
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="py-1.5 px-3 border border-gray-200 rounded-md shadow-sm
+                           text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200
+                           transition duration-150 ease-in-out flex items-center space-x-1"
+              >
+                <Copy className="h-4 w-4" />
+                <span>{copyMessage || "Copy Share Link"}</span>
+              </button>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-center text-[#721C24]">{error}</p>
+          )}
+
+          <div className="flex justify-end space-x-4 mt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="py-2 px-4 text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md
+                         focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400
+                         transition duration-150 ease-in-out"
+              disabled={isCreating}
+            >
+              Close
+            </button>
+            <button
+              type="submit"
+              className="py-2 px-4 border border-transparent rounded-md shadow-sm
+                         text-sm font-medium text-white bg-[#7F56D9] hover:bg-[#6A4BBA]
+                         focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#7F56D9]
+                         transition duration-150 ease-in-out
+                         disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isCreating}
+            >
+              {isCreating ? (
+                <span className="flex items-center justify-center">
+                  <RotateCw className="animate-spin h-5 w-5 mr-2" />
+                  Creating...
+                </span>
+              ) : (
+                <span className="flex items-center justify-center space-x-1">
+                  <Link2 className="h-4 w-4" />
+                  <span>Create Link</span>
+                </span>
+              )}
+            </button>
+          </div>
+        </form>
+
+        {/* Existing links */}
+        <div className="border-t border-gray-200 pt-4">
+          {links === null ? (
+            <button
+              type="button"
+              onClick={handleLoadLinks}
+              className="text-sm text-[#7F56D9] hover:underline disabled:opacity-50"
+              disabled={isLoadingLinks}
+            >
+              {isLoadingLinks
+                ? "Loading share links..."
+                : "Manage existing links (owner password)"}
+            </button>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-500">No share links yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {links.map((link) => (
+                <li
+                  key={link.id}
+                  className="flex items-center justify-between text-sm text-gray-700"
+                >
+                  <span>
+                    {SCOPE_LABELS[link.scope]} · expires{" "}
+                    {new Date(link.expiresAt).toLocaleString()} · {link.uses}
+                    {link.maxUses !== null ? `/${link.maxUses}` : ""} uses
+                  </span>
+                  {link.revokedAt ? (
+                    <span className="text-xs text-gray-400">Revoked</span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(link.id)}
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// src/components/WikiLink.tsx
+// Link renderer for ReactMarkdown. Links to notes (as produced from
+// [[slug]] wiki links) are flagged when the note is missing or has expired;
+// other links render as usual.
+
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { getLinkedSlug, WikiLinkStatus } from "@/lib/wikiLinks";
+
+interface WikiLinkProps {
+  href?: string;
+  children?: React.ReactNode;
+  statuses: Record<string, WikiLinkStatus>;
+}
+
+export default function WikiLink({ href, children, statuses }: WikiLinkProps) {
+  const slug = getLinkedSlug(href);
+  if (!slug || !href) {
+    return <a href={href}>{children}</a>;
+  }
+
+  const status = statuses[slug];
+  if (status === "missing") {
+    return (
+      <Link
+        href={href}
+        className="text-[#B42318] decoration-dashed"
+        title={`There is no note "${slug}" yet`}
+      >
+        {children}
+      </Link>
+    );
+  }
+  if (status === "expired") {
+    return (
+      <Link
+        href={href}
+        className="text-gray-400 line-through"
+        title={`The note "${slug}" has expired`}
+      >
+        {children}
+      </Link>
+    );
+  }
+  return <Link href={href}>{children}</Link>;
+}
@@ -0,0 +1,98 @@
+// src/lib/analytics.ts
+// View analytics for notes.
+// Every time GET /api/notes/[slug] returns a note to a reader (the note and
+// embed pages ask with ?view=1, and raw reads always count), a view is
+// counted in that note's bucket for the day (UTC), together with a salted hash of the viewer's
+// IP address (to count unique visitors without storing addresses) and the
+// host of the referring page. Views are stored apart from the note (see
+// NoteStore.recordView) and summarized by GET /api/notes/[slug]/stats.
+
+import { NextRequest } from 'next/server';
+import { getClientIp } from '@/lib/clientIp';
+import { saltedHash } from '@/lib/signing';
+import { getNoteStore, NoteViewBucket, StoredNote } from '@/lib/store';
+
+// Number of days covered by the daily breakdown in the stats
+export const STATS_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface NoteStats {
+  totalViews: number;
+  uniqueVisitors: number;
+  days: { day: string; views: number; uniqueVisitors: number }[]; // Last STATS_DAYS days, oldest first
+  referrers: { host: string; views: number }[]; // Most views first
+}
+
+/**
+ * Formats a date as its UTC day, YYYY-MM-DD.
+ */
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the host of the page that linked to a note, or null for direct
+ * visits and navigation within this site.
+ */
+function getReferrerHost(req: NextRequest): string | null {
+  const referer = req.headers.get('referer');
+  if (!referer) {
+    return null;
+  }
+  try {
+    const host = new URL(referer).host;
+    return host && host !== req.nextUrl.host ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Records a view of a note. Failures are logged, never thrown, so analytics
+ * can never break reading a note.
+ */
+export async function recordNoteView(req: NextRequest, note: StoredNote): Promise<void> {
+  try {
+    await getNoteStore().recordView(note.slug, {
+      day: toDay(new Date()),
+      // Hashed per note, so visitors cannot be followed from note to note
+      visitorHash: saltedHash('visitor', `${note.slug}:${getClientIp(req)}`),
+      referrer: getReferrerHost(req),
+    });
+  } catch (error) {
+    console.error('Failed to record note view:', error);
+  }
+}
+
+/**
+ * Summarizes a note's view buckets.
+ * @param now The end of the daily breakdown.
+ */
+export function summarizeViews(buckets: NoteViewBucket[], now: Date = new Date()): NoteStats {
+  const visitors = new Set<string>();
+  const referrers = new Map<string, number>();
+  let totalViews = 0;
+  for (const bucket of buckets) {
+    totalViews += bucket.views;
+    bucket.visitors.forEach(visitor => visitors.add(visitor));
+    for (const [host, views] of Object.entries(bucket.referrers)) {
+      referrers.set(host, (referrers.get(host) || 0) + views);
+    }
+  }
+
+  const bucketsByDay = new Map(buckets.map(bucket => [bucket.day, bucket]));
+  const days: NoteStats['days'] = [];
+  for (let offset = STATS_DAYS - 1; offset >= 0; offset--) {
+    const day = toDay(new Date(now.getTime() - offset * DAY_MS));
+    const bucket = bucketsByDay.get(day);
+    days.push({ day, views: bucket?.views ?? 0, uniqueVisitors: bucket?.visitors.length ?? 0 });
+  }
+
+  return {
+    totalViews,
+    uniqueVisitors: visitors.size,
+    days,
+    referrers: Array.from(referrers, ([host, views]) => ({ host, views })).sort((a, b) => b.views - a.views),
+  };
+}
@@ -0,0 +1,62 @@
+// src/lib/backlinks.ts
+// Server-side side of wiki links (see src/lib/wikiLinks): resolving link
+// targets, so missing and expired notes can be flagged, and listing the notes
+// that link to a note. Each note stores the slugs it links to
+// (StoredNote.links), updated whenever its content is saved.
+
+import { getNoteStore, StoredNote } from '@/lib/store';
+import { requiresSecret } from '@/lib/noteAuth';
+import { getViewsRemaining } from '@/lib/viewLimit';
+import type { WikiLinkStatus } from '@/lib/wikiLinks';
+
+// A note linking to another note
+export interface Backlink {
+  slug: string;
+  title: string | null; // Null for notes that need a password to read, and encrypted notes
+  encrypted: boolean; // The server only has the encrypted title, so pages show the slug
+}
+
+/**
+ * Checks whether a note can no longer be read because it expired or used up its views.
+ */
+function isUnavailable(note: StoredNote, now: Date): boolean {
+  return (!!note.expiresAt && note.expiresAt <= now) || getViewsRemaining(note) === 0;
+}
+
+/**
+ * Looks up the notes behind a set of link targets.
+ * @returns The status of each slug.
+ */
+export async function resolveLinkTargets(
+  slugs: string[],
+  now: Date = new Date()
+): Promise<Record<string, WikiLinkStatus>> {
+  const store = getNoteStore();
+  const statuses: Record<string, WikiLinkStatus> = {};
+  await Promise.all(
+    slugs.map(async slug => {
+      const note = await store.findBySlug(slug);
+      if (!note) {
+        // Expired notes are purged, but still flagged as expired for a while
+        statuses[slug] = (await store.findExpired(slug, now)) ? 'expired' : 'missing';
+        return;
+      }
+      statuses[slug] = note.deletedAt ? 'missing' : isUnavailable(note, now) ? 'expired' : 'ok';
+    })
+  );
+  return statuses;
+}
+
+/**
+ * Lists the readable notes that link to a note, most recently updated first.
+ */
+export async function listBacklinks(slug: string, now: Date = new Date()): Promise<Backlink[]> {
+  const notes = await getNoteStore().findBacklinks(slug);
+  return notes
+    .filter(note => note.slug !== slug && !isUnavailable(note, now))
+    .map(note => ({
+      slug: note.slug,
+      title: requiresSecret(note, 'view') || note.encrypted ? null : note.title,
+      encrypted: !!note.encrypted,
+    }));
+}
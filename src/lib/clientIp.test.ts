@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getClientIp, UNKNOWN_CLIENT_IP } from './clientIp';
+
+function request(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/notes', { headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getClientIp', () => {
+  it('takes the address added by the trusted proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    expect(getClientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4' }))).toBe('1.2.3.4');
+  });
+
+  it('skips the addresses added by further trusted proxies', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    expect(getClientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.1' }))).toBe('1.2.3.4');
+  });
+
+  it('trusts no header without a trusted proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '0');
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4', 'x-real-ip': '1.2.3.4' }))).toBe(UNKNOWN_CLIENT_IP);
+  });
+});
@@ -0,0 +1,56 @@
+// src/lib/clientIp.ts
+// Resolves the client IP address of a request without trusting spoofable headers.
+//
+// Each proxy in front of the app appends the address it received the request
+// from to `X-Forwarded-For`. Only the entries added by our own proxies can be
+// trusted, so with N trusted proxies the client is the N-th entry from the right.
+// Configure N with TRUSTED_PROXY_HOPS (defaults to 1, e.g. Vercel or a single
+// reverse proxy). N must match the deployment: with more hops than there are
+// proxies, clients can pick their address by sending their own header. Set it
+// to 0 when the app is exposed directly. Route handlers cannot see the
+// connection then, and `X-Forwarded-For` is whatever the client sent, so all
+// clients share one rate limit bucket.
+
+import { NextRequest } from 'next/server';
+
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+// Used when no trustworthy address can be determined
+export const UNKNOWN_CLIENT_IP = 'unknown';
+
+/**
+ * Reads the number of trusted proxy hops from the environment.
+ */
+function getTrustedProxyHops(): number {
+  const raw = process.env.TRUSTED_PROXY_HOPS;
+  if (raw === undefined || raw === '') {
+    return DEFAULT_TRUSTED_PROXY_HOPS;
+  }
+  const hops = Number.parseInt(raw, 10);
+  return Number.isNaN(hops) || hops < 0 ? DEFAULT_TRUSTED_PROXY_HOPS : hops;
+}
+
+/**
+ * Returns the best trustworthy guess of the client's IP address.
+ * @param req The NextRequest object.
+ * @returns The client IP, or UNKNOWN_CLIENT_IP if it cannot be determined.
+ */
+export function getClientIp(req: NextRequest): string {
+  const hops = getTrustedProxyHops();
+  if (hops === 0) {
+    // No proxy we trust: forwarding headers may have been set by the client
+    return UNKNOWN_CLIENT_IP;
+  }
+
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const addresses = forwardedFor.split(',').map(address => address.trim()).filter(Boolean);
+    // If the chain is shorter than expected, the left-most entry is the best we have
+    const index = Math.max(0, addresses.length - hops);
+    if (addresses[index]) {
+      return addresses[index];
+    }
+  }
+
+  return req.headers.get('x-real-ip')?.trim() || UNKNOWN_CLIENT_IP;
+}
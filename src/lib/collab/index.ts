@@ -0,0 +1,50 @@
+// src/lib/collab/index.ts
+// Registry of live collaborative editing sessions, one per note slug.
+// Sessions live in this server process, so every collaborator on a note must
+// reach the same instance (sticky sessions when running several instances).
+
+import type { StoredNote } from '@/lib/store';
+import { getRevision } from '@/lib/revision';
+import { CollabSession } from './session';
+
+export type { CollabCursor, CollabEventSender, CollabParticipant } from './session';
+export { CollabSession } from './session';
+
+// Shared across routes and hot reloads, like the note store
+const globalForCollab = globalThis as typeof globalThis & { __collabSessions?: Map<string, CollabSession> };
+
+function sessions(): Map<string, CollabSession> {
+  if (!globalForCollab.__collabSessions) {
+    globalForCollab.__collabSessions = new Map();
+  }
+  return globalForCollab.__collabSessions;
+}
+
+/**
+ * Returns the live session for a note, starting one from the stored note if needed.
+ */
+export function getOrCreateCollabSession(note: StoredNote): CollabSession {
+  let session = sessions().get(note.slug);
+  if (!session) {
+    session = new CollabSession(note.slug, note.content, getRevision(note));
+    sessions().set(note.slug, session);
+  }
+  return session;
+}
+
+/**
+ * Returns the live session for a slug, if one is running.
+ */
+export function getCollabSession(slug: string): CollabSession | undefined {
+  return sessions().get(slug);
+}
+
+/**
+ * Removes a participant and closes the session once nobody is left.
+ */
+export async function leaveCollabSession(session: CollabSession, clientId: string): Promise<void> {
+  await session.leave(clientId);
+  if (session.isEmpty && sessions().get(session.slug) === session) {
+    sessions().delete(session.slug);
+  }
+}
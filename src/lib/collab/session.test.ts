@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { diff_match_patch } from 'diff-match-patch';
+import { CollabSession } from './session';
+import { getNoteStore } from '@/lib/store';
+import { getRevision } from '@/lib/revision';
+import { createTestNote } from '@/test/routes';
+
+const dmp = new diff_match_patch();
+
+// Starts a session on a new note with one participant, recording its events
+async function startSession() {
+  const slug = await createTestNote({ content: 'Some content.' });
+  const note = await getNoteStore().findBySlug(slug);
+  if (!note) {
+    throw new Error('The test note is missing.');
+  }
+  const session = new CollabSession(slug, note.content, getRevision(note));
+  const events: { event: string; data: unknown }[] = [];
+  session.join('client', 'Ada', (event, data) => events.push({ event, data }));
+  return { slug, session, events };
+}
+
+function edit(session: CollabSession, content: string) {
+  session.applyPatch('client', dmp.patch_toText(dmp.patch_make(session.content, content)));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('CollabSession', () => {
+  it('saves the edits when it settles', async () => {
+    const { slug, session, events } = await startSession();
+    edit(session, 'Some better content.');
+    await session.settle();
+
+    expect((await getNoteStore().findBySlug(slug))?.content).toBe('Some better content.');
+    expect(events.map(({ event }) => event)).toContain('saved');
+  });
+
+  it('tells participants when the edits cannot be saved', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { slug, session, events } = await startSession();
+    edit(session, 'Some shit content.');
+    await session.settle();
+
+    expect((await getNoteStore().findBySlug(slug))?.content).toBe('Some content.');
+    expect(events).toContainEqual({
+      event: 'error',
+      data: { message: 'Profanity detected in content. Collaborative changes were not saved.' },
+    });
+  });
+
+  it('saves pending edits without leaving a timer behind when the last participant leaves', async () => {
+    const { slug, session } = await startSession();
+    vi.useFakeTimers();
+    // The first write conflicts with another save
+    vi.spyOn(getNoteStore(), 'update').mockResolvedValueOnce(false);
+    edit(session, 'Some final content.');
+    await session.leave('client');
+
+    expect(vi.getTimerCount()).toBe(0);
+    expect((await getNoteStore().findBySlug(slug))?.content).toBe('Some final content.');
+  });
+});
@@ -0,0 +1,275 @@
+// src/lib/collab/session.ts
+// A live collaborative editing session for one note.
+//
+// Clients send diff-match-patch patches of their local edits; the session
+// applies them to its copy of the content (patches carry context, so edits
+// made against a slightly older version still land in the right place) and
+// broadcasts the result to every participant over Server-Sent Events.
+//
+// Edits are kept in memory while people type. Once the session settles (no
+// edits for SETTLE_DELAY_MS, or the last participant leaves) the content is
+// written back to the note store with a single history entry, credited to the
+// participants who edited since the last write. Participants are told with an
+// `error` event when a write fails. Once the last participant has left, a
+// write that conflicts with another save is retried right away instead of
+// on a timer, so nothing is left pending when the session is removed.
+
+import { diff_match_patch } from 'diff-match-patch';
+import { nanoid } from 'nanoid';
+import { Filter } from 'bad-words';
+import { getNoteStore } from '@/lib/store';
+import { getRevision } from '@/lib/revision';
+import { threeWayMerge } from '@/lib/merge';
+import { getLinkedSlugs } from '@/lib/wikiLinks';
+import { MAX_AUTHOR_LENGTH } from '@/lib/historyEvents';
+import { applyHistoryRetention } from '@/lib/historyRetention';
+
+const dmp = new diff_match_patch();
+const filter = new Filter();
+
+// Write edits back to the store after this long without changes
+const SETTLE_DELAY_MS = 10 * 1000;
+
+// Writes tried in a row after the last participant left, before giving up
+const MAX_CLOSING_ATTEMPTS = 3;
+
+// Colors handed out to participants for their cursors
+const PARTICIPANT_COLORS = ['#7F56D9', '#E11D48', '#0EA5E9', '#F59E0B', '#10B981', '#8B5CF6', '#EC4899', '#14B8A6'];
+
+export interface CollabCursor {
+  start: number;
+  end: number;
+}
+
+// Shared with everyone in the session. The secret clientId that authorizes a
+// participant's edits is only ever sent to that participant.
+export interface CollabParticipant {
+  id: string;
+  name: string;
+  color: string;
+  cursor: CollabCursor | null;
+}
+
+// Sends one named event to a connected participant
+export type CollabEventSender = (event: string, data: unknown) => void;
+
+export class CollabSession {
+  private participants = new Map<string, CollabParticipant>();
+  private senders = new Map<string, CollabEventSender>();
+  private settleTimer: ReturnType<typeof setTimeout> | null = null;
+  private settling: Promise<void> = Promise.resolve();
+  private closing = false; // The last participant left
+  private editors = new Set<string>(); // Names of participants who edited since the last write
+
+  // Content and revision last written to the store
+  private baseContent: string;
+  private baseRevision: number;
+
+  content: string;
+  version = 0; // Incremented on every applied edit
+
+  constructor(readonly slug: string, content: string, revision: number) {
+    this.content = content;
+    this.baseContent = content;
+    this.baseRevision = revision;
+  }
+
+  get isEmpty(): boolean {
+    return this.participants.size === 0;
+  }
+
+  private broadcast(event: string, data: unknown, exceptClientId?: string): void {
+    for (const [clientId, send] of this.senders) {
+      if (clientId !== exceptClientId) {
+        send(event, data);
+      }
+    }
+  }
+
+  private participantList(): CollabParticipant[] {
+    return Array.from(this.participants.values());
+  }
+
+  /**
+   * Adds a participant and sends them the current state of the session.
+   * @param clientId Secret id the participant uses to send edits.
+   */
+  join(clientId: string, name: string, send: CollabEventSender): void {
+    const color = PARTICIPANT_COLORS[this.participants.size % PARTICIPANT_COLORS.length];
+    const participant: CollabParticipant = { id: nanoid(10), name, color, cursor: null };
+    this.closing = false;
+    this.participants.set(clientId, participant);
+    this.senders.set(clientId, send);
+
+    send('init', {
+      content: this.content,
+      version: this.version,
+      revision: this.baseRevision,
+      participantId: participant.id,
+      participants: this.participantList(),
+    });
+    this.broadcast('participants', { participants: this.participantList() }, clientId);
+  }
+
+  /**
+   * Removes a participant. If they were the last one, settles the session
+   * and resolves once nothing is pending, so it can be removed.
+   */
+  leave(clientId: string): Promise<void> {
+    this.participants.delete(clientId);
+    this.senders.delete(clientId);
+    this.broadcast('participants', { participants: this.participantList() });
+    if (!this.isEmpty) {
+      return Promise.resolve();
+    }
+    this.closing = true;
+    return this.settle();
+  }
+
+  hasParticipant(clientId: string): boolean {
+    return this.participants.has(clientId);
+  }
+
+  /**
+   * Applies a participant's edit.
+   * @param patchText Patches in diff-match-patch text format.
+   * @returns The session content and version after the edit.
+   */
+  applyPatch(clientId: string, patchText: string): { content: string; version: number } {
+    const patches = dmp.patch_fromText(patchText);
+    const [content] = dmp.patch_apply(patches, this.content);
+
+    if (content !== this.content) {
+      this.content = content;
+      this.version++;
+      const participant = this.participants.get(clientId);
+      if (participant) {
+        this.editors.add(participant.name);
+      }
+      this.broadcast('update', { content, version: this.version });
+      this.scheduleSettle();
+    }
+    return { content: this.content, version: this.version };
+  }
+
+  /**
+   * Records a participant's cursor or selection and shares it with the others.
+   */
+  updateCursor(clientId: string, cursor: CollabCursor): void {
+    const participant = this.participants.get(clientId);
+    if (!participant) return;
+    participant.cursor = cursor;
+    this.broadcast('cursor', participant, clientId);
+  }
+
+  private scheduleSettle(): void {
+    if (this.closing) {
+      return;
+    }
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+    }
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      this.settle();
+    }, SETTLE_DELAY_MS);
+  }
+
+  /**
+   * Writes the session's content to the store as one revision and history entry.
+   * Settles run one at a time so two never race for the same revision.
+   */
+  settle(): Promise<void> {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+    this.settling = this.settling.then(() => this.writeToStore()).catch(error => {
+      console.error(`Error saving collaborative edits for '${this.slug}':`, error);
+      this.broadcast('error', {
+        message: 'Collaborative changes could not be saved. They are saved with the next edit.',
+      });
+    });
+    return this.settling;
+  }
+
+  /**
+   * Tells participants their edits were not saved. Also logged, since nobody
+   * may be left to tell.
+   */
+  private reportSaveError(message: string): void {
+    console.warn(`Collaborative edits for '${this.slug}' were not saved: ${message}`);
+    this.broadcast('error', { message });
+  }
+
+  /**
+   * @param attempt Writes tried in a row since the last participant left.
+   */
+  private async writeToStore(attempt = 1): Promise<void> {
+    if (this.content === this.baseContent) {
+      return;
+    }
+
+    const store = getNoteStore();
+    const note = await store.findBySlug(this.slug);
+    if (!note || note.deletedAt) {
+      this.reportSaveError('This note was deleted. Collaborative changes were not saved.');
+      return;
+    }
+    if (note.expiresAt && note.expiresAt <= new Date()) {
+      this.reportSaveError('This note has expired. Collaborative changes were not saved.');
+      return;
+    }
+
+    let content = this.content;
+    const revision = getRevision(note);
+    if (revision !== this.baseRevision) {
+      // The note was saved outside this session: merge our edits into that version
+      content = threeWayMerge(this.baseContent, this.content, note.content).merged;
+    }
+
+    if (filter.isProfane(`${note.title} ${content}`)) {
+      this.reportSaveError(
+        revision !== this.baseRevision
+          ? 'Profanity detected after merging with changes saved elsewhere. Collaborative changes were not saved.'
+          : 'Profanity detected in content. Collaborative changes were not saved.'
+      );
+      return;
+    }
+
+    const now = new Date();
+    const editors = Array.from(this.editors);
+    const author = editors.join(', ').slice(0, MAX_AUTHOR_LENGTH) || undefined;
+    const updated = await store.update(
+      this.slug,
+      { content, links: getLinkedSlugs(content), updatedAt: now, revision: revision + 1 },
+      {
+        historyEntry: { content, title: note.title, timestamp: now, author, message: 'Live collaboration' },
+        expectedRevision: revision,
+      }
+    );
+    if (!updated) {
+      // Someone saved in between: try again on the next settle, or right away
+      // if nobody is left to wait for it
+      if (!this.closing) {
+        this.scheduleSettle();
+      } else if (attempt < MAX_CLOSING_ATTEMPTS) {
+        await this.writeToStore(attempt + 1);
+      } else {
+        this.reportSaveError('The note kept changing. Collaborative changes were not saved.');
+      }
+      return;
+    }
+    editors.forEach(name => this.editors.delete(name));
+    await applyHistoryRetention(note);
+
+    this.baseContent = content;
+    this.baseRevision = revision + 1;
+    if (content !== this.content) {
+      this.content = content;
+      this.version++;
+      this.broadcast('update', { content, version: this.version });
+    }
+    this.broadcast('saved', { revision: this.baseRevision, updatedAt: now.toISOString() });
+  }
+}
@@ -0,0 +1,120 @@
+// src/lib/e2e.ts
+// End-to-end encryption for notes.
+// Encrypted notes are encrypted in the browser with AES-GCM (WebCrypto). The
+// key lives only in the URL #fragment, which browsers never send to the
+// server, so the API only ever sees ciphertext. The server uses
+// `isEncryptedText` to check that an encrypted note only receives ciphertext.
+//
+// Encrypted text format: `e2e.v1.<iv>.<ciphertext>`, both parts base64url.
+
+const ENCRYPTED_TEXT_PATTERN = /^e2e\.v1\.[A-Za-z0-9_-]{16}\.[A-Za-z0-9_-]+$/;
+const KEY_PATTERN = /^[A-Za-z0-9_-]{43}$/; // 256-bit key, base64url
+const IV_BYTES = 12;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Checks whether a value is text encrypted by `encryptText`.
+ */
+export function isEncryptedText(value: unknown): value is string {
+  return typeof value === "string" && ENCRYPTED_TEXT_PATTERN.test(value);
+}
+
+/**
+ * Generates a new random key, encoded for use as a URL fragment.
+ */
+export async function generateEncryptionKey(): Promise<string> {
+  const key = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+}
+
+function importKey(encodedKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    fromBase64Url(encodedKey),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Encrypts text with a key from `generateEncryptionKey`.
+ */
+export async function encryptText(
+  encodedKey: string,
+  plaintext: string
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await importKey(encodedKey),
+    new TextEncoder().encode(plaintext)
+  );
+  return `e2e.v1.${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypts text produced by `encryptText`.
+ * Throws if the text is malformed or the key is wrong.
+ */
+export async function decryptText(
+  encodedKey: string,
+  encrypted: string
+): Promise<string> {
+  if (!isEncryptedText(encrypted)) {
+    throw new Error("Not encrypted text.");
+  }
+  const [, , iv, ciphertext] = encrypted.split(".");
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64Url(iv) },
+    await importKey(encodedKey),
+    fromBase64Url(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Reads the key from the current page's URL fragment.
+ * @returns The key, or null if the fragment does not hold one.
+ */
+export function getKeyFromLocation(): string | null {
+  const fragment = window.location.hash.replace(/^#/, "");
+  return KEY_PATTERN.test(fragment) ? fragment : null;
+}
+
+/**
+ * Decrypts the title and content of an encrypted note returned by the API.
+ * Notes that are not encrypted are returned unchanged.
+ */
+export async function decryptNote<
+  T extends { title: string; content: string; encrypted?: boolean }
+>(note: T, encodedKey: string | null): Promise<T> {
+  if (!note.encrypted) {
+    return note;
+  }
+  if (!encodedKey) {
+    throw new Error("Missing encryption key.");
+  }
+  return {
+    ...note,
+    title: await decryptText(encodedKey, note.title),
+    content: await decryptText(encodedKey, note.content),
+  };
+}
@@ -0,0 +1,86 @@
+// src/lib/embed.ts
+// Helpers for embedding notes in other sites: the /embed/[slug] page renders
+// a note without navigation for use in an iframe, GET /api/oembed describes it
+// to oEmbed consumers, and the note page copies the same iframe code. Only
+// notes anyone can read are embeddable; protected, encrypted and view-limited
+// notes would need a password, a key or a counted view.
+
+export type EmbedTheme = "light" | "dark";
+
+export const DEFAULT_EMBED_WIDTH = 600;
+export const DEFAULT_EMBED_HEIGHT = 400;
+export const MIN_EMBED_HEIGHT = 100;
+export const MAX_EMBED_HEIGHT = 2000;
+
+export interface EmbedOptions {
+  theme?: EmbedTheme;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Reads the ?theme= parameter of an embed, defaulting to the light theme.
+ */
+export function parseEmbedTheme(value: string | null): EmbedTheme {
+  return value === "dark" ? "dark" : "light";
+}
+
+/**
+ * Reads a height in pixels, clamped to what an embed may use.
+ * @returns The height, or undefined if none (or an invalid one) was given.
+ */
+export function parseEmbedHeight(value: string | null): number | undefined {
+  const height = Number(value);
+  if (!value || !Number.isFinite(height) || height <= 0) {
+    return undefined;
+  }
+  return Math.min(
+    Math.max(Math.round(height), MIN_EMBED_HEIGHT),
+    MAX_EMBED_HEIGHT
+  );
+}
+
+/**
+ * Returns the URL of a note's embed page.
+ */
+export function getEmbedUrl(
+  origin: string,
+  slug: string,
+  options: EmbedOptions = {}
+): string {
+  const params = new URLSearchParams();
+  if (options.theme === "dark") {
+    params.set("theme", "dark");
+  }
+  if (options.height) {
+    params.set("height", String(options.height));
+  }
+  const query = params.toString();
+  return `${origin}/embed/${encodeURIComponent(slug)}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Escapes text for use in an HTML attribute.
+ */
+function escapeAttribute(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Builds the iframe code that embeds a note.
+ */
+export function getEmbedCode(
+  origin: string,
+  slug: string,
+  title: string,
+  options: EmbedOptions = {}
+): string {
+  const width = options.width ?? DEFAULT_EMBED_WIDTH;
+  const height = options.height ?? DEFAULT_EMBED_HEIGHT;
+  const src = getEmbedUrl(origin, slug, { ...options, height });
+  return `<iframe src="${escapeAttribute(src)}" width="${width}" height="${height}" title="${escapeAttribute(title)}" style="border: 0;" loading="lazy"></iframe>`;
+}
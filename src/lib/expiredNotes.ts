@@ -0,0 +1,30 @@
+// src/lib/expiredNotes.ts
+// Responses for notes past their expiration date. The stores purge expired
+// notes for good (see src/lib/store/expiry) but remember their slugs for a
+// while, so a recently expired note answers 410 Gone with the time it
+// expired, whether or not it was purged yet, and only later 404.
+
+import { NextResponse } from 'next/server';
+import { getNoteStore } from '@/lib/store';
+
+/**
+ * Builds the response returned for a note that has expired.
+ */
+export function expiredNoteResponse(expiresAt: Date): NextResponse {
+  return NextResponse.json(
+    { message: 'Note has expired.', expiredAt: expiresAt.toISOString() },
+    { status: 410 }
+  );
+}
+
+/**
+ * Builds the response returned when no note has a slug: 410 Gone if a note
+ * with that slug expired recently, 404 otherwise.
+ */
+export async function noteNotFoundResponse(slug: string): Promise<NextResponse> {
+  const expiresAt = await getNoteStore().findExpired(slug, new Date());
+  if (expiresAt) {
+    return expiredNoteResponse(expiresAt);
+  }
+  return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+}
@@ -0,0 +1,127 @@
+// src/lib/historyEvents.ts
+// What a saved version records besides its content: an optional author label
+// and change message sent with the edit, and events for title and settings
+// changes and restores (see NoteHistoryEvent). Used by the server to build
+// history entries and by the history page to describe them.
+
+import type { NoteChanges, NoteHistoryEvent, StoredNote } from "@/lib/store";
+
+export const MAX_AUTHOR_LENGTH = 60;
+export const MAX_CHANGE_MESSAGE_LENGTH = 200;
+
+// Body fields that set or remove a secret, and the secret they belong to
+const PASSWORD_SECRETS = {
+  viewPassword: "view",
+  editPassword: "edit",
+  ownerPassword: "owner",
+} as const;
+
+/**
+ * Validates the author label and change message sent with an edit.
+ * @returns The trimmed values (missing when empty), or an error message.
+ */
+export function parseChangeDetails(
+  author: unknown,
+  message: unknown
+): { author?: string; message?: string } | { error: string } {
+  if (author != null && typeof author !== "string") {
+    return { error: "author must be a string." };
+  }
+  if (message != null && typeof message !== "string") {
+    return { error: "message must be a string." };
+  }
+  const trimmedAuthor = author?.trim();
+  const trimmedMessage = message?.trim();
+  if (trimmedAuthor && trimmedAuthor.length > MAX_AUTHOR_LENGTH) {
+    return { error: `author can be at most ${MAX_AUTHOR_LENGTH} characters.` };
+  }
+  if (trimmedMessage && trimmedMessage.length > MAX_CHANGE_MESSAGE_LENGTH) {
+    return {
+      error: `message can be at most ${MAX_CHANGE_MESSAGE_LENGTH} characters.`,
+    };
+  }
+  return {
+    author: trimmedAuthor || undefined,
+    message: trimmedMessage || undefined,
+  };
+}
+
+/**
+ * Lists the title and settings changes an update makes to a note. Secrets
+ * are not part of `changes` in a comparable form, so they are passed as the
+ * requested updates (a string sets a secret, null removes it).
+ */
+export function getHistoryEvents(
+  note: StoredNote,
+  changes: NoteChanges,
+  secretUpdates: Partial<Record<keyof typeof PASSWORD_SECRETS, string | null>>
+): NoteHistoryEvent[] {
+  const events: NoteHistoryEvent[] = [];
+  if (changes.title !== undefined && changes.title !== note.title) {
+    events.push({ type: "title", from: note.title, to: changes.title });
+  }
+  if (changes.tags !== undefined) {
+    events.push({ type: "tags", from: note.tags || [], to: changes.tags });
+  }
+  if (changes.notebook !== undefined) {
+    events.push({
+      type: "notebook",
+      from: note.notebook ?? null,
+      to: changes.notebook,
+    });
+  }
+  if (changes.expiresAt !== undefined) {
+    const from = note.expiresAt ? note.expiresAt.toISOString() : null;
+    const to = changes.expiresAt ? changes.expiresAt.toISOString() : null;
+    if (from !== to) {
+      events.push({ type: "expiresAt", from, to });
+    }
+  }
+  for (const [field, value] of Object.entries(secretUpdates) as [
+    keyof typeof PASSWORD_SECRETS,
+    string | null,
+  ][]) {
+    events.push({
+      type: "password",
+      secret: PASSWORD_SECRETS[field],
+      action: value === null ? "removed" : "set",
+    });
+  }
+  return events;
+}
+
+/**
+ * Formats a date of an expiresAt event for the history page.
+ */
+function formatExpiry(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+/**
+ * Describes an event in a short sentence for the history timeline.
+ */
+export function describeHistoryEvent(event: NoteHistoryEvent): string {
+  switch (event.type) {
+    case "title":
+      return `Renamed from "${event.from}" to "${event.to}"`;
+    case "tags":
+      return event.to.length > 0
+        ? `Tags changed to ${event.to.join(", ")}`
+        : "Tags removed";
+    case "notebook":
+      return event.to
+        ? `Moved to notebook "${event.to}"`
+        : `Removed from notebook "${event.from}"`;
+    case "expiresAt":
+      if (!event.to) {
+        return "Expiration removed";
+      }
+      return event.from
+        ? `Expiration changed from ${formatExpiry(event.from)} to ${formatExpiry(event.to)}`
+        : `Expiration set to ${formatExpiry(event.to)}`;
+    case "password":
+      return `${event.secret[0].toUpperCase()}${event.secret.slice(1)} password ${event.action}`;
+    case "restored":
+      return `Restored from version ${event.version}`;
+  }
+}
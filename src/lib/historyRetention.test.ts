@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getCoalesceWindowMs,
+  getDefaultRetention,
+  getHistoryRetention,
+  parseHistoryRetention,
+} from './historyRetention';
+import type { StoredNote } from '@/lib/store';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getDefaultRetention', () => {
+  it('keeps every version when nothing is configured', () => {
+    vi.stubEnv('NOTE_HISTORY_KEEP_LAST', '');
+    vi.stubEnv('NOTE_HISTORY_KEEP_DAYS', '');
+    vi.stubEnv('NOTE_HISTORY_THIN_DAILY', '');
+    expect(getDefaultRetention()).toBeNull();
+  });
+
+  it('reads the policy from the environment', () => {
+    vi.stubEnv('NOTE_HISTORY_KEEP_LAST', '10.7');
+    vi.stubEnv('NOTE_HISTORY_KEEP_DAYS', '30');
+    vi.stubEnv('NOTE_HISTORY_THIN_DAILY', 'true');
+    expect(getDefaultRetention()).toEqual({ keepLast: 10, keepDays: 30, thinDaily: true });
+  });
+
+  it('ignores invalid values', () => {
+    vi.stubEnv('NOTE_HISTORY_KEEP_LAST', '-3');
+    vi.stubEnv('NOTE_HISTORY_KEEP_DAYS', 'forever');
+    vi.stubEnv('NOTE_HISTORY_THIN_DAILY', 'yes');
+    expect(getDefaultRetention()).toBeNull();
+  });
+});
+
+describe('getHistoryRetention', () => {
+  it("prefers the note's own policy over the default", () => {
+    vi.stubEnv('NOTE_HISTORY_KEEP_LAST', '5');
+    const note = { slug: 'a', historyRetention: { keepDays: 3 } } as StoredNote;
+    expect(getHistoryRetention(note)).toEqual({ keepDays: 3 });
+    expect(getHistoryRetention({ ...note, historyRetention: null })).toEqual({ keepLast: 5 });
+  });
+});
+
+describe('getCoalesceWindowMs', () => {
+  it('defaults to a minute', () => {
+    vi.stubEnv('NOTE_HISTORY_COALESCE_SECONDS', '');
+    expect(getCoalesceWindowMs()).toBe(60 * 1000);
+  });
+
+  it('can be turned off', () => {
+    vi.stubEnv('NOTE_HISTORY_COALESCE_SECONDS', '0');
+    expect(getCoalesceWindowMs()).toBeUndefined();
+  });
+});
+
+describe('parseHistoryRetention', () => {
+  it('accepts a valid policy', () => {
+    expect(parseHistoryRetention({ keepLast: 20, keepDays: 1.5, thinDaily: true })).toEqual({
+      retention: { keepLast: 20, keepDays: 1.5, thinDaily: true },
+    });
+  });
+
+  it('accepts null to fall back to the default', () => {
+    expect(parseHistoryRetention(null)).toEqual({ retention: null });
+  });
+
+  it('rejects invalid policies', () => {
+    expect(parseHistoryRetention([])).toEqual({ error: 'retention must be an object or null.' });
+    expect(parseHistoryRetention({ keepLast: 2.5 })).toHaveProperty('error');
+    expect(parseHistoryRetention({ keepDays: 0 })).toHaveProperty('error');
+    expect(parseHistoryRetention({ thinDaily: 'yes' })).toEqual({ error: 'thinDaily must be a boolean.' });
+  });
+});
@@ -0,0 +1,114 @@
+// src/lib/historyRetention.ts
+// How much note history is kept. The server's default policy is set with
+// NOTE_HISTORY_KEEP_LAST, NOTE_HISTORY_KEEP_DAYS and NOTE_HISTORY_THIN_DAILY
+// (all unset: every version is kept), and a note's owner can give the note a
+// policy of its own instead (see HistoryRetention). The policy is applied
+// after every new version. Separately, saves by the same author within
+// NOTE_HISTORY_COALESCE_SECONDS (default 60, 0 to turn off) of the latest
+// version replace it instead of adding a version each.
+
+import { getNoteStore, HistoryRetention, StoredNote } from '@/lib/store';
+
+const DEFAULT_COALESCE_SECONDS = 60;
+const MAX_KEEP_LAST = 10000;
+const MAX_KEEP_DAYS = 36500;
+
+/**
+ * Reads a positive number from an environment variable.
+ * @returns The number, or undefined if the variable is unset or invalid.
+ */
+function readPositiveNumber(name: string): number | undefined {
+  const value = Number.parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Returns the server's default retention policy, or null if every version is kept.
+ */
+export function getDefaultRetention(): HistoryRetention | null {
+  const keepLast = readPositiveNumber('NOTE_HISTORY_KEEP_LAST');
+  const keepDays = readPositiveNumber('NOTE_HISTORY_KEEP_DAYS');
+  const thinDaily = ['1', 'true'].includes(process.env.NOTE_HISTORY_THIN_DAILY || '');
+  if (keepLast === undefined && keepDays === undefined && !thinDaily) {
+    return null;
+  }
+  return {
+    ...(keepLast !== undefined ? { keepLast: Math.floor(keepLast) } : {}),
+    ...(keepDays !== undefined ? { keepDays } : {}),
+    ...(thinDaily ? { thinDaily } : {}),
+  };
+}
+
+/**
+ * Returns the policy that applies to a note: its own, or else the default.
+ */
+export function getHistoryRetention(note: StoredNote): HistoryRetention | null {
+  return note.historyRetention ?? getDefaultRetention();
+}
+
+/**
+ * Returns how recent the latest version must be for a save to replace it.
+ * @returns The window in milliseconds, or undefined if saves are never coalesced.
+ */
+export function getCoalesceWindowMs(): number | undefined {
+  const raw = process.env.NOTE_HISTORY_COALESCE_SECONDS;
+  const seconds = raw ? Number.parseFloat(raw) : DEFAULT_COALESCE_SECONDS;
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Checks that a value is a number above 0 and at most `max`.
+ */
+function isPositiveNumber(value: unknown, max: number): value is number {
+  return typeof value === 'number' && value > 0 && value <= max;
+}
+
+/**
+ * Validates a note's own retention policy as sent by its owner. An empty
+ * policy keeps every version; null removes the note's policy, so the
+ * default applies again.
+ */
+export function parseHistoryRetention(
+  value: unknown
+): { retention: HistoryRetention | null } | { error: string } {
+  if (value === null) {
+    return { retention: null };
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'retention must be an object or null.' };
+  }
+  const { keepLast, keepDays, thinDaily } = value as Record<string, unknown>;
+  if (keepLast != null && !(isPositiveNumber(keepLast, MAX_KEEP_LAST) && Number.isInteger(keepLast))) {
+    return { error: `keepLast must be a whole number from 1 to ${MAX_KEEP_LAST}.` };
+  }
+  if (keepDays != null && !isPositiveNumber(keepDays, MAX_KEEP_DAYS)) {
+    return { error: `keepDays must be a positive number of days, at most ${MAX_KEEP_DAYS}.` };
+  }
+  if (thinDaily != null && typeof thinDaily !== 'boolean') {
+    return { error: 'thinDaily must be a boolean.' };
+  }
+  return {
+    retention: {
+      ...(keepLast != null ? { keepLast } : {}),
+      ...(keepDays != null ? { keepDays } : {}),
+      ...(thinDaily ? { thinDaily } : {}),
+    },
+  };
+}
+
+/**
+ * Removes the versions of a note its retention policy no longer keeps.
+ * Called after a new version is saved; a failure is only logged, since the
+ * next save prunes again.
+ */
+export async function applyHistoryRetention(note: StoredNote): Promise<void> {
+  const retention = getHistoryRetention(note);
+  if (!retention) {
+    return;
+  }
+  try {
+    await getNoteStore().pruneHistory(note.slug, retention, new Date());
+  } catch (error: unknown) {
+    console.error('Error applying history retention:', error);
+  }
+}
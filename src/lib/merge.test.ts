@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { threeWayMerge } from './merge';
+
+const base = 'The quick brown fox\njumps over\nthe lazy dog.';
+
+describe('threeWayMerge', () => {
+  it('takes their version when only they changed the note', () => {
+    const theirs = base.replace('lazy', 'sleepy');
+    expect(threeWayMerge(base, base, theirs)).toEqual({ merged: theirs, clean: true });
+  });
+
+  it('takes my version when only I changed the note', () => {
+    const mine = base.replace('quick', 'slow');
+    expect(threeWayMerge(base, mine, base)).toEqual({ merged: mine, clean: true });
+  });
+
+  it('merges changes to different parts of the note cleanly', () => {
+    const mine = base.replace('quick', 'slow');
+    const theirs = base.replace('lazy', 'sleepy');
+    expect(threeWayMerge(base, mine, theirs)).toEqual({
+      merged: 'The slow brown fox\njumps over\nthe sleepy dog.',
+      clean: true,
+    });
+  });
+
+  it('flags changes to the same part of the note', () => {
+    const mine = base.replace('brown fox', 'red fox');
+    const theirs = base.replace('brown fox', 'grey fox');
+    expect(threeWayMerge(base, mine, theirs).clean).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+// src/lib/merge.ts
+// Three-way merge of note content using diff-match-patch.
+// Used by the edit page when a save is rejected because someone else saved
+// first: the user's changes (base -> mine) are re-applied on top of the
+// server's version (theirs).
+
+import { diff_match_patch, DIFF_DELETE, DIFF_EQUAL, DIFF_INSERT } from "diff-match-patch";
+
+const dmp = new diff_match_patch();
+
+export interface MergeResult {
+  merged: string; // Best-effort merged text
+  clean: boolean; // false if both sides changed the same region
+}
+
+/**
+ * Returns the regions of `base` (as [start, end) offsets) touched by the diff to `other`.
+ * Pure insertions are zero-length regions at the insertion point.
+ */
+function changedRegions(base: string, other: string): Array<[number, number]> {
+  const diffs = dmp.diff_main(base, other);
+  dmp.diff_cleanupSemantic(diffs);
+
+  const regions: Array<[number, number]> = [];
+  let offset = 0;
+  for (const [op, text] of diffs) {
+    if (op === DIFF_EQUAL) {
+      offset += text.length;
+    } else if (op === DIFF_DELETE) {
+      regions.push([offset, offset + text.length]);
+      offset += text.length;
+    } else if (op === DIFF_INSERT) {
+      regions.push([offset, offset]);
+    }
+  }
+  return regions;
+}
+
+/**
+ * Checks whether any region changed on one side touches a region changed on the other.
+ */
+function regionsOverlap(a: Array<[number, number]>, b: Array<[number, number]>): boolean {
+  return a.some(([aStart, aEnd]) =>
+    b.some(([bStart, bEnd]) => aStart <= bEnd && bStart <= aEnd)
+  );
+}
+
+/**
+ * Merges the changes made from `base` to `mine` into `theirs`.
+ * @param base The version both sides started from.
+ * @param mine The local edit.
+ * @param theirs The version that was saved in the meantime.
+ */
+export function threeWayMerge(base: string, mine: string, theirs: string): MergeResult {
+  if (mine === theirs || base === theirs) {
+    return { merged: mine, clean: true };
+  }
+  if (base === mine) {
+    return { merged: theirs, clean: true };
+  }
+
+  const patches = dmp.patch_make(base, mine);
+  const [merged, applied] = dmp.patch_apply(patches, theirs);
+  const clean =
+    applied.every(Boolean) &&
+    !regionsOverlap(changedRegions(base, mine), changedRegions(base, theirs));
+
+  return { merged, clean };
+}
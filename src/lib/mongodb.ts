@@ -1,18 +1,12 @@
 // src/lib/mongodb.ts
 import { MongoClient, Db } from 'mongodb';
 
-// Ensure MONGODB_URI and MONGODB_DB are defined in your .env.local
+// Ensure MONGODB_URI and MONGODB_DB are defined in your .env.local.
+// They are only checked when a connection is actually requested, so other
+// storage backends (see src/lib/store) work without them.
 const uri: string | undefined = process.env.MONGODB_URI;
 const dbName: string | undefined = process.env.MONGODB_DB;
 
-if (!uri) {
-  throw new Error('Please define the MONGODB_URI environment variable inside .env.local');
-}
-
-if (!dbName) {
-  throw new Error('Please define the MONGODB_DB environment variable inside .env.local');
-}
-
 // Cached connection to reuse across requests
 let cachedClient: MongoClient | null = null;
 let cachedDb: Db | null = null;
@@ -23,6 +17,14 @@ let cachedDb: Db | null = null;
  * @returns {Promise<{client: MongoClient, db: Db}>} The connected MongoClient and Db instance.
  */
 export async function connectToDatabase() {
+  if (!uri) {
+    throw new Error('Please define the MONGODB_URI environment variable inside .env.local');
+  }
+
+  if (!dbName) {
+    throw new Error('Please define the MONGODB_DB environment variable inside .env.local');
+  }
+
   // If a connection is already cached, return it
   if (cachedClient && cachedDb) {
     console.log('Using cached MongoDB connection.');
@@ -31,10 +33,10 @@ export async function connectToDatabase() {
 
   // If no connection is cached, create a new one
   console.log('Establishing new MongoDB connection...');
-  const client = new MongoClient(uri as string); // Assert uri as string since we checked it
+  const client = new MongoClient(uri);
   await client.connect();
 
-  const db = client.db(dbName as string); // Assert dbName as string
+  const db = client.db(dbName);
 
   // Cache the new connection
   cachedClient = client;
@@ -0,0 +1,293 @@
+// src/lib/noteAuth.ts
+// Access control shared by the note API routes.
+//
+// A note can have up to three optional secrets:
+//   - view:  required to read the note and its history
+//   - edit:  required to change the note (also grants view)
+//   - owner: required to change secrets or delete the note (grants everything)
+// A level without a secret of its own is guarded by the next weaker secret
+// the note has (owner falls back to edit, edit to view), so a secret always
+// closes the levels above it too. Levels below the weakest secret stay open.
+// Notes created before separate secrets existed have a single `passwordHash`
+// that acts as both the view and the edit secret.
+// Wherever a password is accepted, a signed share token (see src/lib/shareTokens)
+// is accepted too, limited to its scope; share tokens never grant owner access.
+// An unlock session cookie (see src/lib/unlockSession) stands in for the
+// password it was issued for until it expires.
+
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { createHash } from 'crypto';
+import { getNoteStore, ShareScope, StoredNote } from '@/lib/store';
+import { getShareLinkProblem, parseShareToken, scopeAllows } from '@/lib/shareTokens';
+import { readUnlockSession, setUnlockSessionCookie } from '@/lib/unlockSession';
+
+export type NoteAccess = 'view' | 'edit' | 'owner';
+
+const ACCESS_LEVELS: NoteAccess[] = ['view', 'edit', 'owner'];
+
+/**
+ * Returns the hash of the secret that guards an access level, if the level is guarded.
+ */
+function guardingHash(note: StoredNote, access: NoteAccess): string | null | undefined {
+  const viewHash = note.viewPasswordHash ?? note.passwordHash;
+  const editHash = note.editPasswordHash ?? viewHash;
+  return {
+    view: viewHash,
+    edit: editHash,
+    owner: note.ownerPasswordHash ?? editHash,
+  }[access];
+}
+
+/**
+ * Returns the hashes of all secrets that grant an access level.
+ * Stronger secrets grant the weaker levels too.
+ */
+function grantingHashes(note: StoredNote, access: NoteAccess): string[] {
+  const levels = ACCESS_LEVELS.slice(ACCESS_LEVELS.indexOf(access));
+  const hashes = levels.map((level) => guardingHash(note, level));
+  return Array.from(new Set(hashes.filter((hash): hash is string => !!hash)));
+}
+
+/**
+ * Checks whether an access level needs a secret at all.
+ */
+export function requiresSecret(note: StoredNote, access: NoteAccess): boolean {
+  return !!guardingHash(note, access);
+}
+
+/**
+ * Checks whether a secret grants an access level to a note.
+ * @param secret The secret supplied by the client, if any.
+ */
+export async function hasAccess(note: StoredNote, access: NoteAccess, secret?: string | null): Promise<boolean> {
+  if (!requiresSecret(note, access)) {
+    return true;
+  }
+  if (!secret) {
+    return false;
+  }
+  const shareToken = parseShareToken(secret, note.slug);
+  if (shareToken) {
+    // Revocation and uses are only checked when the token is actually used
+    return access !== 'owner' && shareToken.exp > Date.now() && scopeAllows(shareToken.scope, toShareScope(access));
+  }
+  for (const hash of grantingHashes(note, access)) {
+    if (await bcrypt.compare(secret, hash)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks whether one access level includes another.
+ */
+function includesAccess(granted: NoteAccess, needed: NoteAccess): boolean {
+  return ACCESS_LEVELS.indexOf(granted) >= ACCESS_LEVELS.indexOf(needed);
+}
+
+/**
+ * Fingerprints the secret guarding an access level, so unlock sessions end
+ * when that secret changes. Reveals nothing usable about the secret.
+ */
+function getSecretFingerprint(note: StoredNote, access: NoteAccess): string {
+  return createHash('sha256')
+    .update(guardingHash(note, access) || '')
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+/**
+ * Returns the access level granted by the request's unlock session for a note, if any.
+ */
+function getUnlockedAccess(req: NextRequest, note: StoredNote): NoteAccess | null {
+  const session = readUnlockSession(req, note.slug);
+  if (!session || !ACCESS_LEVELS.includes(session.access)) {
+    return null;
+  }
+  return session.fingerprint === getSecretFingerprint(note, session.access) ? session.access : null;
+}
+
+/**
+ * Starts an unlock session for a note on a response.
+ */
+export function startUnlockSession(response: NextResponse, note: StoredNote, access: NoteAccess, expiresAt: Date): void {
+  setUnlockSessionCookie(response, note.slug, access, getSecretFingerprint(note, access), expiresAt);
+}
+
+/**
+ * Returns the highest access level a secret grants, or null if it does not even grant view.
+ */
+export async function getGrantedAccess(note: StoredNote, secret?: string | null): Promise<NoteAccess | null> {
+  let granted: NoteAccess | null = null;
+  for (const access of ACCESS_LEVELS) {
+    if (!(await hasAccess(note, access, secret))) {
+      break;
+    }
+    granted = access;
+  }
+  return granted;
+}
+
+/**
+ * Returns the highest access level a request has, from its unlock session or
+ * its `Authorization: Bearer` secret, or null if it cannot even view the note.
+ */
+export async function getRequestAccess(req: NextRequest, note: StoredNote): Promise<NoteAccess | null> {
+  const unlocked = getUnlockedAccess(req, note);
+  const granted = await getGrantedAccess(note, getBearerSecret(req));
+  if (unlocked && (!granted || includesAccess(unlocked, granted))) {
+    return unlocked;
+  }
+  return granted;
+}
+
+/**
+ * Checks whether a request may read a note, from its unlock session or a
+ * secret it sent, without counting a use of a share token.
+ * @param secret The secret sent in the body, if any; defaults to the `Authorization: Bearer` one.
+ */
+export async function canViewNote(req: NextRequest, note: StoredNote, secret?: string | null): Promise<boolean> {
+  if (!requiresSecret(note, 'view') || getUnlockedAccess(req, note)) {
+    return true;
+  }
+  return hasAccess(note, 'view', secret || getBearerSecret(req));
+}
+
+/**
+ * Describes which secrets a note has, for API responses.
+ * `isProtected` keeps its original meaning: reading the note needs a secret.
+ */
+export function describeProtection(note: StoredNote) {
+  return {
+    isProtected: requiresSecret(note, 'view'),
+    isEditProtected: requiresSecret(note, 'edit'),
+    hasOwnerPassword: !!note.ownerPasswordHash,
+  };
+}
+
+/**
+ * Returns the share scope that covers an access level by default.
+ */
+function toShareScope(access: NoteAccess): ShareScope {
+  return access === 'view' ? 'view' : 'edit';
+}
+
+/**
+ * Authorizes a request made with a share token and counts one use of it.
+ * @param shareScope The scope the request needs, e.g. 'history' for the history route.
+ * @returns A NextResponse if the token cannot be used for this request, otherwise null.
+ */
+async function checkShareToken(
+  note: StoredNote,
+  secret: string,
+  access: NoteAccess,
+  shareScope: ShareScope
+): Promise<NextResponse | null | undefined> {
+  const shareToken = parseShareToken(secret, note.slug);
+  if (!shareToken) {
+    return undefined; // Not a share token, treat it as a password
+  }
+  if (access === 'owner' || !scopeAllows(shareToken.scope, shareScope)) {
+    return NextResponse.json({ message: 'This share link does not allow that.' }, { status: 403 });
+  }
+  const now = new Date();
+  if (shareToken.exp <= now.getTime() || !(await getNoteStore().consumeShareLink(note.slug, shareToken.id, now))) {
+    return NextResponse.json(
+      { message: getShareLinkProblem(note, shareToken.id, now) ?? 'Share link has expired.' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
+
+/**
+ * Reads the secret from an `Authorization: Bearer <secret>` header.
+ */
+export function getBearerSecret(req: NextRequest): string | undefined {
+  const authHeader = req.headers.get('Authorization');
+  return authHeader?.split(' ')[1];
+}
+
+/**
+ * Checks the `Authorization: Bearer <secret>` header against a note.
+ * @param req The NextRequest object.
+ * @param note The note being accessed.
+ * @param access The access level the request needs.
+ * @param shareScope The scope a share token needs instead of a password.
+ * @returns A 401 (or 403) NextResponse if access is denied, otherwise null.
+ */
+export async function checkBearerPassword(
+  req: NextRequest,
+  note: StoredNote,
+  access: NoteAccess = 'view',
+  shareScope: ShareScope = toShareScope(access)
+): Promise<NextResponse | null> {
+  if (!requiresSecret(note, access)) {
+    return null;
+  }
+
+  const unlocked = getUnlockedAccess(req, note);
+  if (unlocked && includesAccess(unlocked, access)) {
+    return null;
+  }
+
+  const token = getBearerSecret(req);
+
+  if (!token) {
+    return NextResponse.json({ message: 'Password required.' }, { status: 401 });
+  }
+
+  const shareTokenResponse = await checkShareToken(note, token, access, shareScope);
+  if (shareTokenResponse !== undefined) {
+    return shareTokenResponse;
+  }
+
+  if (!(await hasAccess(note, access, token))) {
+    return NextResponse.json({ message: 'Invalid password.' }, { status: 401 });
+  }
+
+  return null;
+}
+
+/**
+ * Checks a secret sent in a request body (e.g. `currentPassword`) against a
+ * note. An unlock session with enough access makes the secret unnecessary.
+ * @param action Describes the action in the error message, e.g. 'update this note'.
+ * @returns A 401 (or 403) NextResponse if access is denied, otherwise null.
+ */
+export async function checkBodyPassword(
+  req: NextRequest,
+  note: StoredNote,
+  access: NoteAccess,
+  secret: string | undefined,
+  action: string
+): Promise<NextResponse | null> {
+  if (!requiresSecret(note, access)) {
+    return null;
+  }
+  const unlocked = getUnlockedAccess(req, note);
+  if (unlocked && includesAccess(unlocked, access)) {
+    return null;
+  }
+  const label = access === 'owner' && note.ownerPasswordHash ? 'Owner password' : 'Current password';
+  if (!secret) {
+    return NextResponse.json({ message: `${label} required to ${action}.` }, { status: 401 });
+  }
+  const shareTokenResponse = await checkShareToken(note, secret, access, toShareScope(access));
+  if (shareTokenResponse !== undefined) {
+    return shareTokenResponse;
+  }
+  if (!(await hasAccess(note, access, secret))) {
+    return NextResponse.json({ message: 'Incorrect password.' }, { status: 401 });
+  }
+  return null;
+}
+
+/**
+ * Hashes a new secret for storage.
+ */
+export function hashSecret(secret: string): Promise<string> {
+  return bcrypt.hash(secret, 10);
+}
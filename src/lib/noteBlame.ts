@@ -0,0 +1,76 @@
+// src/lib/noteBlame.ts
+// Blame for notes: attributes each line of a version to the version that last
+// changed it, by replaying the history with line diffs (diff-match-patch on
+// whole lines). Computed by the history blame API
+// (GET /api/notes/[slug]/history/blame), and in the browser for encrypted
+// notes, whose versions the server cannot read.
+
+import {
+  diff_match_patch,
+  DIFF_DELETE,
+  DIFF_EQUAL,
+  DIFF_INSERT,
+} from "diff-match-patch";
+
+const dmp = new diff_match_patch();
+
+export interface BlameLine {
+  line: number; // Numbered from 1
+  text: string;
+  version: number; // The version that last changed the line
+}
+
+/**
+ * Splits text into lines, without their line breaks.
+ */
+function splitLines(text: string): string[] {
+  return text.length > 0 ? text.replace(/\n$/, "").split("\n") : [];
+}
+
+/**
+ * Attributes each line of the last of a run of versions to the version that
+ * last changed it. A line only counts as changed when its text changes, not
+ * when a line break is added after it.
+ * @param versions Versions in the order they were saved, oldest first.
+ */
+export function blameNoteContent(
+  versions: { version: number; content: string }[]
+): BlameLine[] {
+  let blamed: { text: string; version: number }[] = [];
+  let previousContent = "";
+
+  for (const { version, content } of versions) {
+    // Compare whole lines, each ending in a line break
+    const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(
+      splitLines(previousContent).join("\n") + "\n",
+      splitLines(content).join("\n") + "\n"
+    );
+    const diffs = dmp.diff_main(chars1, chars2, false);
+
+    const next: typeof blamed = [];
+    let oldIndex = 0;
+    for (const [op, chars] of diffs) {
+      for (const char of chars.split("")) {
+        const text = lineArray[char.charCodeAt(0)].replace(/\n$/, "");
+        if (op === DIFF_EQUAL) {
+          next.push(blamed[oldIndex++] ?? { text, version });
+        } else if (op === DIFF_DELETE) {
+          oldIndex++;
+        } else if (op === DIFF_INSERT) {
+          next.push({ text, version });
+        }
+      }
+    }
+
+    blamed = splitLines(content).map(
+      (text, index) => next[index] ?? { text, version }
+    );
+    previousContent = content;
+  }
+
+  return blamed.map(({ text, version }, index) => ({
+    line: index + 1,
+    text,
+    version,
+  }));
+}
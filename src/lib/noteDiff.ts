@@ -0,0 +1,275 @@
+// src/lib/noteDiff.ts
+// Line diffs between two versions of a note, using diff-match-patch on whole
+// lines. Changes are grouped into hunks with a few lines of context, like
+// `diff -u`, and each changed line paired with a line on the other side also
+// gets a word-level diff for highlighting. Computed by the history diff API
+// (GET /api/notes/[slug]/history/diff), and in the browser for encrypted
+// notes, whose versions the server cannot read.
+
+import {
+  diff_match_patch,
+  DIFF_DELETE,
+  DIFF_EQUAL,
+  DIFF_INSERT,
+} from "diff-match-patch";
+
+const dmp = new diff_match_patch();
+
+export const DEFAULT_DIFF_CONTEXT = 3;
+export const MAX_DIFF_CONTEXT = 100;
+
+// Words, runs of whitespace and single punctuation characters
+const WORD_PATTERN = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string; // Without its line break
+  oldLine?: number; // Line number in the old version, missing on added lines
+  newLine?: number; // Line number in the new version, missing on removed lines
+  noNewline?: boolean; // The last line of its version, without a line break
+  segments?: DiffSegment[]; // Word-level changes against the paired line
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface NoteDiff {
+  additions: number; // Added lines
+  deletions: number; // Removed lines
+  hunks: DiffHunk[];
+}
+
+/**
+ * Reads the ?context= parameter of a diff: how many unchanged lines to show
+ * around each change.
+ */
+export function parseDiffContext(value: string | null): number {
+  const context = Number(value);
+  if (!value || !Number.isInteger(context) || context < 0) {
+    return DEFAULT_DIFF_CONTEXT;
+  }
+  return Math.min(context, MAX_DIFF_CONTEXT);
+}
+
+/**
+ * Splits text into lines, each keeping its line break.
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Diffs two lines word by word. Each word is diffed as a single character, so
+ * changes never start or end in the middle of a word.
+ * @returns The segments of the old line and of the new line.
+ */
+function diffWords(
+  oldText: string,
+  newText: string
+): { removed: DiffSegment[]; added: DiffSegment[] } {
+  const words: string[] = [];
+  const codes = new Map<string, string>();
+  const encode = (text: string) =>
+    (text.match(WORD_PATTERN) || [])
+      .map((word) => {
+        let code = codes.get(word);
+        if (code === undefined) {
+          code = String.fromCharCode(words.length + 1);
+          codes.set(word, code);
+          words.push(word);
+        }
+        return code;
+      })
+      .join("");
+
+  const diffs = dmp.diff_main(encode(oldText), encode(newText), false);
+  dmp.diff_cleanupSemantic(diffs);
+
+  const removed: DiffSegment[] = [];
+  const added: DiffSegment[] = [];
+  for (const [op, codedText] of diffs) {
+    const text = codedText
+      .split("")
+      .map((code) => words[code.charCodeAt(0) - 1])
+      .join("");
+    if (op === DIFF_EQUAL) {
+      removed.push({ type: "equal", text });
+      added.push({ type: "equal", text });
+    } else if (op === DIFF_DELETE) {
+      removed.push({ type: "delete", text });
+    } else if (op === DIFF_INSERT) {
+      added.push({ type: "insert", text });
+    }
+  }
+  return { removed, added };
+}
+
+/**
+ * Adds word-level diffs to a run of removed and added lines, pairing them in
+ * order.
+ */
+function addWordDiffs(removed: DiffLine[], added: DiffLine[]): void {
+  for (let index = 0; index < Math.min(removed.length, added.length); index++) {
+    const segments = diffWords(removed[index].text, added[index].text);
+    removed[index].segments = segments.removed;
+    added[index].segments = segments.added;
+  }
+}
+
+/**
+ * Lists every line of both versions in diff order: unchanged lines once, and
+ * each run of changes as its removed lines followed by its added lines.
+ */
+function diffLines(oldText: string, newText: string): DiffLine[] {
+  const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(
+    oldText,
+    newText
+  );
+  const diffs = dmp.diff_main(chars1, chars2, false);
+  dmp.diff_charsToLines_(diffs, lineArray);
+
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flushChanges = () => {
+    addWordDiffs(removed, added);
+    lines.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  for (const [op, text] of diffs) {
+    for (const rawLine of splitLines(text)) {
+      const line: DiffLine = {
+        type: "context",
+        text: rawLine.replace(/\n$/, ""),
+        ...(rawLine.endsWith("\n") ? {} : { noNewline: true }),
+      };
+      if (op === DIFF_EQUAL) {
+        flushChanges();
+        lines.push({ ...line, oldLine: ++oldLine, newLine: ++newLine });
+      } else if (op === DIFF_DELETE) {
+        removed.push({ ...line, type: "remove", oldLine: ++oldLine });
+      } else if (op === DIFF_INSERT) {
+        added.push({ ...line, type: "add", newLine: ++newLine });
+      }
+    }
+  }
+  flushChanges();
+  return lines;
+}
+
+/**
+ * Builds a hunk from a run of diff lines.
+ * @param oldBefore How many lines of the old version come before it.
+ * @param newBefore How many lines of the new version come before it.
+ */
+function toHunk(
+  lines: DiffLine[],
+  oldBefore: number,
+  newBefore: number
+): DiffHunk {
+  const oldLines = lines.filter((line) => line.type !== "add").length;
+  const newLines = lines.filter((line) => line.type !== "remove").length;
+  return {
+    // An empty side starts at the line before it, as in `diff -u`
+    oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+    oldLines,
+    newStart: newLines > 0 ? newBefore + 1 : newBefore,
+    newLines,
+    lines,
+  };
+}
+
+/**
+ * Compares two versions of a note's content.
+ * @param context How many unchanged lines to keep around each change.
+ */
+export function diffNoteContent(
+  oldText: string,
+  newText: string,
+  context: number = DEFAULT_DIFF_CONTEXT
+): NoteDiff {
+  const lines = diffLines(oldText, newText);
+
+  // Ranges of lines to show: every change with its context, merged when they touch
+  const ranges: [number, number][] = [];
+  lines.forEach((line, index) => {
+    if (line.type === "context") {
+      return;
+    }
+    const start = Math.max(index - context, 0);
+    const end = Math.min(index + context, lines.length - 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  const hunks = ranges.map(([start, end]) => {
+    const before = lines.slice(0, start);
+    return toHunk(
+      lines.slice(start, end + 1),
+      before.filter((line) => line.type !== "add").length,
+      before.filter((line) => line.type !== "remove").length
+    );
+  });
+
+  return {
+    additions: lines.filter((line) => line.type === "add").length,
+    deletions: lines.filter((line) => line.type === "remove").length,
+    hunks,
+  };
+}
+
+/**
+ * Formats a hunk's line range for its `@@` header.
+ */
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Formats a diff as a standard unified diff, which `patch` and `git apply`
+ * understand. Identical versions give an empty diff, like `diff -u`.
+ * @param oldLabel File name shown on the `---` line.
+ * @param newLabel File name shown on the `+++` line.
+ */
+export function formatUnifiedDiff(
+  diff: NoteDiff,
+  oldLabel: string,
+  newLabel: string
+): string {
+  if (diff.hunks.length === 0) {
+    return "";
+  }
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const hunk of diff.hunks) {
+    output.push(
+      `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`
+    );
+    for (const line of hunk.lines) {
+      const prefix =
+        line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+      output.push(`${prefix}${line.text}`);
+      if (line.noNewline) {
+        output.push("\\ No newline at end of file");
+      }
+    }
+  }
+  return `${output.join("\n")}\n`;
+}
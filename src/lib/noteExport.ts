@@ -0,0 +1,179 @@
+// src/lib/noteExport.ts
+// Builds the downloadable files for GET /api/notes/[slug]/export: the note as
+// Markdown, a self-contained HTML document, plain text or JSON. Wiki links
+// (see src/lib/wikiLinks) become absolute links to the notes, so they keep
+// working outside the site. Also picks and renders the raw representations
+// GET /api/notes/[slug] serves instead of JSON for the matching Accept header.
+
+import React from 'react';
+import NoteExportDocument, { NOTE_EXPORT_STYLES } from '@/components/NoteExportDocument';
+import type { StoredNote } from '@/lib/store';
+import { wikiLinksToMarkdown } from '@/lib/wikiLinks';
+
+export const EXPORT_FORMATS = ['md', 'html', 'txt', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportFile {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+// Media types GET /api/notes/[slug] can answer with instead of JSON
+export type RawNoteType = 'text/markdown' | 'text/plain' | 'text/html';
+
+const RAW_NOTE_TYPES: Record<string, RawNoteType> = {
+  'text/markdown': 'text/markdown',
+  'text/x-markdown': 'text/markdown',
+  'text/plain': 'text/plain',
+  'text/html': 'text/html',
+  'text/*': 'text/markdown',
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * Checks whether a requested format is one we can export.
+ */
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Strips Markdown syntax, keeping the text and the targets of links.
+ */
+function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/^(```|~~~).*$/gm, '') // Code fences (the code itself stays)
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, '$1 ($2)') // Links
+    .replace(/^#{1,6}\s+/gm, '') // Headings
+    .replace(/^\s{0,3}>\s?/gm, '') // Blockquotes
+    .replace(/(\*\*|__)(.+?)\1/g, '$2') // Bold
+    .replace(/(^|[^\w*])([*_])(?!\s)(.+?)\2(?!\w)/g, '$1$3') // Italics, leaving snake_case alone
+    .replace(/~~(.+?)~~/g, '$1') // Strikethrough
+    .replace(/`([^`]+)`/g, '$1') // Inline code
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Escapes text for use in HTML.
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders a note in one of the export formats.
+ * @param origin The site's origin, used to make links to other notes absolute.
+ */
+export async function exportNote(note: StoredNote, format: ExportFormat, origin: string): Promise<ExportFile> {
+  const markdown = wikiLinksToMarkdown(note.content).replace(/\]\(\/notes\//g, `](${origin}/notes/`);
+
+  let body: string;
+  switch (format) {
+    case 'md':
+      body = `# ${note.title}\n\n${markdown}\n`;
+      break;
+    case 'html': {
+      // Next.js refuses static imports of react-dom/server in app code
+      const { renderToStaticMarkup } = await import('react-dom/server');
+      const content = renderToStaticMarkup(
+        React.createElement(NoteExportDocument, {
+          title: note.title,
+          markdown,
+          createdAt: note.createdAt,
+          updatedAt: note.updatedAt,
+        })
+      );
+      body = [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8" />',
+        '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+        `<title>${escapeHtml(note.title)}</title>`,
+        `<style>${NOTE_EXPORT_STYLES}</style>`,
+        '</head>',
+        `<body>${content}</body>`,
+        '</html>',
+        '',
+      ].join('\n');
+      break;
+    }
+    case 'txt':
+      body = `${note.title}\n\n${markdownToPlainText(markdown)}\n`;
+      break;
+    case 'json':
+      body = JSON.stringify(
+        {
+          slug: note.slug,
+          title: note.title,
+          content: note.content,
+          tags: note.tags || [],
+          notebook: note.notebook ?? null,
+          createdAt: note.createdAt.toISOString(),
+          updatedAt: note.updatedAt.toISOString(),
+          expiresAt: note.expiresAt ? note.expiresAt.toISOString() : null,
+        },
+        null,
+        2
+      );
+      break;
+  }
+
+  return { body, contentType: CONTENT_TYPES[format], filename: `${note.slug}.${format}` };
+}
+
+/**
+ * Picks the representation asked for by an Accept header. Media types are
+ * tried by quality, then in the order given.
+ * @returns The raw media type to send, or null for the JSON response.
+ */
+export function negotiateRawNoteType(accept: string | null): RawNoteType | null {
+  if (!accept) {
+    return null;
+  }
+  const ranges = accept
+    .split(',')
+    .map(range => {
+      const [mediaType, ...params] = range.split(';').map(part => part.trim().toLowerCase());
+      const quality = params.find(param => param.startsWith('q='));
+      return { mediaType, q: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(range => range.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { mediaType } of ranges) {
+    if (mediaType === 'application/json' || mediaType === 'application/*' || mediaType === '*/*') {
+      return null;
+    }
+    if (RAW_NOTE_TYPES[mediaType]) {
+      return RAW_NOTE_TYPES[mediaType];
+    }
+  }
+  return null;
+}
+
+/**
+ * Renders a note as one of the raw media types. Markdown and plain text are
+ * the note's content as written; HTML is the page built for the HTML export.
+ */
+export async function renderRawNote(
+  note: StoredNote,
+  type: RawNoteType,
+  origin: string
+): Promise<{ body: string; contentType: string }> {
+  if (type === 'text/html') {
+    const { body, contentType } = await exportNote(note, 'html', origin);
+    return { body, contentType };
+  }
+  return { body: note.content, contentType: `${type}; charset=utf-8` };
+}
@@ -0,0 +1,115 @@
+// src/lib/noteImport.ts
+// Helpers for importing Markdown files as notes (POST /api/import). Uploads
+// are `.md` files or zip archives of them (see src/lib/zip). Each file becomes
+// one note: its title comes from the `title:` of its front-matter, else from
+// its first heading, else from the file name, and its slug is proposed from
+// the file name so links between the imported documents can be kept.
+
+import { readZip } from '@/lib/zip';
+
+export const MAX_IMPORT_FILES = 50;
+export const MAX_IMPORT_FILE_BYTES = 1024 * 1024;
+export const MAX_IMPORT_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// A file to import, or the reason it cannot be
+export interface ImportFile {
+  name: string;
+  text?: string;
+  error?: string;
+}
+
+export interface ParsedMarkdownFile {
+  title: string;
+  content: string;
+  proposedSlug: string;
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Checks whether a file looks like Markdown, skipping hidden files and the
+ * metadata macOS adds to archives.
+ */
+export function isMarkdownFileName(name: string): boolean {
+  const parts = name.split('/');
+  return (
+    /\.(md|markdown)$/i.test(name) &&
+    !parts.some(part => part.startsWith('.') || part === '__MACOSX')
+  );
+}
+
+/**
+ * Returns a file's name without its directories and extension.
+ */
+function getBaseName(name: string): string {
+  return (name.split('/').pop() || name).replace(/\.[^.]*$/, '');
+}
+
+/**
+ * Reads the uploaded files, unpacking zip archives.
+ * @throws If an archive cannot be read or there are too many files.
+ */
+export async function collectImportFiles(uploads: File[]): Promise<ImportFile[]> {
+  const files: ImportFile[] = [];
+  for (const upload of uploads) {
+    if (/\.zip$/i.test(upload.name)) {
+      const entries = readZip(Buffer.from(await upload.arrayBuffer()), {
+        include: isMarkdownFileName,
+        maxEntries: MAX_IMPORT_FILES,
+        maxEntryBytes: MAX_IMPORT_FILE_BYTES,
+      });
+      for (const entry of entries) {
+        files.push(
+          entry.data
+            ? { name: entry.name, text: entry.data.toString('utf8') }
+            : { name: entry.name, error: entry.error }
+        );
+      }
+    } else if (!isMarkdownFileName(upload.name)) {
+      files.push({ name: upload.name, error: 'Only .md files and .zip archives can be imported.' });
+    } else if (upload.size > MAX_IMPORT_FILE_BYTES) {
+      files.push({ name: upload.name, error: 'The file is too large.' });
+    } else {
+      files.push({ name: upload.name, text: await upload.text() });
+    }
+
+    if (files.length > MAX_IMPORT_FILES) {
+      throw new Error(`At most ${MAX_IMPORT_FILES} files can be imported at once.`);
+    }
+  }
+  return files;
+}
+
+/**
+ * Splits a Markdown file into the title and content of a note.
+ */
+export function parseMarkdownFile(name: string, text: string): ParsedMarkdownFile {
+  let content = text.replace(/^\uFEFF/, ''); // Byte order mark
+  let title: string | undefined;
+
+  const frontMatter = content.match(FRONT_MATTER_PATTERN);
+  if (frontMatter) {
+    content = content.slice(frontMatter[0].length);
+    const titleLine = frontMatter[1].match(/^title:\s*(.+?)\s*$/m);
+    title = titleLine?.[1].replace(/^(['"])(.*)\1$/, '$2').trim() || undefined;
+  }
+
+  if (!title) {
+    const lines = content.split('\n');
+    const headingIndex = lines.findIndex(line => HEADING_PATTERN.test(line));
+    if (headingIndex !== -1) {
+      title = lines[headingIndex].match(HEADING_PATTERN)![1];
+      // The note page shows the title above the content, so a leading heading would repeat it
+      if (lines.slice(0, headingIndex).every(line => !line.trim())) {
+        content = lines.slice(headingIndex + 1).join('\n');
+      }
+    }
+  }
+
+  return {
+    title: title || getBaseName(name),
+    content: content.trim(),
+    proposedSlug: getBaseName(name),
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { conflictResponse } from './noteResponse';
+import type { StoredNote } from '@/lib/store';
+
+const note = {
+  id: '1',
+  slug: 'secret',
+  title: 'Secret',
+  content: 'top secret content',
+  viewPasswordHash: 'hash',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-02T00:00:00Z'),
+  revision: 4,
+} as StoredNote;
+
+describe('conflictResponse', () => {
+  it("returns the server's version to callers who may read the note", async () => {
+    const response = conflictResponse(note, true);
+    expect(response.status).toBe(409);
+    expect((await response.json()).note).toMatchObject({ title: 'Secret', content: 'top secret content', revision: 4 });
+  });
+
+  it('returns only the revision to callers who may not read the note', async () => {
+    const response = conflictResponse(note, false);
+    expect(response.status).toBe(409);
+    const body = await response.json();
+    expect(body.note).toBeUndefined();
+    expect(body.revision).toBe(4);
+    expect(JSON.stringify(body)).not.toContain('top secret content');
+  });
+});
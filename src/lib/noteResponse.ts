@@ -0,0 +1,45 @@
+// src/lib/noteResponse.ts
+// How notes are returned by the note API routes, shared by the note route and
+// the routes that change a note on its behalf (e.g. restoring a version).
+
+import { NextResponse } from 'next/server';
+import type { StoredNote } from '@/lib/store';
+import { describeProtection } from '@/lib/noteAuth';
+import { formatETag, getRevision } from '@/lib/revision';
+import { getViewsRemaining } from '@/lib/viewLimit';
+
+/**
+ * Shapes a note for API responses (never includes password hashes or history).
+ */
+export function toNoteResponse(note: StoredNote) {
+  return {
+    title: note.title,
+    content: note.content,
+    encrypted: !!note.encrypted,
+    tags: note.tags || [],
+    notebook: note.notebook ?? null,
+    ...describeProtection(note),
+    createdAt: note.createdAt.toISOString(),
+    updatedAt: note.updatedAt.toISOString(),
+    expiresAt: note.expiresAt ? note.expiresAt.toISOString() : undefined,
+    viewsRemaining: getViewsRemaining(note),
+    burnAfterReading: !!note.burnAfterReading,
+    revision: getRevision(note),
+  };
+}
+
+/**
+ * Builds the 409 response for an edit based on a stale revision.
+ * It returns the server's current version so the client can merge, but only
+ * the current revision to callers who may not read the note.
+ * @param canView Whether the caller may read the note (see canViewNote).
+ */
+export function conflictResponse(note: StoredNote, canView: boolean): NextResponse {
+  return NextResponse.json(
+    {
+      message: 'This note was changed by someone else since you loaded it.',
+      ...(canView ? { note: toNoteResponse(note) } : { revision: getRevision(note) }),
+    },
+    { status: 409, headers: { ETag: formatETag(getRevision(note)) } }
+  );
+}
@@ -0,0 +1,51 @@
+// src/lib/notebooks.ts
+// Helpers for notebooks: named collections of notes with an optional password.
+// The notebook password is needed to list a notebook's notes and to move a
+// note into it. It does not protect the notes themselves; they keep their own
+// view, edit and owner passwords.
+
+import { NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { getNoteStore, StoredNotebook } from '@/lib/store';
+
+export const MAX_NOTEBOOK_NAME_LENGTH = 100;
+
+/**
+ * Checks a notebook password.
+ * @returns A 401 NextResponse if the password is missing or wrong, otherwise null.
+ */
+export async function checkNotebookPassword(
+  notebook: StoredNotebook,
+  secret: string | undefined
+): Promise<NextResponse | null> {
+  if (!notebook.passwordHash) {
+    return null;
+  }
+  if (!secret) {
+    return NextResponse.json({ message: 'Notebook password required.' }, { status: 401 });
+  }
+  if (!(await bcrypt.compare(secret, notebook.passwordHash))) {
+    return NextResponse.json({ message: 'Invalid notebook password.' }, { status: 401 });
+  }
+  return null;
+}
+
+/**
+ * Checks that a note may be put into a notebook.
+ * @param notebookSlug The notebook requested by the client.
+ * @param secret The notebook password sent by the client, if any.
+ * @returns A NextResponse if the notebook does not exist or the password is wrong, otherwise null.
+ */
+export async function checkNotebookMembership(
+  notebookSlug: unknown,
+  secret: string | undefined
+): Promise<NextResponse | null> {
+  if (typeof notebookSlug !== 'string') {
+    return NextResponse.json({ message: 'notebook must be a notebook slug.' }, { status: 400 });
+  }
+  const notebook = await getNoteStore().findNotebook(notebookSlug);
+  if (!notebook) {
+    return NextResponse.json({ message: 'Notebook not found.' }, { status: 404 });
+  }
+  return checkNotebookPassword(notebook, secret);
+}
@@ -0,0 +1,155 @@
+// src/lib/rateLimit/index.ts
+// Shared rate limiting for all API routes.
+//
+// Uses a sliding window counter: the count of the current fixed window is
+// combined with the previous window's count, weighted by how much of the
+// previous window still overlaps the sliding window. This avoids the burst
+// allowed at fixed window boundaries while only storing two counters per client.
+// Every route and method is counted separately, so routes sharing a policy do
+// not use up each other's budget.
+//
+// Counters live in the store selected by RATE_LIMIT_STORE ("memory" by default,
+// or "mongo" to share counts between server instances).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/clientIp';
+import { MemoryRateLimitStore } from './memoryStore';
+import { MongoRateLimitStore } from './mongoStore';
+import { getRateLimitPolicy, RateLimitPolicyName } from './policies';
+import type { RateLimitPolicy, RateLimitResult, RateLimitStore } from './types';
+
+export type { RateLimitPolicyName } from './policies';
+export type { RateLimitPolicy, RateLimitResult } from './types';
+
+// Share the store between routes and hot reloads, like the note store
+const globalForRateLimit = globalThis as typeof globalThis & { __rateLimitStore?: RateLimitStore };
+
+/**
+ * Returns the configured rate limit store, creating it on first use.
+ */
+function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimit.__rateLimitStore) {
+    const kind = process.env.RATE_LIMIT_STORE || 'memory';
+    if (kind === 'mongo') {
+      globalForRateLimit.__rateLimitStore = new MongoRateLimitStore();
+    } else if (kind === 'memory') {
+      globalForRateLimit.__rateLimitStore = new MemoryRateLimitStore();
+    } else {
+      throw new Error(`Unknown RATE_LIMIT_STORE '${kind}'. Expected 'memory' or 'mongo'.`);
+    }
+  }
+  return globalForRateLimit.__rateLimitStore;
+}
+
+/**
+ * Counts a request from a client against a policy.
+ * @param clientKey Identifies the client, usually its IP address.
+ * @param policy The policy to enforce.
+ * @param routeKey Identifies the route, so each route is limited separately.
+ */
+export async function checkRateLimit(
+  clientKey: string,
+  policy: RateLimitPolicy,
+  routeKey = ''
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  const now = Date.now();
+  const windowStart = Math.floor(now / policy.windowMs) * policy.windowMs;
+  const bucketPrefix = `${policy.name}:${routeKey}:${clientKey}`;
+
+  // Keep each bucket until it can no longer be the "previous" window
+  const expiresAt = new Date(windowStart + 2 * policy.windowMs);
+  const [currentCount, previousCount] = await Promise.all([
+    store.increment(`${bucketPrefix}:${windowStart}`, expiresAt),
+    store.get(`${bucketPrefix}:${windowStart - policy.windowMs}`),
+  ]);
+
+  const previousWeight = 1 - (now - windowStart) / policy.windowMs;
+  const estimatedCount = previousCount * previousWeight + currentCount;
+
+  return {
+    policy,
+    limited: estimatedCount > policy.limit,
+    remaining: Math.max(0, Math.floor(policy.limit - estimatedCount)),
+    resetSeconds: Math.ceil((windowStart + policy.windowMs - now) / 1000),
+  };
+}
+
+/**
+ * Builds the standard RateLimit-* response headers for a result.
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': result.policy.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': result.resetSeconds.toString(),
+    'RateLimit-Policy': `${result.policy.limit};w=${Math.round(result.policy.windowMs / 1000)}`,
+  };
+}
+
+/**
+ * Identifies the route a request was routed to, e.g. `GET /api/notes/[slug]`,
+ * by putting the names of the route's dynamic segments back into its path.
+ * Requests for different notes thus share the route's budget.
+ */
+async function getRouteKey(req: NextRequest, context: unknown): Promise<string> {
+  const params: Record<string, string | string[]> =
+    (await (context as { params?: Record<string, string | string[]> } | undefined)?.params) || {};
+  const segments = req.nextUrl.pathname.split('/').map(segment => {
+    const value = safeDecode(segment);
+    const name = Object.keys(params).find(key => params[key] === value);
+    return name ? `[${name}]` : segment;
+  });
+  return `${req.method} ${segments.join('/')}`;
+}
+
+/**
+ * Decodes a path segment, leaving malformed ones as they are.
+ */
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Wraps a route handler with rate limiting.
+ * Requests over the limit get a 429 response; all responses carry RateLimit-* headers.
+ * @param policyName The policy to apply to this handler.
+ * @param handler The route handler to protect.
+ */
+export function withRateLimit<Context>(
+  policyName: RateLimitPolicyName,
+  handler: (req: NextRequest, context: Context) => Promise<Response>
+): (req: NextRequest, context: Context) => Promise<Response> {
+  return async (req, context) => {
+    let result: RateLimitResult;
+    try {
+      result = await checkRateLimit(
+        getClientIp(req),
+        getRateLimitPolicy(policyName),
+        await getRouteKey(req, context)
+      );
+    } catch (error) {
+      // Fail open: an unavailable counter store should not take the whole API down
+      console.error('Rate limit check failed:', error);
+      return handler(req, context);
+    }
+    const headers = getRateLimitHeaders(result);
+
+    if (result.limited) {
+      return NextResponse.json(
+        { message: `Too many requests. Please try again in ${result.resetSeconds} seconds.` },
+        { status: 429, headers: { ...headers, 'Retry-After': result.resetSeconds.toString() } }
+      );
+    }
+
+    const response = await handler(req, context);
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
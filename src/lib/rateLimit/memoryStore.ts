@@ -0,0 +1,46 @@
+// src/lib/rateLimit/memoryStore.ts
+// In-process rate limit counters. Fast, but not shared between server
+// instances and reset on restart.
+
+import type { RateLimitStore } from './types';
+
+// Sweep expired buckets at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { count: number; expiresAt: number }>();
+  private lastSweep = Date.now();
+
+  /**
+   * Drops expired buckets so the map does not grow without bound.
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  async increment(bucketKey: string, expiresAt: Date): Promise<number> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const bucket = this.buckets.get(bucketKey);
+    if (!bucket || bucket.expiresAt <= now) {
+      this.buckets.set(bucketKey, { count: 1, expiresAt: expiresAt.getTime() });
+      return 1;
+    }
+    bucket.count++;
+    return bucket.count;
+  }
+
+  async get(bucketKey: string): Promise<number> {
+    const bucket = this.buckets.get(bucketKey);
+    return bucket && bucket.expiresAt > Date.now() ? bucket.count : 0;
+  }
+}
@@ -0,0 +1,45 @@
+// src/lib/rateLimit/mongoStore.ts
+// Rate limit counters stored in the `rateLimits` MongoDB collection, so every
+// server instance shares the same counts. A TTL index removes expired buckets.
+
+import { Collection } from 'mongodb';
+import { connectToDatabase } from '@/lib/mongodb';
+import type { RateLimitStore } from './types';
+
+interface RateLimitDocument {
+  _id: string;
+  count: number;
+  expiresAt: Date;
+}
+
+export class MongoRateLimitStore implements RateLimitStore {
+  private indexReady: Promise<string> | null = null;
+
+  private async buckets(): Promise<Collection<RateLimitDocument>> {
+    const { db } = await connectToDatabase();
+    const collection = db.collection<RateLimitDocument>('rateLimits');
+    if (!this.indexReady) {
+      // Forget a failed attempt, so the next call tries again
+      this.indexReady = collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }).catch((error: unknown) => {
+        this.indexReady = null;
+        throw error;
+      });
+    }
+    await this.indexReady;
+    return collection;
+  }
+
+  async increment(bucketKey: string, expiresAt: Date): Promise<number> {
+    const bucket = await (await this.buckets()).findOneAndUpdate(
+      { _id: bucketKey },
+      { $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return bucket?.count ?? 1;
+  }
+
+  async get(bucketKey: string): Promise<number> {
+    const bucket = await (await this.buckets()).findOne({ _id: bucketKey });
+    return bucket?.count ?? 0;
+  }
+}
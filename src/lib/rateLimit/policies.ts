@@ -0,0 +1,40 @@
+// src/lib/rateLimit/policies.ts
+// Rate limit policies per route group. Each route is counted separately.
+// Each policy can be overridden with RATE_LIMIT_<NAME>=<limit>/<windowSeconds>,
+// e.g. RATE_LIMIT_READ=30/60 allows 30 reads per minute per client.
+
+import type { RateLimitPolicy } from './types';
+
+const DEFAULT_POLICIES = {
+  create: { limit: 5, windowMs: 60 * 1000 }, // Creating notes is the most expensive
+  read: { limit: 10, windowMs: 60 * 1000 },
+  update: { limit: 10, windowMs: 60 * 1000 },
+  history: { limit: 10, windowMs: 60 * 1000 },
+  collab: { limit: 300, windowMs: 60 * 1000 }, // Live edits are debounced but frequent
+  stream: { limit: 30, windowMs: 60 * 1000 }, // Long-lived event streams, reopened on reconnect
+  unlock: { limit: 5, windowMs: 60 * 1000 }, // Password guesses
+  search: { limit: 20, windowMs: 60 * 1000 }, // Search-as-you-type
+  import: { limit: 2, windowMs: 60 * 1000 }, // Every import creates up to 50 notes
+};
+
+export type RateLimitPolicyName = keyof typeof DEFAULT_POLICIES;
+
+/**
+ * Returns a policy, applying any override from the environment.
+ */
+export function getRateLimitPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  const policy: RateLimitPolicy = { name, ...DEFAULT_POLICIES[name] };
+
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+  if (override) {
+    const [limit, windowSeconds] = override.split('/').map(part => Number.parseInt(part, 10));
+    if (limit > 0 && windowSeconds > 0) {
+      policy.limit = limit;
+      policy.windowMs = windowSeconds * 1000;
+    } else {
+      console.warn(`Ignoring invalid rate limit override for '${name}': ${override}`);
+    }
+  }
+
+  return policy;
+}
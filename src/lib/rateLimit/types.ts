@@ -0,0 +1,36 @@
+// src/lib/rateLimit/types.ts
+// Shared types for the rate limiting module.
+
+// A named rate limit applied to a group of routes
+export interface RateLimitPolicy {
+  name: string;
+  limit: number; // Max requests per window
+  windowMs: number; // Window length in milliseconds
+}
+
+// Result of checking a request against a policy
+export interface RateLimitResult {
+  policy: RateLimitPolicy;
+  limited: boolean;
+  remaining: number;
+  resetSeconds: number; // Seconds until the current window ends
+}
+
+/**
+ * Storage for per-window request counters.
+ * Counters are addressed by a bucket key (client + policy + window start)
+ * and may be discarded by the store once `expiresAt` has passed.
+ */
+export interface RateLimitStore {
+  /**
+   * Increments a bucket's counter, creating it if needed.
+   * @returns The counter value after incrementing.
+   */
+  increment(bucketKey: string, expiresAt: Date): Promise<number>;
+
+  /**
+   * Reads a bucket's counter.
+   * @returns The counter value, or 0 if the bucket does not exist.
+   */
+  get(bucketKey: string): Promise<number>;
+}
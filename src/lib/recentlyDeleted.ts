@@ -0,0 +1,55 @@
+// src/lib/recentlyDeleted.ts
+// Client-side record of notes deleted from this browser, so they can be found
+// again on the "Recently Deleted" page while they are still restorable.
+// Only slugs and titles are kept; nothing here grants access to a note.
+
+export interface RecentlyDeletedNote {
+  slug: string;
+  title: string;
+  deletedAt: string; // ISO string
+  restorableUntil?: string; // ISO string
+}
+
+const STORAGE_KEY = "microdocs:recentlyDeleted";
+
+/**
+ * Reads the list of recently deleted notes, dropping entries past their restore window.
+ */
+export function getRecentlyDeletedNotes(): RecentlyDeletedNote[] {
+  try {
+    const entries: RecentlyDeletedNote[] = JSON.parse(
+      window.localStorage.getItem(STORAGE_KEY) || "[]"
+    );
+    const now = new Date();
+    return entries.filter(
+      (entry) => !entry.restorableUntil || new Date(entry.restorableUntil) > now
+    );
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentlyDeletedNotes(entries: RecentlyDeletedNote[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (err) {
+    console.error("Failed to save recently deleted notes:", err);
+  }
+}
+
+/**
+ * Remembers a note that was just moved to the trash.
+ */
+export function rememberDeletedNote(entry: RecentlyDeletedNote) {
+  const others = getRecentlyDeletedNotes().filter((e) => e.slug !== entry.slug);
+  saveRecentlyDeletedNotes([entry, ...others]);
+}
+
+/**
+ * Forgets a note once it has been restored or purged.
+ */
+export function forgetDeletedNote(slug: string) {
+  saveRecentlyDeletedNotes(
+    getRecentlyDeletedNotes().filter((e) => e.slug !== slug)
+  );
+}
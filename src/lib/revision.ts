@@ -0,0 +1,45 @@
+// src/lib/revision.ts
+// Helpers for optimistic concurrency control on notes.
+// Every edit increments a note's revision; clients send back the revision they
+// started from (as an `If-Match` ETag or a `baseRevision` field) so that an
+// edit based on a stale version is rejected instead of silently overwriting.
+
+import type { StoredNote } from '@/lib/store';
+
+/**
+ * Returns a note's revision. Notes created before revisions existed count as revision 0.
+ */
+export function getRevision(note: StoredNote): number {
+  return note.revision ?? 0;
+}
+
+/**
+ * Formats a revision as a strong ETag value, e.g. `"3"`.
+ */
+export function formatETag(revision: number): string {
+  return `"${revision}"`;
+}
+
+/**
+ * Reads the revision a client based its edit on.
+ * @param ifMatch The `If-Match` request header, if any.
+ * @param baseRevision The `baseRevision` body field, if any.
+ * @returns The revision, '*' if the client explicitly accepts any revision,
+ * undefined if none was given, or null if the value is malformed.
+ */
+export function parseBaseRevision(ifMatch: string | null, baseRevision: unknown): number | '*' | undefined | null {
+  if (ifMatch) {
+    const value = ifMatch.trim();
+    if (value === '*') {
+      return '*';
+    }
+    // Accept both strong ("3") and weak (W/"3") ETags
+    const match = /^(?:W\/)?"(\d+)"$/.exec(value);
+    return match ? Number.parseInt(match[1], 10) : null;
+  }
+
+  if (baseRevision === undefined || baseRevision === null) {
+    return undefined;
+  }
+  return Number.isInteger(baseRevision) && (baseRevision as number) >= 0 ? (baseRevision as number) : null;
+}
@@ -0,0 +1,128 @@
+// src/lib/search.ts
+// Helpers for full-text search over public notes (GET /api/notes?q=).
+// Only public notes are searchable: not deleted, expired, unlisted, encrypted,
+// limited to a number of views or readable only with a password. MongoDB
+// searches with a text index; the other stores scan their notes with
+// `isPublicNote` and `scoreNote` below. Results carry a snippet of the content
+// around the first match, with the matched terms marked.
+
+import type { StoredNote } from '@/lib/store';
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 10;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+const MAX_SEARCH_TERMS = 10;
+const TITLE_WEIGHT = 5; // A match in the title counts as much as five in the content
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60; // Characters of context shown before the first match
+
+// A marked range in a snippet, as character offsets
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits a search query into distinct lowercase terms.
+ */
+export function getSearchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return Array.from(new Set(words)).slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Checks whether a note may show up in search results.
+ * Mirrors the filter used by the MongoDB store.
+ */
+export function isPublicNote(note: StoredNote, now: Date): boolean {
+  return (
+    !note.deletedAt &&
+    !(note.expiresAt && note.expiresAt <= now) &&
+    !note.unlisted &&
+    !note.encrypted &&
+    note.maxViews == null &&
+    !(note.viewPasswordHash ?? note.passwordHash)
+  );
+}
+
+/**
+ * Counts how often a term occurs in a text, ignoring case.
+ */
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+/**
+ * Scores how well a note matches search terms; 0 means no match.
+ */
+export function scoreNote(note: StoredNote, terms: string[]): number {
+  const title = note.title.toLowerCase();
+  const content = note.content.toLowerCase();
+  return terms.reduce(
+    (score, term) => score + TITLE_WEIGHT * countOccurrences(title, term) + countOccurrences(content, term),
+    0
+  );
+}
+
+/**
+ * Finds every occurrence of the terms in a text, merged into sorted, non-overlapping ranges.
+ */
+function findHighlights(text: string, terms: string[]): SearchHighlight[] {
+  const lowerText = text.toLowerCase();
+  const ranges: SearchHighlight[] = [];
+  for (const term of terms) {
+    let index = lowerText.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lowerText.indexOf(term, index + term.length);
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  const merged: SearchHighlight[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Cuts a snippet of a note's content around the first match of the terms.
+ * @returns The snippet and the ranges within it that match a term.
+ */
+export function buildSnippet(
+  content: string,
+  terms: string[]
+): { snippet: string; highlights: SearchHighlight[] } {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const firstMatch = findHighlights(text, terms)[0];
+
+  let start = firstMatch ? Math.max(0, firstMatch.start - SNIPPET_LEAD) : 0;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  // Do not cut words in half
+  if (start > 0) {
+    const wordStart = text.indexOf(' ', start);
+    start = wordStart !== -1 && (!firstMatch || wordStart < firstMatch.start) ? wordStart + 1 : start;
+  }
+  if (end < text.length) {
+    const wordEnd = text.lastIndexOf(' ', end);
+    end = wordEnd > start ? wordEnd : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const snippet = `${prefix}${text.slice(start, end)}${suffix}`;
+  return { snippet, highlights: findHighlights(snippet, terms) };
+}
@@ -0,0 +1,96 @@
+// src/lib/shareTokens.ts
+// Signed share links for notes.
+// A share token is a signed payload (see src/lib/signing) naming the note, the
+// share link record, its scope and expiry. The signature proves the token was
+// issued by this server; the share link record stored on the note decides
+// whether it has been revoked or used up.
+
+import { signPayload, verifySignedPayload } from '@/lib/signing';
+import type { ShareLink, ShareScope, StoredNote } from '@/lib/store';
+
+export const SHARE_SCOPES: ShareScope[] = ['view', 'history', 'edit'];
+
+const SHARE_TOKEN_PURPOSE = 'share';
+
+// Share links last a week unless asked otherwise, and never longer than 90 days
+export const DEFAULT_SHARE_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const MAX_SHARE_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+// What each scope allows: reading the note, its history, and editing it
+const SCOPE_GRANTS: Record<ShareScope, ShareScope[]> = {
+  view: ['view'],
+  history: ['view', 'history'],
+  edit: ['view', 'history', 'edit'],
+};
+
+interface ShareTokenPayload {
+  slug: string;
+  id: string; // Share link record id
+  scope: ShareScope;
+  exp: number; // Expiry in milliseconds since the epoch
+}
+
+/**
+ * Signs a share token for a share link record.
+ */
+export function createShareToken(slug: string, link: ShareLink): string {
+  const payload: ShareTokenPayload = {
+    slug,
+    id: link.id,
+    scope: link.scope,
+    exp: link.expiresAt.getTime(),
+  };
+  return signPayload(SHARE_TOKEN_PURPOSE, payload);
+}
+
+/**
+ * Verifies a token's signature and that it was issued for the given note.
+ * Expiry, revocation and uses are checked separately.
+ * @returns The payload, or null if the value is not a valid share token for this note.
+ */
+export function parseShareToken(token: string | undefined | null, slug: string): ShareTokenPayload | null {
+  const payload = verifySignedPayload<ShareTokenPayload>(SHARE_TOKEN_PURPOSE, token);
+  return payload && payload.slug === slug && SHARE_SCOPES.includes(payload.scope) ? payload : null;
+}
+
+/**
+ * Checks whether a share scope allows an action (expressed as the scope that would be needed).
+ */
+export function scopeAllows(scope: ShareScope, needed: ShareScope): boolean {
+  return SCOPE_GRANTS[scope].includes(needed);
+}
+
+/**
+ * Explains why a share link cannot be used right now, or returns null if it can.
+ */
+export function getShareLinkProblem(note: StoredNote, linkId: string, now: Date = new Date()): string | null {
+  const link = note.shareLinks?.find(candidate => candidate.id === linkId);
+  if (!link) {
+    return 'Share link is not valid.';
+  }
+  if (link.revokedAt) {
+    return 'Share link has been revoked.';
+  }
+  if (link.expiresAt <= now) {
+    return 'Share link has expired.';
+  }
+  if (link.maxUses != null && link.uses >= link.maxUses) {
+    return 'Share link has been used up.';
+  }
+  return null;
+}
+
+/**
+ * Shapes a share link record for API responses.
+ */
+export function toShareLinkResponse(link: ShareLink) {
+  return {
+    id: link.id,
+    scope: link.scope,
+    createdAt: link.createdAt.toISOString(),
+    expiresAt: link.expiresAt.toISOString(),
+    maxUses: link.maxUses ?? null,
+    uses: link.uses,
+    revokedAt: link.revokedAt ? link.revokedAt.toISOString() : null,
+  };
+}
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { saltedHash, signPayload, verifySignedPayload } from './signing';
+
+beforeEach(() => {
+  vi.stubEnv('SIGNING_SECRET', 'test-secret');
+});
+
+describe('signPayload', () => {
+  it('round-trips a payload', () => {
+    const value = signPayload('share', { slug: 'notes', scope: 'view' });
+    expect(verifySignedPayload('share', value)).toEqual({ slug: 'notes', scope: 'view' });
+  });
+
+  it('rejects a value signed for another purpose', () => {
+    const value = signPayload('share', { slug: 'notes' });
+    expect(verifySignedPayload('unlock', value)).toBeNull();
+  });
+
+  it('rejects a tampered payload', () => {
+    const [, signature] = signPayload('share', { slug: 'notes' }).split('.');
+    const forged = Buffer.from(JSON.stringify({ slug: 'other' })).toString('base64url');
+    expect(verifySignedPayload('share', `${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a value signed with another secret', () => {
+    const value = signPayload('share', { slug: 'notes' });
+    vi.stubEnv('SIGNING_SECRET', 'another-secret');
+    expect(verifySignedPayload('share', value)).toBeNull();
+  });
+
+  it('rejects malformed values', () => {
+    expect(verifySignedPayload('share', undefined)).toBeNull();
+    expect(verifySignedPayload('share', 'no-signature')).toBeNull();
+    expect(verifySignedPayload('share', 'a.b.c')).toBeNull();
+  });
+});
+
+describe('saltedHash', () => {
+  it('depends on the purpose and the value', () => {
+    expect(saltedHash('visitor', '1.2.3.4')).toBe(saltedHash('visitor', '1.2.3.4'));
+    expect(saltedHash('visitor', '1.2.3.4')).not.toBe(saltedHash('visitor', '1.2.3.5'));
+    expect(saltedHash('visitor', '1.2.3.4')).not.toBe(saltedHash('other', '1.2.3.4'));
+  });
+});
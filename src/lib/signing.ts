@@ -0,0 +1,71 @@
+// src/lib/signing.ts
+// HMAC-SHA256 signing for small JSON payloads handed to clients, such as share
+// tokens and unlock session cookies. A signed value is `<payload>.<signature>`
+// with both parts base64url encoded. Each kind of value signs with its own
+// purpose, so a value issued for one purpose is never accepted for another.
+// The same secret also salts hashes that must not be reversible, such as the
+// visitor hashes used for view analytics.
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const globalForSigning = globalThis as typeof globalThis & { __signingSecret?: string };
+
+/**
+ * Returns the signing secret. Without SIGNING_SECRET a random secret is used,
+ * so everything signed becomes invalid whenever the server restarts.
+ */
+function getSigningSecret(): string {
+  if (process.env.SIGNING_SECRET) {
+    return process.env.SIGNING_SECRET;
+  }
+  if (!globalForSigning.__signingSecret) {
+    console.warn('SIGNING_SECRET is not set; share links and unlock sessions will be invalidated on restart.');
+    globalForSigning.__signingSecret = randomBytes(32).toString('hex');
+  }
+  return globalForSigning.__signingSecret;
+}
+
+function sign(purpose: string, encodedPayload: string): string {
+  return createHmac('sha256', getSigningSecret()).update(`${purpose}.${encodedPayload}`).digest('base64url');
+}
+
+/**
+ * Hashes a value with the signing secret, so it cannot be recovered by
+ * hashing candidate values (e.g. every IPv4 address).
+ * @param purpose What the hash is for, e.g. 'visitor'.
+ */
+export function saltedHash(purpose: string, value: string): string {
+  return sign(purpose, value);
+}
+
+/**
+ * Serializes and signs a payload.
+ * @param purpose What the value is for, e.g. 'share'.
+ */
+export function signPayload(purpose: string, payload: object): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(purpose, encodedPayload)}`;
+}
+
+/**
+ * Verifies a signed value and returns its payload.
+ * @returns The payload, or null if the value was not signed by this server for this purpose.
+ */
+export function verifySignedPayload<T>(purpose: string, value: string | undefined | null): T | null {
+  const [encodedPayload, signature, ...rest] = (value || '').split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(purpose, encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
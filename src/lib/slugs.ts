@@ -0,0 +1,65 @@
+// src/lib/slugs.ts
+// Slug generation for new notes, shared by creating a note and importing
+// notes. Slugs are derived from a proposed slug (a custom slug, the title or a
+// file name) and get a random suffix if that slug is taken.
+
+import { nanoid } from 'nanoid';
+import type { NoteStore } from '@/lib/store';
+
+const NANOID_SLUG_LENGTH = 8;
+
+/**
+ * Helper function to generate a unique slug.
+ * If a custom slug is provided, it tries to use that.
+ * Otherwise, it generates a random one.
+ * It ensures the slug is unique in the note store.
+ */
+export async function generateUniqueSlug(
+  store: NoteStore,
+  proposedSlug?: string | null
+): Promise<string> {
+  let baseSlug = proposedSlug?.trim().toLowerCase().replace(/\s+/g, '-') || '';
+  if (baseSlug) {
+    baseSlug = baseSlug.replace(/[^a-z0-9-]/g, '');
+    if (baseSlug.length > 50) baseSlug = baseSlug.substring(0, 50);
+  }
+
+  let finalSlug: string;
+  let isUnique = false;
+  let attempts = 0;
+  const MAX_ATTEMPTS = 5;
+
+  while (!isUnique && attempts < MAX_ATTEMPTS) {
+    let currentSlug = baseSlug;
+    if (baseSlug && attempts > 0) {
+      currentSlug = `${baseSlug}-${nanoid(4)}`;
+    } else if (!baseSlug) {
+      currentSlug = nanoid(NANOID_SLUG_LENGTH);
+    }
+
+    const slugTaken = await store.slugExists(currentSlug);
+    if (!slugTaken) {
+      isUnique = true;
+      finalSlug = currentSlug;
+    } else {
+      attempts++;
+      console.warn(`Slug '${currentSlug}' already exists. Attempting another.`);
+    }
+  }
+
+  if (!isUnique) {
+    console.error(`Could not generate unique slug from '${proposedSlug}'. Generating fully random slug.`);
+    let fallbackSlug: string;
+    let fallbackUnique = false;
+    while (!fallbackUnique) {
+      fallbackSlug = nanoid(NANOID_SLUG_LENGTH);
+      const taken = await store.slugExists(fallbackSlug);
+      if (!taken) {
+        fallbackUnique = true;
+        finalSlug = fallbackSlug;
+      }
+    }
+  }
+
+  return finalSlug!;
+}
@@ -0,0 +1,34 @@
+// src/lib/store/expiry.ts
+// Settings shared by the stores for purging expired notes. Each store sweeps
+// out notes whose expiration date has passed, with their history and views,
+// every EXPIRY_SWEEP_INTERVAL_MS on a timer, and also when a note is looked up
+// that long after the last sweep, should the timer fall behind. It remembers
+// when each of them expired for NOTE_EXPIRED_NOTICE_DAYS days (default 7), so
+// their slugs can answer 410 Gone rather than 404 for a while.
+
+const DEFAULT_NOTICE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sweep expired notes this often
+export const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Returns how long the expiry of a purged note is remembered, in milliseconds.
+ */
+export function getExpiredNoticeMs(): number {
+  const days = Number.parseFloat(process.env.NOTE_EXPIRED_NOTICE_DAYS || '');
+  return (Number.isFinite(days) && days >= 0 ? days : DEFAULT_NOTICE_DAYS) * DAY_MS;
+}
+
+/**
+ * Calls `sweep` every EXPIRY_SWEEP_INTERVAL_MS without keeping the process
+ * alive for it. Failed sweeps are logged and tried again next time.
+ */
+export function startExpirySweeper(sweep: () => Promise<void>): void {
+  const timer = setInterval(() => {
+    sweep().catch((error: unknown) => {
+      console.error('Error purging expired notes:', error);
+    });
+  }, EXPIRY_SWEEP_INTERVAL_MS);
+  timer.unref();
+}
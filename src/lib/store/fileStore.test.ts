@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileNoteStore } from './fileStore';
+import type { NewNote } from './types';
+
+let dir: string;
+let filePath: string;
+
+function newNote(slug: string): NewNote {
+  const now = new Date('2025-01-01T00:00:00Z');
+  return { slug, title: 'Note', content: 'Some content.', createdAt: now, updatedAt: now, history: [] };
+}
+
+// Puts a directory where the file goes, so reading or replacing it fails
+async function blockFile(): Promise<void> {
+  await fs.mkdir(path.join(filePath, 'blocked'), { recursive: true });
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'notes-'));
+  filePath = path.join(dir, 'notes.json');
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('FileNoteStore', () => {
+  it('keeps notes across instances', async () => {
+    await new FileNoteStore(filePath).create(newNote('kept'));
+    expect(await new FileNoteStore(filePath).slugExists('kept')).toBe(true);
+  });
+
+  it('tries loading again after a failed load', async () => {
+    await blockFile();
+    const store = new FileNoteStore(filePath);
+    await expect(store.slugExists('kept')).rejects.toThrow();
+
+    await fs.rm(filePath, { recursive: true });
+    await new FileNoteStore(filePath).create(newNote('kept'));
+    expect(await store.slugExists('kept')).toBe(true);
+  });
+
+  it('undoes a change that could not be written', async () => {
+    const store = new FileNoteStore(filePath);
+    await store.create(newNote('first'));
+    await fs.rm(filePath);
+    await blockFile();
+
+    // The rename waits behind the failing write, so it is undone as well
+    const results = await Promise.allSettled([
+      store.create(newNote('second')),
+      store.update('first', { title: 'Renamed' }),
+    ]);
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(await store.slugExists('second')).toBe(false);
+    expect((await store.findBySlug('first'))?.title).toBe('Note');
+
+    await fs.rm(filePath, { recursive: true });
+    await store.create(newNote('second'));
+    expect(await new FileNoteStore(filePath).slugExists('second')).toBe(true);
+  });
+});
@@ -0,0 +1,157 @@
+// src/lib/store/fileStore.ts
+// Local JSON file implementation of the NoteStore interface.
+// Keeps all notes in memory and writes them to a single JSON file after every
+// change, so data survives restarts without running a database server.
+// Notebooks, note history and view analytics are kept next to the notes,
+// under `notebooks`, `noteRevisions` and `noteViews`, and recently expired
+// notes under `expiredNotes`. Files written before history moved out of the
+// notes are converted when they are loaded.
+// A change that fails to be written is undone in memory, together with any
+// changes made after it that were still waiting to be written, so memory
+// never holds data the file does not. A load that fails is tried again on
+// the next call.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MemoryNoteStore } from './memoryStore';
+import { createRevisionRecords } from './revisions';
+import type { NoteHistoryEntry, NoteRevisionRecord, NoteViewBucket, StoredNote, StoredNotebook } from './types';
+
+// Date fields that must be revived when reading the JSON file back
+const NOTE_DATE_FIELDS = ['createdAt', 'updatedAt', 'expiresAt', 'deletedAt'] as const;
+
+// The contents of the JSON file
+interface StoreFile {
+  notes?: (StoredNote & { history?: NoteHistoryEntry[] })[];
+  notebooks?: StoredNotebook[];
+  noteRevisions?: Record<string, NoteRevisionRecord[]>;
+  noteViews?: Record<string, NoteViewBucket[]>;
+  expiredNotes?: Record<string, { expiresAt: string; forgetAt: string }>;
+}
+
+/**
+ * Turns a note parsed from JSON back into a StoredNote with real Date objects.
+ */
+function reviveNote(raw: StoredNote): StoredNote {
+  const note = { ...raw };
+  for (const field of NOTE_DATE_FIELDS) {
+    const value = note[field];
+    if (value) {
+      note[field] = new Date(value);
+    }
+  }
+  if (raw.shareLinks) {
+    note.shareLinks = raw.shareLinks.map(link => ({
+      ...link,
+      createdAt: new Date(link.createdAt),
+      expiresAt: new Date(link.expiresAt),
+      revokedAt: link.revokedAt ? new Date(link.revokedAt) : link.revokedAt,
+    }));
+  }
+  return note;
+}
+
+export class FileNoteStore extends MemoryNoteStore {
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private written = '{}'; // The data as last loaded or written
+  private generation = 0; // Incremented whenever changes are undone
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      this.restore(raw);
+      this.written = raw;
+    } catch (error: unknown) {
+      // A missing file simply means there are no notes yet
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Replaces the data in memory with the contents of a JSON file.
+   */
+  private restore(raw: string): void {
+    const parsed: StoreFile = JSON.parse(raw);
+    this.notes.clear();
+    this.revisions.clear();
+    this.notebooks.clear();
+    this.viewBuckets.clear();
+    this.expiredNotes.clear();
+    for (const { history, ...note } of parsed.notes || []) {
+      this.notes.set(note.slug, reviveNote(note));
+      // Older files kept every version inline in the note
+      if (history && !parsed.noteRevisions?.[note.slug]) {
+        this.revisions.set(
+          note.slug,
+          createRevisionRecords(history.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) })))
+        );
+      }
+    }
+    for (const [slug, records] of Object.entries(parsed.noteRevisions || {})) {
+      this.revisions.set(slug, records.map(record => ({ ...record, timestamp: new Date(record.timestamp) })));
+    }
+    for (const notebook of parsed.notebooks || []) {
+      this.notebooks.set(notebook.slug, { ...notebook, createdAt: new Date(notebook.createdAt) });
+    }
+    for (const [slug, buckets] of Object.entries(parsed.noteViews || {})) {
+      this.viewBuckets.set(slug, buckets);
+    }
+    for (const [slug, expired] of Object.entries(parsed.expiredNotes || {})) {
+      this.expiredNotes.set(slug, { expiresAt: new Date(expired.expiresAt), forgetAt: new Date(expired.forgetAt) });
+    }
+  }
+
+  protected persist(): Promise<void> {
+    // Serialized right away, so each write holds the changes made up to it
+    const data = JSON.stringify(
+      {
+        notes: Array.from(this.notes.values()),
+        notebooks: Array.from(this.notebooks.values()),
+        noteRevisions: Object.fromEntries(this.revisions),
+        noteViews: Object.fromEntries(this.viewBuckets),
+        expiredNotes: Object.fromEntries(this.expiredNotes),
+      },
+      null,
+      2
+    );
+    const generation = this.generation;
+
+    // Chain writes so concurrent updates never interleave on disk
+    const next = this.writing.then(async () => {
+      if (generation !== this.generation) {
+        throw new Error('The change was undone because an earlier change could not be saved.');
+      }
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, data, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+      this.written = data;
+    });
+    // A failed write undoes its change and the ones waiting behind it, which
+    // then fail too; writes of later changes still run
+    this.writing = next.catch(() => {
+      if (generation === this.generation) {
+        this.generation++;
+        this.restore(this.written);
+      }
+    });
+    return next;
+  }
+}
@@ -0,0 +1,66 @@
+// src/lib/store/index.ts
+// Entry point for the note storage layer.
+// The backend is selected with the NOTE_STORE environment variable:
+//   - "mongo" (default): MongoDB, configured with MONGODB_URI and MONGODB_DB
+//   - "memory": in-process store, lost on restart (handy for tests)
+//   - "file": JSON file at NOTE_STORE_PATH (defaults to .data/notes.json)
+
+import path from 'path';
+import { FileNoteStore } from './fileStore';
+import { MemoryNoteStore } from './memoryStore';
+import { MongoNoteStore } from './mongoStore';
+import type { NoteStore } from './types';
+
+export type {
+  HistoryRetention,
+  NewNote,
+  NewNotebook,
+  NoteChanges,
+  NoteHistoryDetails,
+  NoteHistoryEntry,
+  NoteHistoryEvent,
+  NoteRevisionRecord,
+  NoteSearchOptions,
+  NoteSearchResult,
+  NoteStore,
+  NoteUpdateOptions,
+  NoteVersion,
+  NoteViewBucket,
+  NoteViewRecord,
+  ShareLink,
+  ShareScope,
+  StoredNote,
+  StoredNotebook,
+} from './types';
+
+const DEFAULT_FILE_PATH = path.join(process.cwd(), '.data', 'notes.json');
+
+// Cache the store on globalThis so every route (and hot reload in dev) shares
+// the same instance - otherwise the in-memory store would be split per route.
+const globalForStore = globalThis as typeof globalThis & { __noteStore?: NoteStore };
+
+/**
+ * Creates a store for the given backend name.
+ */
+function createNoteStore(kind: string): NoteStore {
+  switch (kind) {
+    case 'mongo':
+      return new MongoNoteStore();
+    case 'memory':
+      return new MemoryNoteStore();
+    case 'file':
+      return new FileNoteStore(process.env.NOTE_STORE_PATH || DEFAULT_FILE_PATH);
+    default:
+      throw new Error(`Unknown NOTE_STORE '${kind}'. Expected 'mongo', 'memory' or 'file'.`);
+  }
+}
+
+/**
+ * Returns the configured note store, creating it on first use.
+ */
+export function getNoteStore(): NoteStore {
+  if (!globalForStore.__noteStore) {
+    globalForStore.__noteStore = createNoteStore(process.env.NOTE_STORE || 'mongo');
+  }
+  return globalForStore.__noteStore;
+}
@@ -0,0 +1,326 @@
+// src/lib/store/memoryStore.ts
+// In-memory implementation of the NoteStore interface.
+// Useful for local development and integration tests without a MongoDB server.
+// Data lives only as long as the server process. Expired notes are swept out
+// once a minute (see src/lib/store/expiry).
+
+import { nanoid } from 'nanoid';
+import { getSearchTerms, isPublicNote, scoreNote } from '@/lib/search';
+import {
+  createCoalescedRecord,
+  createRevisionRecords,
+  getKeyframeTail,
+  rebuildVersions,
+  selectRemovedVersions,
+} from './revisions';
+import { EXPIRY_SWEEP_INTERVAL_MS, getExpiredNoticeMs, startExpirySweeper } from './expiry';
+import type {
+  HistoryRetention,
+  NewNote,
+  NewNotebook,
+  NoteChanges,
+  NoteHistoryEntry,
+  NoteRevisionRecord,
+  NoteSearchOptions,
+  NoteSearchResult,
+  NoteStore,
+  NoteUpdateOptions,
+  NoteVersion,
+  NoteViewBucket,
+  NoteViewRecord,
+  ShareLink,
+  StoredNote,
+  StoredNotebook,
+} from './types';
+
+export class MemoryNoteStore implements NoteStore {
+  protected notes = new Map<string, StoredNote>();
+  protected revisions = new Map<string, NoteRevisionRecord[]>(); // By slug, oldest version first
+  protected viewBuckets = new Map<string, NoteViewBucket[]>(); // By slug, oldest day first
+  protected notebooks = new Map<string, StoredNotebook>();
+  protected expiredNotes = new Map<string, { expiresAt: Date; forgetAt: Date }>(); // By slug
+  private lastExpirySweep = 0;
+
+  constructor() {
+    startExpirySweeper(() => this.sweepExpired(new Date(), true));
+  }
+
+  /**
+   * Hook called after every successful mutation.
+   * Subclasses (e.g. the file store) override it to persist the data.
+   */
+  protected async persist(): Promise<void> {}
+
+  /**
+   * Hook called before every operation.
+   * Subclasses override it to lazily load existing data.
+   */
+  protected async ready(): Promise<void> {}
+
+  /**
+   * Purges expired notes, at most once per sweep interval unless forced.
+   */
+  private async sweepExpired(now: Date, force = false): Promise<void> {
+    if (!force && now.getTime() - this.lastExpirySweep < EXPIRY_SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastExpirySweep = now.getTime();
+    await this.purgeExpired(now);
+  }
+
+  async findBySlug(slug: string): Promise<StoredNote | null> {
+    await this.ready();
+    await this.sweepExpired(new Date());
+    const note = this.notes.get(slug);
+    // Return a copy so callers cannot mutate the stored note by accident
+    return note ? structuredClone(note) : null;
+  }
+
+  async slugExists(slug: string): Promise<boolean> {
+    await this.ready();
+    return this.notes.has(slug);
+  }
+
+  async create(note: NewNote): Promise<StoredNote> {
+    await this.ready();
+    if (this.notes.has(note.slug)) {
+      throw new Error(`A note with slug '${note.slug}' already exists.`);
+    }
+    const { history, ...rest } = structuredClone(note);
+    const stored: StoredNote = { ...rest, id: nanoid() };
+    this.notes.set(stored.slug, stored);
+    this.expiredNotes.delete(stored.slug);
+    this.revisions.set(stored.slug, createRevisionRecords(history));
+    await this.persist();
+    return structuredClone(stored);
+  }
+
+  async update(slug: string, changes: NoteChanges, options: NoteUpdateOptions = {}): Promise<boolean> {
+    const { historyEntry, expectedRevision, coalesceWithinMs } = options;
+    await this.ready();
+    const note = this.notes.get(slug);
+    if (!note) {
+      return false;
+    }
+    if (expectedRevision !== undefined && (note.revision ?? 0) !== expectedRevision) {
+      return false;
+    }
+    Object.assign(note, structuredClone(changes));
+    if (historyEntry) {
+      const records = this.revisions.get(slug) || [];
+      const { record, replacesLatest } = createCoalescedRecord(
+        getKeyframeTail(records),
+        structuredClone(historyEntry),
+        coalesceWithinMs
+      );
+      if (replacesLatest) {
+        records.pop();
+      }
+      records.push(record);
+      this.revisions.set(slug, records);
+    }
+    await this.persist();
+    return true;
+  }
+
+  async appendHistory(slug: string, entry: NoteHistoryEntry): Promise<boolean> {
+    return this.update(slug, {}, { historyEntry: entry });
+  }
+
+  async getHistory(slug: string): Promise<NoteVersion[]> {
+    await this.ready();
+    return structuredClone(rebuildVersions(this.revisions.get(slug) || []));
+  }
+
+  async getVersion(slug: string, version: number): Promise<NoteVersion | null> {
+    await this.ready();
+    const records = this.revisions.get(slug) || [];
+    const index = records.findIndex(record => record.version === version);
+    if (index === -1) {
+      return null;
+    }
+    const versions = rebuildVersions(getKeyframeTail(records.slice(0, index + 1)));
+    return structuredClone(versions[versions.length - 1]);
+  }
+
+  async pruneHistory(slug: string, retention: HistoryRetention, now: Date): Promise<number> {
+    await this.ready();
+    const records = this.revisions.get(slug) || [];
+    const removed = new Set(selectRemovedVersions(records, retention, now));
+    if (removed.size === 0) {
+      return 0;
+    }
+    const kept = rebuildVersions(records).filter(version => !removed.has(version.version));
+    this.revisions.set(slug, createRevisionRecords(kept));
+    await this.persist();
+    return removed.size;
+  }
+
+  async delete(slug: string): Promise<boolean> {
+    await this.ready();
+    if (!this.notes.delete(slug)) {
+      return false;
+    }
+    this.revisions.delete(slug);
+    this.viewBuckets.delete(slug);
+    await this.persist();
+    return true;
+  }
+
+  async purgeExpired(now: Date): Promise<number> {
+    await this.ready();
+    let changed = false;
+    for (const [slug, expired] of this.expiredNotes) {
+      if (expired.forgetAt <= now) {
+        this.expiredNotes.delete(slug);
+        changed = true;
+      }
+    }
+    const forgetAt = new Date(now.getTime() + getExpiredNoticeMs());
+    let removed = 0;
+    for (const [slug, note] of this.notes) {
+      if (note.expiresAt && note.expiresAt <= now) {
+        this.notes.delete(slug);
+        this.revisions.delete(slug);
+        this.viewBuckets.delete(slug);
+        this.expiredNotes.set(slug, { expiresAt: note.expiresAt, forgetAt });
+        removed++;
+      }
+    }
+    if (changed || removed > 0) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  async findExpired(slug: string, now: Date): Promise<Date | null> {
+    await this.ready();
+    const expired = this.expiredNotes.get(slug);
+    return expired && expired.forgetAt > now ? new Date(expired.expiresAt) : null;
+  }
+
+  async addShareLink(slug: string, link: ShareLink): Promise<boolean> {
+    await this.ready();
+    const note = this.notes.get(slug);
+    if (!note) {
+      return false;
+    }
+    note.shareLinks = [...(note.shareLinks || []), structuredClone(link)];
+    await this.persist();
+    return true;
+  }
+
+  async consumeShareLink(slug: string, linkId: string, now: Date): Promise<boolean> {
+    await this.ready();
+    const link = this.notes.get(slug)?.shareLinks?.find(candidate => candidate.id === linkId);
+    if (!link || link.revokedAt || link.expiresAt <= now) {
+      return false;
+    }
+    if (link.maxUses != null && link.uses >= link.maxUses) {
+      return false;
+    }
+    link.uses++;
+    await this.persist();
+    return true;
+  }
+
+  async revokeShareLink(slug: string, linkId: string, revokedAt: Date): Promise<boolean> {
+    await this.ready();
+    const link = this.notes.get(slug)?.shareLinks?.find(candidate => candidate.id === linkId);
+    if (!link) {
+      return false;
+    }
+    link.revokedAt = revokedAt;
+    await this.persist();
+    return true;
+  }
+
+  async findNotebook(slug: string): Promise<StoredNotebook | null> {
+    await this.ready();
+    const notebook = this.notebooks.get(slug);
+    return notebook ? structuredClone(notebook) : null;
+  }
+
+  async createNotebook(notebook: NewNotebook): Promise<StoredNotebook> {
+    await this.ready();
+    if (this.notebooks.has(notebook.slug)) {
+      throw new Error(`A notebook with slug '${notebook.slug}' already exists.`);
+    }
+    const stored: StoredNotebook = { ...structuredClone(notebook), id: nanoid() };
+    this.notebooks.set(stored.slug, stored);
+    await this.persist();
+    return structuredClone(stored);
+  }
+
+  async listNotebookNotes(notebook: string): Promise<StoredNote[]> {
+    await this.ready();
+    return Array.from(this.notes.values())
+      .filter(note => note.notebook === notebook && !note.deletedAt)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(note => structuredClone(note));
+  }
+
+  async findBacklinks(slug: string): Promise<StoredNote[]> {
+    await this.ready();
+    return Array.from(this.notes.values())
+      .filter(note => note.links?.includes(slug) && !note.deletedAt)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(note => structuredClone(note));
+  }
+
+  async searchNotes(query: string, options: NoteSearchOptions): Promise<NoteSearchResult> {
+    await this.ready();
+    const terms = getSearchTerms(query);
+    const matches: { note: StoredNote; score: number }[] = [];
+    for (const note of this.notes.values()) {
+      if (!isPublicNote(note, options.now) || (options.tag && !note.tags?.includes(options.tag))) {
+        continue;
+      }
+      const score = terms.length > 0 ? scoreNote(note, terms) : 1;
+      if (score > 0) {
+        matches.push({ note, score });
+      }
+    }
+    matches.sort((a, b) => b.score - a.score || b.note.updatedAt.getTime() - a.note.updatedAt.getTime());
+    return {
+      notes: matches.slice(options.offset, options.offset + options.limit).map(match => structuredClone(match.note)),
+      total: matches.length,
+    };
+  }
+
+  async recordView(slug: string, view: NoteViewRecord): Promise<void> {
+    await this.ready();
+    const buckets = this.viewBuckets.get(slug) || [];
+    let bucket = buckets.find(candidate => candidate.day === view.day);
+    if (!bucket) {
+      bucket = { day: view.day, views: 0, visitors: [], referrers: {} };
+      buckets.push(bucket);
+      buckets.sort((a, b) => a.day.localeCompare(b.day));
+      this.viewBuckets.set(slug, buckets);
+    }
+    bucket.views++;
+    if (!bucket.visitors.includes(view.visitorHash)) {
+      bucket.visitors.push(view.visitorHash);
+    }
+    if (view.referrer) {
+      bucket.referrers[view.referrer] = (bucket.referrers[view.referrer] || 0) + 1;
+    }
+    await this.persist();
+  }
+
+  async getViewBuckets(slug: string): Promise<NoteViewBucket[]> {
+    await this.ready();
+    return structuredClone(this.viewBuckets.get(slug) || []);
+  }
+
+  async consumeView(slug: string): Promise<StoredNote | null> {
+    await this.ready();
+    const note = this.notes.get(slug);
+    if (!note || note.maxViews == null || (note.views ?? 0) >= note.maxViews) {
+      return null;
+    }
+    note.views = (note.views ?? 0) + 1;
+    await this.persist();
+    return structuredClone(note);
+  }
+}
@@ -0,0 +1,724 @@
+// src/lib/store/mongoStore.ts
+// MongoDB implementation of the NoteStore interface.
+// Documents keep the same shape they always had in the `notes` collection,
+// except for their history, which lives in the `noteRevisions` collection as
+// one document per version (see src/lib/store/revisions) and is never loaded
+// with the note. Notes saved before that keep their history inline until it
+// is first read or appended to, when it is moved over. Pruning a history
+// rewrites the versions that were patches against removed ones. Notebooks
+// live in the `notebooks` collection, and view analytics in the `noteViews`
+// collection, one document per note and day.
+// Each note counts its versions in `historyVersion`, which an edit increments
+// in the same operation as it changes the note, so concurrent edits never
+// number their versions alike. Stored versions are never changed afterwards
+// (except by pruning): a version coalesced with the latest one is stored as a
+// keyframe under the next number and the latest one removed.
+// Expired notes are removed by a TTL index on `expiresAt`, even while no
+// server runs, and their versions and views carry the same `expiresAt` under
+// TTL indexes of their own, so they go with them. Whenever a note's expiration
+// date is set, it is also remembered in the `expiredNotes` collection (see
+// src/lib/store/expiry), where a TTL index forgets it once the notice period
+// after it has passed. The sweep still purges expired notes the TTL monitor,
+// which runs once a minute, has not reached yet. A note created under a
+// purged slug starts without any history or views a purge may have left behind.
+
+import { Collection, Filter, ObjectId } from 'mongodb';
+import { connectToDatabase } from '@/lib/mongodb';
+import { getSearchTerms } from '@/lib/search';
+import {
+  canCoalesce,
+  createRevisionRecord,
+  createRevisionRecords,
+  isKeyframe,
+  rebuildVersions,
+  selectRemovedVersions,
+} from './revisions';
+import { EXPIRY_SWEEP_INTERVAL_MS, getExpiredNoticeMs, startExpirySweeper } from './expiry';
+import type {
+  HistoryRetention,
+  NewNote,
+  NewNotebook,
+  NoteChanges,
+  NoteHistoryEntry,
+  NoteRevisionRecord,
+  NoteSearchOptions,
+  NoteSearchResult,
+  NoteStore,
+  NoteUpdateOptions,
+  NoteVersion,
+  NoteViewBucket,
+  NoteViewRecord,
+  ShareLink,
+  StoredNote,
+  StoredNotebook,
+} from './types';
+
+// Define a type for the note document as stored in MongoDB
+interface NoteDocument extends Omit<StoredNote, 'id'> {
+  _id: ObjectId;
+  history?: NoteHistoryEntry[]; // Only on notes whose history was not moved yet
+  historyVersion?: number; // The last version number handed out; missing on older notes
+}
+
+// One version of a note, as stored in the `noteRevisions` collection
+interface NoteRevisionDocument extends NoteRevisionRecord {
+  slug: string;
+  expiresAt?: Date; // The note's, for the TTL index
+}
+
+// Notes are always read without any inline history or version counter
+const NOTE_PROJECTION = { history: 0, historyVersion: 0 } as const;
+
+// A note removed because it expired, as stored in the `expiredNotes` collection
+interface ExpiredNoteDocument {
+  _id: string; // The note's slug
+  expiresAt: Date;
+  forgetAt: Date;
+}
+
+// Define a type for the notebook document as stored in MongoDB
+interface NotebookDocument extends NewNotebook {
+  _id: ObjectId;
+}
+
+// A day of views of one note, as stored in the `noteViews` collection
+interface NoteViewDocument extends NoteViewBucket {
+  slug: string;
+  expiresAt?: Date; // The note's, for the TTL index
+}
+
+/**
+ * Encodes a referrer host for use as a field name ('.' would nest and a
+ * leading '$' is reserved).
+ */
+function encodeFieldName(name: string): string {
+  return name.replace(/%/g, '%25').replace(/\./g, '%2E').replace(/^\$/, '%24');
+}
+
+/**
+ * Converts a raw MongoDB document into the store-agnostic note shape.
+ */
+function toStoredNote(doc: NoteDocument): StoredNote {
+  const { _id, ...rest } = doc;
+  return { ...rest, id: _id.toHexString() };
+}
+
+/**
+ * Builds the document for a version of a note. Undefined fields are left
+ * out, since MongoDB would store them as null.
+ * @param expiresAt The note's expiration date, if it has one.
+ */
+function toRevisionDocument(
+  slug: string,
+  record: NoteRevisionRecord,
+  expiresAt?: Date | null
+): NoteRevisionDocument {
+  return Object.fromEntries(
+    Object.entries({ ...record, slug: slug, expiresAt: expiresAt ?? undefined }).filter(
+      ([, value]) => value !== undefined
+    )
+  ) as unknown as NoteRevisionDocument;
+}
+
+/**
+ * Strips the MongoDB-only fields from a revision document.
+ */
+function toRevisionRecord(doc: NoteRevisionDocument): NoteRevisionRecord {
+  const { version, timestamp, content, patch, title, author, message, events } = doc;
+  return { version, timestamp, content, patch, title, author, message, events };
+}
+
+export class MongoNoteStore implements NoteStore {
+  private indexesReady = new Map<string, Promise<string>>(); // By collection and index
+  private lastExpirySweep = 0;
+
+  constructor() {
+    startExpirySweeper(() => this.sweepExpired(new Date(), true));
+  }
+
+  /**
+   * Creates an index once per store. A failed attempt is forgotten, so the
+   * next call tries again instead of failing until the server restarts.
+   */
+  private async ensureIndex(key: string, create: () => Promise<string>): Promise<void> {
+    let ready = this.indexesReady.get(key);
+    if (!ready) {
+      ready = create().catch((error: unknown) => {
+        this.indexesReady.delete(key);
+        throw error;
+      });
+      this.indexesReady.set(key, ready);
+    }
+    await ready;
+  }
+
+  private async notes(): Promise<Collection<NoteDocument>> {
+    const { db } = await connectToDatabase();
+    const collection = db.collection<NoteDocument>('notes');
+    await this.ensureIndex('notes.expiresAt', () =>
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    );
+    return collection;
+  }
+
+  /**
+   * Returns the notes collection, making sure its text index exists.
+   */
+  private async searchableNotes(): Promise<Collection<NoteDocument>> {
+    const collection = await this.notes();
+    await this.ensureIndex('notes.text', () =>
+      collection.createIndex(
+        { title: 'text', content: 'text' },
+        { name: 'note_text', weights: { title: 5, content: 1 } }
+      )
+    );
+    return collection;
+  }
+
+  /**
+   * Returns the notes collection, making sure outgoing links are indexed.
+   */
+  private async linkedNotes(): Promise<Collection<NoteDocument>> {
+    const collection = await this.notes();
+    await this.ensureIndex('notes.links', () => collection.createIndex({ links: 1 }));
+    return collection;
+  }
+
+  private async notebooks(): Promise<Collection<NotebookDocument>> {
+    const { db } = await connectToDatabase();
+    return db.collection<NotebookDocument>('notebooks');
+  }
+
+  private async noteViews(): Promise<Collection<NoteViewDocument>> {
+    const { db } = await connectToDatabase();
+    const collection = db.collection<NoteViewDocument>('noteViews');
+    await this.ensureIndex('noteViews.slug', () =>
+      collection.createIndex({ slug: 1, day: 1 }, { unique: true })
+    );
+    await this.ensureIndex('noteViews.expiresAt', () =>
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    );
+    return collection;
+  }
+
+  private async noteRevisions(): Promise<Collection<NoteRevisionDocument>> {
+    const { db } = await connectToDatabase();
+    const collection = db.collection<NoteRevisionDocument>('noteRevisions');
+    await this.ensureIndex('noteRevisions.slug', () =>
+      collection.createIndex({ slug: 1, version: 1 }, { unique: true })
+    );
+    await this.ensureIndex('noteRevisions.expiresAt', () =>
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    );
+    return collection;
+  }
+
+  private async expiredNotes(): Promise<Collection<ExpiredNoteDocument>> {
+    const { db } = await connectToDatabase();
+    const collection = db.collection<ExpiredNoteDocument>('expiredNotes');
+    await this.ensureIndex('expiredNotes.forgetAt', () =>
+      collection.createIndex({ forgetAt: 1 }, { expireAfterSeconds: 0 })
+    );
+    return collection;
+  }
+
+  /**
+   * Purges expired notes, at most once per sweep interval unless forced.
+   */
+  private async sweepExpired(now: Date, force = false): Promise<void> {
+    if (!force && now.getTime() - this.lastExpirySweep < EXPIRY_SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastExpirySweep = now.getTime();
+    await this.purgeExpired(now);
+  }
+
+  /**
+   * Returns a note's expiration date, or null if it has none (or is gone).
+   */
+  private async findExpiresAt(slug: string): Promise<Date | null> {
+    const doc = await (await this.notes()).findOne({ slug: slug }, { projection: { _id: 0, expiresAt: 1 } });
+    return doc?.expiresAt ?? null;
+  }
+
+  /**
+   * Gives a note's versions and views its new expiration date, and remembers
+   * when it expires, since the TTL monitor removes it without telling anyone.
+   * @param expiresAt The new expiration date, or null if it no longer expires.
+   */
+  private async setExpiresAt(slug: string, expiresAt: Date | null): Promise<void> {
+    const update = expiresAt ? { $set: { expiresAt: expiresAt } } : { $unset: { expiresAt: '' as const } };
+    await (await this.noteRevisions()).updateMany({ slug: slug }, update);
+    await (await this.noteViews()).updateMany({ slug: slug }, update);
+    await this.rememberExpiry(slug, expiresAt);
+  }
+
+  /**
+   * Records in `expiredNotes` when a note expires, or forgets it if it no
+   * longer does. The record is only read once the note is gone.
+   */
+  private async rememberExpiry(slug: string, expiresAt: Date | null): Promise<void> {
+    const expiredNotes = await this.expiredNotes();
+    if (!expiresAt) {
+      await expiredNotes.deleteOne({ _id: slug });
+      return;
+    }
+    await expiredNotes.replaceOne(
+      { _id: slug },
+      { expiresAt: expiresAt, forgetAt: new Date(expiresAt.getTime() + getExpiredNoticeMs()) },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Moves a note's inline history, if it still has one, to `noteRevisions`.
+   */
+  private async moveInlineHistory(slug: string): Promise<void> {
+    const notes = await this.notes();
+    const doc = await notes.findOne({ slug: slug, history: { $exists: true } }, { projection: { history: 1, expiresAt: 1 } });
+    if (!doc) {
+      return;
+    }
+    const revisions = await this.noteRevisions();
+    const hasRevisions = (await revisions.countDocuments({ slug: slug }, { limit: 1 })) > 0;
+    if (doc.history && doc.history.length > 0 && !hasRevisions) {
+      try {
+        await revisions.insertMany(
+          createRevisionRecords(doc.history).map(record => toRevisionDocument(slug, record, doc.expiresAt))
+        );
+      } catch (error: unknown) {
+        // Another request moved the same history first
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+      }
+    }
+    await notes.updateOne({ slug: slug }, { $unset: { history: '' } });
+  }
+
+  /**
+   * Loads the records needed to rebuild a version: those from the last
+   * keyframe at or before it, up to it.
+   * @param version The version to rebuild, or undefined for the latest.
+   */
+  private async loadKeyframeTail(slug: string, version?: number): Promise<NoteRevisionRecord[]> {
+    const revisions = await this.noteRevisions();
+    const upTo = version !== undefined ? { version: { $lte: version } } : {};
+    const keyframe = await revisions.findOne(
+      { slug: slug, content: { $exists: true }, ...upTo },
+      { sort: { version: -1 } }
+    );
+    if (!keyframe) {
+      return [];
+    }
+    const docs = await revisions
+      .find({ slug: slug, version: { $gte: keyframe.version, ...(version !== undefined ? { $lte: version } : {}) } })
+      .sort({ version: 1 })
+      .toArray();
+    return docs.map(toRevisionRecord);
+  }
+
+  /**
+   * Returns the latest stored version of a note.
+   */
+  private async findLatestRevision(slug: string): Promise<NoteRevisionRecord | null> {
+    const doc = await (await this.noteRevisions()).findOne({ slug: slug }, { sort: { version: -1 } });
+    return doc ? toRevisionRecord(doc) : null;
+  }
+
+  /**
+   * Moves a note's inline history, if it still has one, and starts its
+   * `historyVersion` counter after its latest version, if it has none yet.
+   */
+  private async prepareHistory(slug: string): Promise<void> {
+    await this.moveInlineHistory(slug);
+    const notes = await this.notes();
+    const filter: Filter<NoteDocument> = { slug: slug, historyVersion: { $exists: false } };
+    if ((await notes.countDocuments(filter, { limit: 1 })) === 0) {
+      return;
+    }
+    const latest = await this.findLatestRevision(slug);
+    await notes.updateOne(filter, { $set: { historyVersion: latest?.version ?? 0 } });
+  }
+
+  /**
+   * Stores a version of a note under a number taken from its `historyVersion`
+   * counter. Versions before it may still be on their way, so it is a patch
+   * only if the version right before it is stored already, and a keyframe
+   * otherwise.
+   * @param expiresAt The note's expiration date, if it has one.
+   * @param replaces The version it was coalesced with, removed once it is stored.
+   */
+  private async addVersion(
+    slug: string,
+    version: number,
+    entry: NoteHistoryEntry,
+    expiresAt?: Date | null,
+    replaces?: number
+  ): Promise<void> {
+    const tail = replaces === undefined ? await this.loadKeyframeTail(slug, version - 1) : [];
+    const previous = tail[tail.length - 1];
+    const record = createRevisionRecord(previous?.version === version - 1 ? tail : [], entry, version);
+    const revisions = await this.noteRevisions();
+    await revisions.insertOne(toRevisionDocument(slug, record, expiresAt));
+    if (replaces !== undefined) {
+      await revisions.deleteOne({ slug: slug, version: replaces });
+    }
+  }
+
+  /**
+   * Replaces stored versions of a note with new records of the same versions.
+   */
+  private async replaceRevisions(slug: string, records: NoteRevisionRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    const expiresAt = await this.findExpiresAt(slug);
+    await (await this.noteRevisions()).bulkWrite(
+      records.map(record => ({
+        replaceOne: {
+          filter: { slug: slug, version: record.version },
+          replacement: toRevisionDocument(slug, record, expiresAt),
+        },
+      }))
+    );
+  }
+
+  async findBySlug(slug: string): Promise<StoredNote | null> {
+    await this.sweepExpired(new Date());
+    const doc = await (await this.notes()).findOne({ slug: slug }, { projection: NOTE_PROJECTION });
+    return doc ? toStoredNote(doc) : null;
+  }
+
+  async slugExists(slug: string): Promise<boolean> {
+    const count = await (await this.notes()).countDocuments({ slug: slug }, { limit: 1 });
+    return count > 0;
+  }
+
+  async create(note: NewNote): Promise<StoredNote> {
+    const { history, ...rest } = note;
+    const _id = new ObjectId();
+    const records = createRevisionRecords(history);
+    const result = await (await this.notes()).insertOne({ ...rest, _id, historyVersion: records.length });
+    if (!result.acknowledged) {
+      throw new Error('Failed to insert document.');
+    }
+    await this.rememberExpiry(note.slug, rest.expiresAt ?? null);
+    await (await this.noteRevisions()).deleteMany({ slug: note.slug });
+    await (await this.noteViews()).deleteMany({ slug: note.slug });
+    if (records.length > 0) {
+      await (await this.noteRevisions()).insertMany(
+        records.map(record => toRevisionDocument(note.slug, record, rest.expiresAt))
+      );
+    }
+    return { ...rest, id: _id.toHexString() };
+  }
+
+  async update(slug: string, changes: NoteChanges, options: NoteUpdateOptions = {}): Promise<boolean> {
+    const { historyEntry, expectedRevision, coalesceWithinMs } = options;
+
+    const filter: Filter<NoteDocument> = { slug: slug };
+    if (expectedRevision !== undefined) {
+      // Notes created before revisions existed have no revision field (revision 0)
+      filter.revision = expectedRevision === 0 ? { $not: { $gt: 0 } } : expectedRevision;
+    }
+
+    const notes = await this.notes();
+    if (!historyEntry) {
+      const result = await notes.updateOne(filter, { $set: changes });
+      if (result.matchedCount > 0 && changes.expiresAt !== undefined) {
+        await this.setExpiresAt(slug, changes.expiresAt);
+      }
+      return result.matchedCount > 0;
+    }
+
+    await this.prepareHistory(slug);
+    let replaces: number | undefined;
+    if (coalesceWithinMs !== undefined) {
+      const latest = await this.findLatestRevision(slug);
+      if (latest && canCoalesce(latest, historyEntry, coalesceWithinMs)) {
+        replaces = latest.version;
+      }
+    }
+    const update = { $set: changes, $inc: { historyVersion: 1 } };
+    const returnVersion = { returnDocument: 'after', projection: { historyVersion: 1, expiresAt: 1 } } as const;
+    let doc: NoteDocument | null = null;
+    if (replaces !== undefined) {
+      // Only while no other version was numbered after the one it replaces
+      doc = await notes.findOneAndUpdate({ ...filter, historyVersion: replaces }, update, returnVersion);
+    }
+    if (!doc) {
+      replaces = undefined;
+      doc = await notes.findOneAndUpdate(filter, update, returnVersion);
+    }
+    if (!doc) {
+      return false;
+    }
+    if (changes.expiresAt !== undefined) {
+      await this.setExpiresAt(slug, changes.expiresAt);
+    }
+    await this.addVersion(slug, doc.historyVersion ?? 0, historyEntry, doc.expiresAt, replaces);
+    return true;
+  }
+
+  async appendHistory(slug: string, entry: NoteHistoryEntry): Promise<boolean> {
+    await this.prepareHistory(slug);
+    const doc = await (await this.notes()).findOneAndUpdate(
+      { slug: slug },
+      { $inc: { historyVersion: 1 } },
+      { returnDocument: 'after', projection: { historyVersion: 1, expiresAt: 1 } }
+    );
+    if (!doc) {
+      return false;
+    }
+    await this.addVersion(slug, doc.historyVersion ?? 0, entry, doc.expiresAt);
+    return true;
+  }
+
+  async getHistory(slug: string): Promise<NoteVersion[]> {
+    await this.moveInlineHistory(slug);
+    const docs = await (await this.noteRevisions()).find({ slug: slug }).sort({ version: 1 }).toArray();
+    return rebuildVersions(docs.map(toRevisionRecord));
+  }
+
+  async getVersion(slug: string, version: number): Promise<NoteVersion | null> {
+    await this.moveInlineHistory(slug);
+    const versions = rebuildVersions(await this.loadKeyframeTail(slug, version));
+    const last = versions[versions.length - 1];
+    return last?.version === version ? last : null;
+  }
+
+  async pruneHistory(slug: string, retention: HistoryRetention, now: Date): Promise<number> {
+    await this.moveInlineHistory(slug);
+    const revisions = await this.noteRevisions();
+
+    // Version numbers and timestamps are enough to pick the versions to remove
+    const summaries = await revisions
+      .find({ slug: slug }, { projection: { _id: 0, version: 1, timestamp: 1 } })
+      .sort({ version: 1 })
+      .toArray();
+    const removed = new Set(selectRemovedVersions(summaries, retention, now));
+    if (removed.size === 0) {
+      return 0;
+    }
+
+    const records = (await revisions.find({ slug: slug }).sort({ version: 1 }).toArray()).map(toRevisionRecord);
+    const previous = new Map(records.map(record => [record.version, record]));
+    const kept = rebuildVersions(records).filter(version => !removed.has(version.version));
+    const keyframes: NoteRevisionRecord[] = [];
+    const patches: NoteRevisionRecord[] = [];
+    createRevisionRecords(kept).forEach((record, index) => {
+      const old = previous.get(record.version);
+      if (old?.content !== record.content || old?.patch !== record.patch) {
+        keyframes.push({ ...record, patch: undefined, content: kept[index].content });
+        if (!isKeyframe(record)) {
+          patches.push(record);
+        }
+      }
+    });
+
+    // Versions may be read meanwhile, so each step leaves a history that
+    // rebuilds: changed versions become keyframes first, then the removed
+    // versions go, and only then are the changed versions patched again
+    await this.replaceRevisions(slug, keyframes);
+    await revisions.deleteMany({ slug: slug, version: { $in: Array.from(removed) } });
+    await this.replaceRevisions(slug, patches);
+    return removed.size;
+  }
+
+  async delete(slug: string): Promise<boolean> {
+    const result = await (await this.notes()).deleteOne({ slug: slug });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+    await (await this.noteRevisions()).deleteMany({ slug: slug });
+    await (await this.noteViews()).deleteMany({ slug: slug });
+    await (await this.expiredNotes()).deleteOne({ _id: slug });
+    return true;
+  }
+
+  async purgeExpired(now: Date): Promise<number> {
+    const notes = await this.notes();
+    const expired = await notes
+      .find({ expiresAt: { $lte: now } }, { projection: { _id: 0, slug: 1, expiresAt: 1 } })
+      .toArray();
+    let removed = 0;
+    for (const { slug, expiresAt } of expired) {
+      // The note's expiration date may have been changed meanwhile
+      const result = await notes.deleteOne({ slug: slug, expiresAt: { $lte: now } });
+      if (result.deletedCount === 0 || !expiresAt) {
+        continue;
+      }
+      await (await this.noteRevisions()).deleteMany({ slug: slug });
+      await (await this.noteViews()).deleteMany({ slug: slug });
+      await this.rememberExpiry(slug, expiresAt);
+      removed++;
+    }
+    return removed;
+  }
+
+  async findExpired(slug: string, now: Date): Promise<Date | null> {
+    // Notes are remembered before they expire, and the TTL monitor only runs
+    // once a minute, so check both dates
+    const doc = await (await this.expiredNotes()).findOne({
+      _id: slug,
+      expiresAt: { $lte: now },
+      forgetAt: { $gt: now },
+    });
+    return doc ? doc.expiresAt : null;
+  }
+
+  async addShareLink(slug: string, link: ShareLink): Promise<boolean> {
+    const result = await (await this.notes()).updateOne(
+      { slug: slug },
+      { $push: { shareLinks: link } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async consumeShareLink(slug: string, linkId: string, now: Date): Promise<boolean> {
+    const notes = await this.notes();
+    const doc = await notes.findOne(
+      { slug: slug, 'shareLinks.id': linkId },
+      { projection: { 'shareLinks.$': 1 } }
+    );
+    const link = doc?.shareLinks?.[0];
+    if (!link) {
+      return false;
+    }
+
+    // The use limit never changes, so the current use count can be checked in the same update
+    const result = await notes.updateOne(
+      {
+        slug: slug,
+        shareLinks: {
+          $elemMatch: {
+            id: linkId,
+            revokedAt: null,
+            expiresAt: { $gt: now },
+            ...(link.maxUses != null ? { uses: { $lt: link.maxUses } } : {}),
+          },
+        },
+      },
+      { $inc: { 'shareLinks.$.uses': 1 } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async revokeShareLink(slug: string, linkId: string, revokedAt: Date): Promise<boolean> {
+    const result = await (await this.notes()).updateOne(
+      { slug: slug, 'shareLinks.id': linkId },
+      { $set: { 'shareLinks.$.revokedAt': revokedAt } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async findNotebook(slug: string): Promise<StoredNotebook | null> {
+    const doc = await (await this.notebooks()).findOne({ slug: slug });
+    if (!doc) {
+      return null;
+    }
+    const { _id, ...rest } = doc;
+    return { ...rest, id: _id.toHexString() };
+  }
+
+  async createNotebook(notebook: NewNotebook): Promise<StoredNotebook> {
+    const _id = new ObjectId();
+    const result = await (await this.notebooks()).insertOne({ ...notebook, _id });
+    if (!result.acknowledged) {
+      throw new Error('Failed to insert document.');
+    }
+    return { ...notebook, id: _id.toHexString() };
+  }
+
+  async listNotebookNotes(notebook: string): Promise<StoredNote[]> {
+    const docs = await (await this.notes())
+      .find({ notebook: notebook, deletedAt: null }, { projection: NOTE_PROJECTION })
+      .sort({ updatedAt: -1 })
+      .toArray();
+    return docs.map(toStoredNote);
+  }
+
+  async findBacklinks(slug: string): Promise<StoredNote[]> {
+    const docs = await (await this.linkedNotes())
+      .find({ links: slug, deletedAt: null }, { projection: NOTE_PROJECTION })
+      .sort({ updatedAt: -1 })
+      .toArray();
+    return docs.map(toStoredNote);
+  }
+
+  async searchNotes(query: string, options: NoteSearchOptions): Promise<NoteSearchResult> {
+    const notes = await this.searchableNotes();
+    // Public notes only; keep in sync with isPublicNote in src/lib/search
+    const filter: Filter<NoteDocument> = {
+      deletedAt: null,
+      unlisted: { $ne: true },
+      encrypted: { $ne: true },
+      maxViews: null,
+      viewPasswordHash: null,
+      passwordHash: null,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: options.now } }],
+    };
+    if (options.tag) {
+      filter.tags = options.tag;
+    }
+    // Without search terms (a tag listing), the most recently updated notes come first
+    const hasTerms = getSearchTerms(query).length > 0;
+    if (hasTerms) {
+      filter.$text = { $search: query };
+    }
+    const [docs, total] = await Promise.all([
+      notes
+        .find(filter, {
+          projection: hasTerms ? { ...NOTE_PROJECTION, score: { $meta: 'textScore' } } : NOTE_PROJECTION,
+        })
+        .sort(hasTerms ? { score: { $meta: 'textScore' }, updatedAt: -1 } : { updatedAt: -1 })
+        .skip(options.offset)
+        .limit(options.limit)
+        .toArray(),
+      notes.countDocuments(filter),
+    ]);
+    return { notes: docs.map(toStoredNote), total };
+  }
+
+  async recordView(slug: string, view: NoteViewRecord): Promise<void> {
+    const expiresAt = await this.findExpiresAt(slug);
+    await (await this.noteViews()).updateOne(
+      { slug: slug, day: view.day },
+      {
+        ...(expiresAt ? { $set: { expiresAt: expiresAt } } : {}),
+        $inc: {
+          views: 1,
+          ...(view.referrer ? { [`referrers.${encodeFieldName(view.referrer)}`]: 1 } : {}),
+        },
+        $addToSet: { visitors: view.visitorHash },
+      },
+      { upsert: true }
+    );
+  }
+
+  async getViewBuckets(slug: string): Promise<NoteViewBucket[]> {
+    const docs = await (await this.noteViews()).find({ slug: slug }).sort({ day: 1 }).toArray();
+    return docs.map(doc => ({
+      day: doc.day,
+      views: doc.views,
+      visitors: doc.visitors || [],
+      referrers: Object.fromEntries(
+        Object.entries(doc.referrers || {}).map(([host, count]) => [decodeURIComponent(host), count])
+      ),
+    }));
+  }
+
+  async consumeView(slug: string): Promise<StoredNote | null> {
+    const doc = await (await this.notes()).findOneAndUpdate(
+      {
+        slug: slug,
+        maxViews: { $gt: 0 },
+        $expr: { $lt: [{ $ifNull: ['$views', 0] }, '$maxViews'] },
+      },
+      { $inc: { views: 1 } },
+      { returnDocument: 'after', projection: NOTE_PROJECTION }
+    );
+    return doc ? toStoredNote(doc) : null;
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canCoalesce,
+  createCoalescedRecord,
+  createRevisionRecords,
+  getKeyframeTail,
+  isKeyframe,
+  KEYFRAME_INTERVAL,
+  rebuildVersions,
+  selectRemovedVersions,
+} from './revisions';
+import type { NoteHistoryEntry } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function entry(content: string, timestamp = new Date('2025-01-01T00:00:00Z'), author = 'ada'): NoteHistoryEntry {
+  return { content, timestamp, author };
+}
+
+// Versions that each add a line to a long enough note that patches pay off
+function growingEntries(count: number): NoteHistoryEntry[] {
+  const lines: string[] = ['# Notes', 'Some text that is long enough to make patches smaller than the content.'];
+  return Array.from({ length: count }, (_, index) => {
+    lines.push(`Line ${index + 1}`);
+    return entry(lines.join('\n'), new Date(Date.UTC(2025, 0, 1) + index * 1000));
+  });
+}
+
+describe('createRevisionRecords', () => {
+  it('stores patches between keyframes and rebuilds every version', () => {
+    const entries = growingEntries(KEYFRAME_INTERVAL + 5);
+    const records = createRevisionRecords(entries);
+
+    expect(records.map(record => record.version)).toEqual(entries.map((_, index) => index + 1));
+    expect(isKeyframe(records[0])).toBe(true);
+    expect(isKeyframe(records[1])).toBe(false);
+    expect(isKeyframe(records[KEYFRAME_INTERVAL])).toBe(true);
+    expect(rebuildVersions(records).map(version => version.content)).toEqual(entries.map(item => item.content));
+  });
+
+  it('keeps a version as a keyframe when its patch would be larger', () => {
+    const records = createRevisionRecords([entry('abc'), entry('xyz')]);
+    expect(records.every(isKeyframe)).toBe(true);
+  });
+
+  it('keeps the numbers of entries that already are versions', () => {
+    const records = createRevisionRecords([
+      { ...entry('first'), version: 3 },
+      { ...entry('second'), version: 7 },
+    ]);
+    expect(records.map(record => record.version)).toEqual([3, 7]);
+  });
+});
+
+describe('getKeyframeTail', () => {
+  it('returns the records from the last keyframe on', () => {
+    const records = createRevisionRecords(growingEntries(KEYFRAME_INTERVAL + 3));
+    const tail = getKeyframeTail(records);
+    expect(tail[0].version).toBe(KEYFRAME_INTERVAL + 1);
+    expect(tail).toHaveLength(3);
+  });
+
+  it('returns nothing without a keyframe', () => {
+    expect(getKeyframeTail([])).toEqual([]);
+  });
+});
+
+describe('rebuildVersions', () => {
+  it('rejects a patch that no longer applies', () => {
+    const records = createRevisionRecords(growingEntries(3));
+    records[0] = { ...records[0], content: 'Something else entirely' };
+    expect(() => rebuildVersions(records)).toThrow('Version 2 of the note history is damaged.');
+  });
+});
+
+describe('canCoalesce', () => {
+  const latest = createRevisionRecords([entry('a')])[0];
+  const soon = new Date(latest.timestamp.getTime() + 30 * 1000);
+
+  it('allows a save by the same author within the window', () => {
+    expect(canCoalesce(latest, entry('b', soon), 60 * 1000)).toBe(true);
+  });
+
+  it('refuses saves that are too late, by someone else or with a message', () => {
+    expect(canCoalesce(latest, entry('b', soon), 10 * 1000)).toBe(false);
+    expect(canCoalesce(latest, entry('b', soon, 'bob'), 60 * 1000)).toBe(false);
+    expect(canCoalesce(latest, { ...entry('b', soon), message: 'Fix typo' }, 60 * 1000)).toBe(false);
+  });
+});
+
+describe('createCoalescedRecord', () => {
+  it('replaces the latest version when the save can be coalesced', () => {
+    const entries = growingEntries(3);
+    const records = createRevisionRecords(entries);
+    const next = entry(`${entries[2].content}\nMore`, new Date(entries[2].timestamp.getTime() + 1000));
+
+    const { record, replacesLatest } = createCoalescedRecord(records, next, 60 * 1000);
+    expect(replacesLatest).toBe(true);
+    expect(record.version).toBe(3);
+    expect(rebuildVersions([...records.slice(0, -1), record])[2].content).toBe(next.content);
+  });
+
+  it('adds a version without a coalescing window', () => {
+    const records = createRevisionRecords(growingEntries(2));
+    const { record, replacesLatest } = createCoalescedRecord(records, entry('new'));
+    expect(replacesLatest).toBe(false);
+    expect(record.version).toBe(3);
+  });
+});
+
+describe('selectRemovedVersions', () => {
+  const now = new Date('2025-01-10T12:00:00Z');
+  // One version at 08:00 and one at 20:00 on each of the 9 days before now
+  const records = Array.from({ length: 18 }, (_, index) => ({
+    version: index + 1,
+    timestamp: new Date(Date.UTC(2025, 0, 1 + Math.floor(index / 2), index % 2 === 0 ? 8 : 20)),
+  }));
+
+  it('removes nothing without a policy', () => {
+    expect(selectRemovedVersions(records, {}, now)).toEqual([]);
+  });
+
+  it('keeps the newest versions', () => {
+    expect(selectRemovedVersions(records, { keepLast: 15 }, now)).toEqual([1, 2, 3]);
+  });
+
+  it('keeps the versions of the last days', () => {
+    const older = records.filter(record => now.getTime() - record.timestamp.getTime() > 2 * DAY_MS);
+    expect(selectRemovedVersions(records, { keepDays: 2 }, now)).toEqual(older.map(record => record.version));
+  });
+
+  it('keeps the last older version of each day when thinning', () => {
+    expect(selectRemovedVersions(records, { keepLast: 14, thinDaily: true }, now)).toEqual([1, 3]);
+  });
+
+  it('always keeps the latest version', () => {
+    expect(selectRemovedVersions(records, { keepDays: 0.001 }, now)).not.toContain(18);
+  });
+});
@@ -0,0 +1,177 @@
+// src/lib/store/revisions.ts
+// Storage format of note history, shared by all backends. Versions are kept
+// apart from the note as diff-match-patch patches against the version before,
+// with the full content as a keyframe at least every KEYFRAME_INTERVAL
+// versions, so rebuilding any version applies a bounded number of patches.
+// A version whose patch would be larger than its content (e.g. the ciphertext
+// of an encrypted note) is stored as a keyframe instead. Since every patch
+// depends on the versions before it, removing versions (see
+// selectRemovedVersions) means re-encoding the ones that are kept.
+
+import { diff_match_patch } from 'diff-match-patch';
+import type { HistoryRetention, NoteHistoryEntry, NoteRevisionRecord, NoteVersion } from './types';
+
+const dmp = new diff_match_patch();
+
+// At most this many versions in a row share a keyframe
+export const KEYFRAME_INTERVAL = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a record keeps the full content of its version.
+ */
+export function isKeyframe(record: NoteRevisionRecord): boolean {
+  return record.content !== undefined;
+}
+
+/**
+ * Returns the records from the last keyframe on, which is all that is needed
+ * to rebuild the latest version.
+ * @param records A note's records, oldest first.
+ */
+export function getKeyframeTail(records: NoteRevisionRecord[]): NoteRevisionRecord[] {
+  for (let index = records.length - 1; index >= 0; index--) {
+    if (isKeyframe(records[index])) {
+      return records.slice(index);
+    }
+  }
+  return [];
+}
+
+/**
+ * Rebuilds the versions stored in a run of records.
+ * @param records Consecutive records, oldest first, starting with a keyframe.
+ * @throws If a patch no longer applies, which means the history is damaged.
+ */
+export function rebuildVersions(records: NoteRevisionRecord[]): NoteVersion[] {
+  const versions: NoteVersion[] = [];
+  let content: string | undefined;
+  for (const { content: keyframeContent, patch, ...details } of records) {
+    if (keyframeContent !== undefined) {
+      content = keyframeContent;
+    } else if (content !== undefined && patch !== undefined) {
+      const [patched, results] = dmp.patch_apply(dmp.patch_fromText(patch), content);
+      if (results.some(applied => !applied)) {
+        throw new Error(`Version ${details.version} of the note history is damaged.`);
+      }
+      content = patched;
+    } else {
+      throw new Error(`Version ${details.version} of the note history has no keyframe.`);
+    }
+    versions.push({ ...details, content });
+  }
+  return versions;
+}
+
+/**
+ * Builds the record for a new version.
+ * @param tail The note's records from its last keyframe on (see getKeyframeTail).
+ * @param version The version's number, by default the one after the tail.
+ */
+export function createRevisionRecord(
+  tail: NoteRevisionRecord[],
+  entry: NoteHistoryEntry,
+  version: number = tail.length > 0 ? tail[tail.length - 1].version + 1 : 1
+): NoteRevisionRecord {
+  const { content, ...details } = entry;
+  const keyframe = { ...details, version, content };
+  if (tail.length === 0 || tail.length >= KEYFRAME_INTERVAL) {
+    return keyframe;
+  }
+
+  const previous = rebuildVersions(tail)[tail.length - 1].content;
+  const patch = dmp.patch_toText(dmp.patch_make(previous, content));
+  return patch.length < content.length ? { ...details, version, patch } : keyframe;
+}
+
+/**
+ * Builds the records for a run of new versions. Entries that already are
+ * versions (e.g. the versions kept when pruning a history) keep their numbers.
+ * @param tail The note's records from its last keyframe on, if it has any.
+ */
+export function createRevisionRecords(
+  entries: (NoteHistoryEntry | NoteVersion)[],
+  tail: NoteRevisionRecord[] = []
+): NoteRevisionRecord[] {
+  const records: NoteRevisionRecord[] = [];
+  let currentTail = tail;
+  for (const entry of entries) {
+    const record = createRevisionRecord(currentTail, entry, 'version' in entry ? entry.version : undefined);
+    records.push(record);
+    currentTail = isKeyframe(record) ? [record] : [...currentTail, record];
+  }
+  return records;
+}
+
+/**
+ * Checks whether a new version may replace the latest one instead of being
+ * added after it: it was saved within `withinMs` of the latest by the same
+ * author, and neither has a change message or events worth keeping apart.
+ */
+export function canCoalesce(latest: NoteRevisionRecord, entry: NoteHistoryEntry, withinMs: number): boolean {
+  return (
+    entry.timestamp.getTime() - latest.timestamp.getTime() <= withinMs &&
+    latest.author === entry.author &&
+    !latest.message &&
+    !entry.message &&
+    !latest.events?.length &&
+    !entry.events?.length
+  );
+}
+
+/**
+ * Builds the record for a new version, which replaces the latest version
+ * instead when it can be coalesced with it (see canCoalesce).
+ * @param tail The note's records from its last keyframe on (see getKeyframeTail).
+ * @param coalesceWithinMs How recent the latest version must be, if it may be replaced at all.
+ */
+export function createCoalescedRecord(
+  tail: NoteRevisionRecord[],
+  entry: NoteHistoryEntry,
+  coalesceWithinMs?: number
+): { record: NoteRevisionRecord; replacesLatest: boolean } {
+  const latest = tail[tail.length - 1];
+  if (latest && coalesceWithinMs !== undefined && canCoalesce(latest, entry, coalesceWithinMs)) {
+    // Encoded against the version before the one it replaces
+    return { record: createRevisionRecord(tail.slice(0, -1), entry, latest.version), replacesLatest: true };
+  }
+  return { record: createRevisionRecord(tail, entry), replacesLatest: false };
+}
+
+/**
+ * Picks the versions a retention policy removes at `now`. Versions within
+ * keepLast or keepDays stay; with thinDaily, so does the last of the older
+ * versions of each UTC day. The latest version always stays.
+ * @param records A note's records, oldest first.
+ * @returns The numbers of the versions to remove.
+ */
+export function selectRemovedVersions(
+  records: Pick<NoteRevisionRecord, 'version' | 'timestamp'>[],
+  retention: HistoryRetention,
+  now: Date
+): number[] {
+  const { keepLast, keepDays, thinDaily } = retention;
+  if (keepLast === undefined && keepDays === undefined && !thinDaily) {
+    return [];
+  }
+
+  // Kept versions are always the newest ones, so everything before this index is older
+  const keepSince = keepDays !== undefined ? now.getTime() - keepDays * DAY_MS : Infinity;
+  let olderCount = records.length - Math.max(keepLast ?? 0, 1);
+  while (olderCount > 0 && records[olderCount - 1].timestamp.getTime() >= keepSince) {
+    olderCount--;
+  }
+
+  const removed: number[] = [];
+  const getDay = (date: Date) => date.toISOString().slice(0, 10);
+  for (let index = 0; index < olderCount; index++) {
+    const record = records[index];
+    const lastOfDay =
+      index === olderCount - 1 || getDay(records[index + 1].timestamp) !== getDay(record.timestamp);
+    if (!(thinDaily && lastOfDay)) {
+      removed.push(record.version);
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,306 @@
+// src/lib/store/types.ts
+// Shared types for the note storage layer. Every backend (MongoDB, in-memory,
+// local JSON file) implements the NoteStore interface below, so API routes
+// never need to know which database they are talking to.
+
+// A change to a note's title or settings, recorded with the version it was
+// saved with. Secrets are only recorded as set or removed.
+export type NoteHistoryEvent =
+  | { type: 'title'; from: string; to: string }
+  | { type: 'tags'; from: string[]; to: string[] }
+  | { type: 'notebook'; from: string | null; to: string | null }
+  | { type: 'expiresAt'; from: string | null; to: string | null } // ISO dates, null for never
+  | { type: 'password'; secret: 'view' | 'edit' | 'owner'; action: 'set' | 'removed' }
+  | { type: 'restored'; version: number }; // The content and title were copied from an older version
+
+// What is known about a version besides its content
+export interface NoteHistoryDetails {
+  title?: string; // Missing on versions saved before titles were recorded
+  author?: string; // Display name given by whoever saved the version
+  message?: string; // Commit-style description of the change
+  events?: NoteHistoryEvent[]; // Title and settings changes saved with this version
+}
+
+// A single historical version of a note's content
+export interface NoteHistoryEntry extends NoteHistoryDetails {
+  content: string;
+  timestamp: Date;
+}
+
+// A historical version as read back from a store, numbered from 1 in the
+// order the versions were saved
+export interface NoteVersion extends NoteHistoryEntry {
+  version: number;
+}
+
+// How a version is stored, apart from the note (in MongoDB, in the
+// `noteRevisions` collection). Keyframes keep the full content; other
+// versions keep a diff-match-patch patch against the version before them
+// (see src/lib/store/revisions).
+export interface NoteRevisionRecord extends NoteHistoryDetails {
+  version: number;
+  timestamp: Date;
+  content?: string; // Set on keyframes
+  patch?: string; // Set on all other versions, in patch_toText format
+}
+
+// What a share link lets its holder do
+export type ShareScope = 'view' | 'history' | 'edit';
+
+// A share link issued for a note. The signed token itself is never stored,
+// only this record, which is checked for revocation and remaining uses.
+export interface ShareLink {
+  id: string;
+  scope: ShareScope;
+  createdAt: Date;
+  expiresAt: Date;
+  maxUses?: number | null; // Unlimited when missing
+  uses: number;
+  revokedAt?: Date | null;
+}
+
+// One view of a note, as recorded for analytics
+export interface NoteViewRecord {
+  day: string; // UTC day of the view, YYYY-MM-DD
+  visitorHash: string; // Salted hash of the viewer's IP address (see src/lib/analytics)
+  referrer: string | null; // Host of the referring page, if any
+}
+
+// All views of a note on one day. Buckets are kept apart from the note itself
+// (in MongoDB, in the `noteViews` collection).
+export interface NoteViewBucket {
+  day: string;
+  views: number;
+  visitors: string[]; // Distinct visitor hashes
+  referrers: Record<string, number>; // Views per referring host
+}
+
+// A note as returned by any store
+export interface StoredNote {
+  id: string;
+  slug: string;
+  title: string;
+  content: string;
+  passwordHash?: string | null; // Legacy single secret, acts as both view and edit secret
+  viewPasswordHash?: string | null;
+  editPasswordHash?: string | null;
+  ownerPasswordHash?: string | null;
+  encrypted?: boolean; // Title, content and history are ciphertext (see src/lib/e2e)
+  unlisted?: boolean; // Left out of search results
+  tags?: string[]; // Normalized with src/lib/tags
+  notebook?: string | null; // Slug of the notebook the note belongs to
+  links?: string[]; // Slugs the content links to with [[slug]] (see src/lib/wikiLinks)
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt?: Date | null;
+  deletedAt?: Date | null; // Set while the note is in the trash
+  revision?: number; // Incremented on every edit; missing on notes created before revisions existed
+  maxViews?: number | null; // The note can only be viewed this many times (see src/lib/viewLimit)
+  views?: number; // Views counted against maxViews
+  burnAfterReading?: boolean; // Deleted for good after its last allowed view
+  shareLinks?: ShareLink[];
+  historyRetention?: HistoryRetention | null; // Replaces the server's default policy for this note
+}
+
+// How much of a note's history is kept (see src/lib/historyRetention).
+// Versions matched by neither keepLast nor keepDays are removed, or thinned to
+// the last one of each day with thinDaily. The latest version is always kept.
+export interface HistoryRetention {
+  keepLast?: number; // Keep the newest N versions
+  keepDays?: number; // Keep every version saved within the last X days
+  thinDaily?: boolean; // Keep one version per (UTC) day of the older versions
+}
+
+// A note as handed to a store for insertion (the store assigns the id), with
+// its first versions. Notes are read back without their history, which is
+// loaded separately with getHistory and getVersion.
+export type NewNote = Omit<StoredNote, 'id'> & { history: NoteHistoryEntry[] };
+
+// A named collection of notes. Its password is needed to list its notes and
+// to add notes to it; the notes themselves keep their own passwords.
+export interface StoredNotebook {
+  id: string;
+  slug: string;
+  name: string;
+  passwordHash?: string | null;
+  createdAt: Date;
+}
+
+export type NewNotebook = Omit<StoredNotebook, 'id'>;
+
+// Fields that may be changed by an update. `expiresAt: null` clears expiration.
+export interface NoteChanges {
+  title?: string;
+  content?: string;
+  passwordHash?: string | null;
+  viewPasswordHash?: string | null;
+  editPasswordHash?: string | null;
+  ownerPasswordHash?: string | null;
+  tags?: string[];
+  notebook?: string | null;
+  links?: string[];
+  updatedAt?: Date;
+  expiresAt?: Date | null;
+  deletedAt?: Date | null;
+  revision?: number;
+  historyRetention?: HistoryRetention | null;
+}
+
+export interface NoteUpdateOptions {
+  historyEntry?: NoteHistoryEntry; // Appended to the history in the same operation
+  expectedRevision?: number; // Only update if the note is still at this revision
+  // Replace the latest version with historyEntry instead, if that version was
+  // saved this recently and can be merged with it (see canCoalesce)
+  coalesceWithinMs?: number;
+}
+
+export interface NoteSearchOptions {
+  offset: number; // Number of results to skip
+  limit: number; // Maximum number of results to return
+  now: Date; // Notes that expired by then are not searched
+  tag?: string; // Only notes with this tag
+}
+
+export interface NoteSearchResult {
+  notes: StoredNote[]; // Best matches first
+  total: number; // Matches across all pages
+}
+
+export interface NoteStore {
+  /**
+   * Finds a note by its slug.
+   * @returns The note, or null if no note has that slug.
+   */
+  findBySlug(slug: string): Promise<StoredNote | null>;
+
+  /**
+   * Checks whether a slug is already taken.
+   */
+  slugExists(slug: string): Promise<boolean>;
+
+  /**
+   * Inserts a new note.
+   * @returns The stored note including its generated id.
+   */
+  create(note: NewNote): Promise<StoredNote>;
+
+  /**
+   * Applies changes to a note in a single atomic operation, optionally
+   * appending a history entry and guarding against concurrent edits.
+   * @returns true if the note was updated, false if no note with that slug
+   * (and, when given, the expected revision) was found.
+   */
+  update(slug: string, changes: NoteChanges, options?: NoteUpdateOptions): Promise<boolean>;
+
+  /**
+   * Appends a single entry to a note's history without changing anything else.
+   * @returns true if a note with that slug was found, false otherwise.
+   */
+  appendHistory(slug: string, entry: NoteHistoryEntry): Promise<boolean>;
+
+  /**
+   * Returns every version of a note, oldest first.
+   */
+  getHistory(slug: string): Promise<NoteVersion[]>;
+
+  /**
+   * Rebuilds a single version of a note.
+   * @returns The version, or null if the note has no such version.
+   */
+  getVersion(slug: string, version: number): Promise<NoteVersion | null>;
+
+  /**
+   * Removes the versions of a note that a retention policy does not keep at
+   * `now`, re-encoding the versions that were stored as patches against them.
+   * @returns The number of versions removed.
+   */
+  pruneHistory(slug: string, retention: HistoryRetention, now: Date): Promise<number>;
+
+  /**
+   * Permanently removes a note together with its whole history and views.
+   * @returns true if a note with that slug was found, false otherwise.
+   */
+  delete(slug: string): Promise<boolean>;
+
+  /**
+   * Permanently removes every note whose expiration date has passed at `now`,
+   * together with its history and views, and remembers for a while when it
+   * expired (see src/lib/store/expiry). Stores also run this on their own.
+   * @returns The number of notes removed.
+   */
+  purgeExpired(now: Date): Promise<number>;
+
+  /**
+   * Looks up a note that was recently removed because it expired.
+   * @returns When the note expired, or null if no such note had that slug.
+   */
+  findExpired(slug: string, now: Date): Promise<Date | null>;
+
+  /**
+   * Adds a share link record to a note.
+   * @returns true if a note with that slug was found, false otherwise.
+   */
+  addShareLink(slug: string, link: ShareLink): Promise<boolean>;
+
+  /**
+   * Counts one use of a share link in a single atomic operation. The use is
+   * only counted if the link is not revoked, not expired at `now` and has
+   * uses left.
+   * @returns true if the use was counted, false otherwise.
+   */
+  consumeShareLink(slug: string, linkId: string, now: Date): Promise<boolean>;
+
+  /**
+   * Marks a share link as revoked.
+   * @returns true if the note has a share link with that id, false otherwise.
+   */
+  revokeShareLink(slug: string, linkId: string, revokedAt: Date): Promise<boolean>;
+
+  /**
+   * Finds a notebook by its slug.
+   * @returns The notebook, or null if no notebook has that slug.
+   */
+  findNotebook(slug: string): Promise<StoredNotebook | null>;
+
+  /**
+   * Creates a notebook.
+   * @returns The stored notebook including its generated id.
+   */
+  createNotebook(notebook: NewNotebook): Promise<StoredNotebook>;
+
+  /**
+   * Lists the notes in a notebook that are not in the trash, most recently
+   * updated first.
+   */
+  listNotebookNotes(notebook: string): Promise<StoredNote[]>;
+
+  /**
+   * Finds the notes that are not in the trash and link to a slug, most
+   * recently updated first.
+   */
+  findBacklinks(slug: string): Promise<StoredNote[]>;
+
+  /**
+   * Searches the title and content of public notes (see src/lib/search).
+   * Without search terms, all public notes with `options.tag` match.
+   */
+  searchNotes(query: string, options: NoteSearchOptions): Promise<NoteSearchResult>;
+
+  /**
+   * Counts a view of a note in its day bucket.
+   */
+  recordView(slug: string, view: NoteViewRecord): Promise<void>;
+
+  /**
+   * Returns a note's view buckets, oldest day first.
+   */
+  getViewBuckets(slug: string): Promise<NoteViewBucket[]>;
+
+  /**
+   * Counts one view of a note with a view limit in a single atomic operation.
+   * The view is only counted while the note has views left, so concurrent
+   * readers can never get more views than the limit allows.
+   * @returns The note after counting the view, or null if it had no views left.
+   */
+  consumeView(slug: string): Promise<StoredNote | null>;
+}
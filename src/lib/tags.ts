@@ -0,0 +1,39 @@
+// src/lib/tags.ts
+// Tags attached to notes. Tags are normalized to lowercase words joined by
+// dashes (e.g. "Meeting Notes" becomes "meeting-notes"), so filtering by a
+// tag does not depend on how it was typed.
+
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * Normalizes a single tag.
+ * @returns The tag, or an empty string if nothing usable is left.
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Validates and normalizes the tags sent with a note, either as an array of
+ * strings or as a comma separated string. Duplicates are dropped.
+ * @returns The tags, or an error message.
+ */
+export function parseTags(input: unknown): string[] | { error: string } {
+  const rawTags = typeof input === 'string' ? input.split(',') : input;
+  if (!Array.isArray(rawTags) || rawTags.some(tag => typeof tag !== 'string')) {
+    return { error: 'tags must be a list of strings.' };
+  }
+  const tags = Array.from(new Set(rawTags.map(normalizeTag).filter(Boolean)));
+  if (tags.length > MAX_TAGS) {
+    return { error: `A note can have at most ${MAX_TAGS} tags.` };
+  }
+  return tags;
+}
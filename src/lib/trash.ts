@@ -0,0 +1,52 @@
+// src/lib/trash.ts
+// Helpers for soft-deleted notes.
+// Deleting a note moves it to the trash by setting `deletedAt`. It can be
+// restored until the grace period (NOTE_TRASH_DAYS, default 7 days) ends,
+// after which it is treated as gone and purged the next time it is looked up.
+
+import { NextResponse } from 'next/server';
+import type { StoredNote } from '@/lib/store';
+import { requiresSecret } from '@/lib/noteAuth';
+
+const DEFAULT_TRASH_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns how long a deleted note stays restorable, in milliseconds.
+ */
+export function getTrashRetentionMs(): number {
+  const days = Number.parseFloat(process.env.NOTE_TRASH_DAYS || '');
+  return (Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_DAYS) * DAY_MS;
+}
+
+/**
+ * Returns the last moment a trashed note can be restored, or null if it is not in the trash.
+ */
+export function getRestorableUntil(note: StoredNote): Date | null {
+  return note.deletedAt ? new Date(note.deletedAt.getTime() + getTrashRetentionMs()) : null;
+}
+
+/**
+ * Checks whether a trashed note's grace period has ended.
+ */
+export function isTrashExpired(note: StoredNote): boolean {
+  const restorableUntil = getRestorableUntil(note);
+  return !!restorableUntil && restorableUntil <= new Date();
+}
+
+/**
+ * Builds the response returned for a note that is currently in the trash.
+ * It carries enough information for the pages to offer a restore.
+ */
+export function trashedNoteResponse(note: StoredNote): NextResponse {
+  return NextResponse.json(
+    {
+      message: 'Note has been deleted.',
+      // Restoring or purging needs the owner-level secret
+      isProtected: requiresSecret(note, 'owner'),
+      deletedAt: note.deletedAt?.toISOString(),
+      restorableUntil: getRestorableUntil(note)?.toISOString(),
+    },
+    { status: 404 }
+  );
+}
@@ -0,0 +1,38 @@
+// src/lib/unlockNote.ts
+// Client helper for unlocking a protected note. The server checks the password
+// once and answers with an httpOnly session cookie for that note, so the pages
+// never need to keep the password around or send it again.
+
+export interface UnlockResult {
+  ok: boolean;
+  access?: "view" | "edit" | "owner"; // What the password unlocked
+  message?: string; // Explains a failed attempt
+}
+
+/**
+ * Exchanges a note's password for an unlock session.
+ */
+export async function unlockNote(
+  slug: string,
+  password: string
+): Promise<UnlockResult> {
+  try {
+    const response = await fetch(`/api/notes/${slug}/unlock`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password }),
+    });
+    const data = await response.json();
+
+    if (response.ok) {
+      return { ok: true, access: data.access };
+    }
+    if (response.status === 401) {
+      return { ok: false, message: "Incorrect password. Please try again." };
+    }
+    return { ok: false, message: data.message || "Failed to unlock note." };
+  } catch (err) {
+    console.error("Error unlocking note:", err);
+    return { ok: false, message: "Could not connect to the server." };
+  }
+}
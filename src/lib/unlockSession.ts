@@ -0,0 +1,78 @@
+// src/lib/unlockSession.ts
+// Unlock sessions for password-protected notes.
+// POST /api/notes/[slug]/unlock checks the password once and stores a signed,
+// short-lived session in an httpOnly cookie named after the note, so later
+// requests for that note no longer carry the password. The session records the
+// access level it grants and a fingerprint of the password it was issued for,
+// so changing that password ends the session.
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { NoteAccess } from '@/lib/noteAuth';
+import { signPayload, verifySignedPayload } from '@/lib/signing';
+
+const UNLOCK_SESSION_PURPOSE = 'unlock';
+const UNLOCK_COOKIE_PREFIX = 'microdocs_unlock_';
+const DEFAULT_UNLOCK_SESSION_MINUTES = 30;
+
+export interface UnlockSession {
+  slug: string;
+  access: NoteAccess;
+  fingerprint: string; // Identifies the password the session was issued for
+  exp: number; // Expiry in milliseconds since the epoch
+}
+
+/**
+ * Returns how long an unlock session lasts (UNLOCK_SESSION_MINUTES, default 30).
+ */
+export function getUnlockSessionTtlMs(): number {
+  const minutes = Number.parseFloat(process.env.UNLOCK_SESSION_MINUTES || '');
+  return (minutes > 0 ? minutes : DEFAULT_UNLOCK_SESSION_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Returns the cookie name for a note. Slugs only contain [a-z0-9-], which is
+ * safe in cookie names.
+ */
+function getUnlockCookieName(slug: string): string {
+  return `${UNLOCK_COOKIE_PREFIX}${slug}`;
+}
+
+/**
+ * Reads and verifies the unlock session for a note from the request cookies.
+ * @returns The session, or null if there is no valid, unexpired session for this note.
+ */
+export function readUnlockSession(req: NextRequest, slug: string): UnlockSession | null {
+  const value = req.cookies.get(getUnlockCookieName(slug))?.value;
+  const session = verifySignedPayload<UnlockSession>(UNLOCK_SESSION_PURPOSE, value);
+  if (!session || session.slug !== slug || session.exp <= Date.now()) {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Stores a new unlock session on a response.
+ */
+export function setUnlockSessionCookie(
+  response: NextResponse,
+  slug: string,
+  access: NoteAccess,
+  fingerprint: string,
+  expiresAt: Date
+): void {
+  const session: UnlockSession = { slug, access, fingerprint, exp: expiresAt.getTime() };
+  response.cookies.set(getUnlockCookieName(slug), signPayload(UNLOCK_SESSION_PURPOSE, session), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Removes the unlock session for a note.
+ */
+export function clearUnlockSessionCookie(response: NextResponse, slug: string): void {
+  response.cookies.set(getUnlockCookieName(slug), '', { path: '/', maxAge: 0 });
+}
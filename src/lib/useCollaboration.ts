@@ -0,0 +1,284 @@
+// src/lib/useCollaboration.ts
+// React hook that keeps the edit page's content in sync with the live
+// collaboration session for a note (see src/app/api/notes/[slug]/collab).
+//
+// Local edits are sent as diff-match-patch patches against the last content
+// received from the server (the "shadow"). Incoming updates are merged with
+// any local edits that have not been sent yet by re-applying them on top.
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { diff_match_patch } from "diff-match-patch";
+
+const dmp = new diff_match_patch();
+
+// Wait this long after the last keystroke before sending an edit
+const SEND_DEBOUNCE_MS = 300;
+const CURSOR_DEBOUNCE_MS = 150;
+const RECONNECT_DELAY_MS = 3000;
+
+export interface CollabCursor {
+  start: number;
+  end: number;
+}
+
+export interface CollabParticipant {
+  id: string;
+  name: string;
+  color: string;
+  cursor: CollabCursor | null;
+}
+
+interface UseCollaborationOptions {
+  slug: string;
+  enabled: boolean;
+  name: string;
+  password?: string; // Needed to join protected notes
+  content: string;
+  setContent: (content: string) => void;
+  onSaved?: (revision: number, content: string) => void;
+}
+
+/**
+ * Parses one Server-Sent Events frame into its event name and JSON data.
+ */
+function parseEventFrame(frame: string): { event: string; data: unknown } | null {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+  if (dataLines.length === 0) return null; // Heartbeat comment
+  return { event, data: JSON.parse(dataLines.join("\n")) };
+}
+
+export function useCollaboration({
+  slug,
+  enabled,
+  name,
+  password,
+  content,
+  setContent,
+  onSaved,
+}: UseCollaborationOptions) {
+  const [connected, setConnected] = useState<boolean>(false);
+  const [participants, setParticipants] = useState<CollabParticipant[]>([]);
+  const [participantId, setParticipantId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refs hold the sync state so stream handlers always see the latest values
+  const contentRef = useRef(content);
+  const shadowRef = useRef(content); // Content we believe the server has
+  const versionRef = useRef(-1);
+  const clientIdRef = useRef<string | null>(null); // Secret, authorizes our edits
+  const sendTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const sendingRef = useRef(false);
+  const pendingCursorRef = useRef<CollabCursor | null>(null);
+  const setContentRef = useRef(setContent);
+  const onSavedRef = useRef(onSaved);
+  setContentRef.current = setContent;
+  onSavedRef.current = onSaved;
+
+  /**
+   * Adopts a newer server version, re-applying local edits that were not sent yet.
+   */
+  const rebase = useCallback((serverContent: string, version: number) => {
+    if (version <= versionRef.current) return;
+    versionRef.current = version;
+
+    const local = contentRef.current;
+    let next = serverContent;
+    if (local !== shadowRef.current) {
+      const unsent = dmp.patch_make(shadowRef.current, local);
+      [next] = dmp.patch_apply(unsent, serverContent);
+    }
+    shadowRef.current = serverContent;
+    if (next !== local) {
+      contentRef.current = next;
+      setContentRef.current(next);
+    }
+  }, []);
+
+  /**
+   * Sends local edits (and the latest cursor position) to the server.
+   */
+  const flush = useCallback(async () => {
+    const id = clientIdRef.current;
+    if (!id || sendingRef.current) return;
+
+    const local = contentRef.current;
+    const hasEdit = local !== shadowRef.current;
+    const cursor = pendingCursorRef.current;
+    if (!hasEdit && !cursor) return;
+
+    const patch = hasEdit
+      ? dmp.patch_toText(dmp.patch_make(shadowRef.current, local))
+      : undefined;
+    // Until the server answers, assume it has what we sent
+    if (hasEdit) shadowRef.current = local;
+    pendingCursorRef.current = null;
+    sendingRef.current = true;
+
+    try {
+      const response = await fetch(`/api/notes/${slug}/collab`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clientId: id, patch, cursor: cursor || undefined }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        rebase(data.content, data.version);
+      } else {
+        setError(data.message || "Failed to send changes.");
+      }
+    } catch (err) {
+      console.error("Error sending collaborative edit:", err);
+    } finally {
+      sendingRef.current = false;
+    }
+
+    // Edits made while the request was in flight
+    if (contentRef.current !== shadowRef.current || pendingCursorRef.current) {
+      flush();
+    }
+  }, [slug, rebase]);
+
+  // Schedule sending whenever the local content changes
+  useEffect(() => {
+    contentRef.current = content;
+    if (!connected || content === shadowRef.current) return;
+    if (sendTimerRef.current) clearTimeout(sendTimerRef.current);
+    sendTimerRef.current = setTimeout(flush, SEND_DEBOUNCE_MS);
+  }, [content, connected, flush]);
+
+  /**
+   * Shares the local cursor or selection with the other participants.
+   */
+  const sendCursor = useCallback(
+    (start: number, end: number) => {
+      pendingCursorRef.current = { start, end };
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+      cursorTimerRef.current = setTimeout(flush, CURSOR_DEBOUNCE_MS);
+    },
+    [flush]
+  );
+
+  // Open the event stream and keep it open while enabled
+  useEffect(() => {
+    if (!enabled || !slug) return;
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleEvent = (event: string, data: Record<string, unknown>) => {
+      switch (event) {
+        case "init":
+          clientIdRef.current = data.clientId as string;
+          setParticipantId(data.participantId as string);
+          versionRef.current = -1;
+          rebase(data.content as string, data.version as number);
+          setParticipants(data.participants as CollabParticipant[]);
+          setConnected(true);
+          setError(null);
+          break;
+        case "update":
+          rebase(data.content as string, data.version as number);
+          break;
+        case "participants":
+          setParticipants(data.participants as CollabParticipant[]);
+          break;
+        case "cursor": {
+          const participant = data as unknown as CollabParticipant;
+          setParticipants((current) =>
+            current.map((p) =>
+              p.id === participant.id ? participant : p
+            )
+          );
+          break;
+        }
+        case "saved":
+          onSavedRef.current?.(data.revision as number, shadowRef.current);
+          setError(null);
+          break;
+        case "error":
+          setError(data.message as string);
+          break;
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const headers: HeadersInit = {};
+        if (password) {
+          headers["Authorization"] = `Bearer ${password}`;
+        }
+        const response = await fetch(
+          `/api/notes/${slug}/collab?name=${encodeURIComponent(name)}`,
+          { headers, signal: controller.signal }
+        );
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => ({}));
+          setError(data.message || "Could not join live collaboration.");
+          return;
+        }
+
+        // Before the first update arrives, the loaded content is our shadow
+        shadowRef.current = contentRef.current;
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          let boundary = buffer.indexOf("\n\n");
+          while (boundary !== -1) {
+            const parsed = parseEventFrame(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            if (parsed) {
+              handleEvent(parsed.event, parsed.data as Record<string, unknown>);
+            }
+            boundary = buffer.indexOf("\n\n");
+          }
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Collaboration stream error:", err);
+      }
+
+      // The stream ended unexpectedly: try again shortly
+      clientIdRef.current = null;
+      setConnected(false);
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (sendTimerRef.current) clearTimeout(sendTimerRef.current);
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+      clientIdRef.current = null;
+      setConnected(false);
+      setParticipants([]);
+    };
+  }, [enabled, slug, name, password, rebase]);
+
+  return {
+    connected,
+    error,
+    sendCursor,
+    // Everyone except this browser
+    participants: participants.filter((p) => p.id !== participantId),
+  };
+}
@@ -0,0 +1,50 @@
+// src/lib/useWikiLinks.ts
+// React hook that prepares a note's Markdown for rendering: wiki links
+// (see src/lib/wikiLinks) are rewritten as regular links, and their targets
+// are looked up with GET /api/links so missing or expired notes can be
+// flagged. Targets are only looked up once per page.
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  getLinkedSlugs,
+  wikiLinksToMarkdown,
+  WikiLinkStatus,
+} from "@/lib/wikiLinks";
+
+// Wait this long after the last keystroke before looking up new targets
+const RESOLVE_DEBOUNCE_MS = 500;
+
+export function useWikiLinks(content: string) {
+  const [statuses, setStatuses] = useState<Record<string, WikiLinkStatus>>(
+    {}
+  );
+
+  const markdown = useMemo(() => wikiLinksToMarkdown(content), [content]);
+  const slugs = useMemo(() => getLinkedSlugs(content), [content]);
+
+  useEffect(() => {
+    const unresolved = slugs.filter((slug) => !(slug in statuses));
+    if (unresolved.length === 0) {
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/links?slugs=${encodeURIComponent(unresolved.join(","))}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setStatuses((current) => ({ ...current, ...data.links }));
+        }
+      } catch (err) {
+        // Links still work, they are just not flagged
+        console.error("Error resolving wiki links:", err);
+      }
+    }, RESOLVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [slugs, statuses]);
+
+  return { markdown, statuses };
+}
@@ -0,0 +1,60 @@
+// src/lib/viewLimit.ts
+// Helpers for notes that can only be viewed a limited number of times.
+// A note created with `maxViews` expires once it has been viewed that often;
+// a burn-after-reading note has `maxViews: 1` and is deleted for good right
+// after its view. Views are counted atomically by the store (see
+// NoteStore.consumeView) when a reader confirms they want to see the note.
+// Such notes are read-only: editing, history and live collaboration would
+// reveal their content without counting a view.
+
+import { NextResponse } from 'next/server';
+import type { StoredNote } from '@/lib/store';
+
+// Upper bound for `maxViews` when creating a note
+export const MAX_VIEW_LIMIT = 1000;
+
+/**
+ * Checks whether a note can only be viewed a limited number of times.
+ */
+export function hasViewLimit(note: StoredNote): boolean {
+  return note.maxViews != null;
+}
+
+/**
+ * Returns how many more times a note can be viewed, or null if it has no view limit.
+ */
+export function getViewsRemaining(note: StoredNote): number | null {
+  return note.maxViews != null ? Math.max(note.maxViews - (note.views ?? 0), 0) : null;
+}
+
+/**
+ * Validates the view limit options sent when creating a note.
+ * @returns The fields to store, or an error message.
+ */
+export function parseViewLimit(
+  burnAfterReading: unknown,
+  maxViews: unknown
+): { maxViews?: number; burnAfterReading?: boolean } | { error: string } {
+  if (burnAfterReading) {
+    return { maxViews: 1, burnAfterReading: true };
+  }
+  if (maxViews === undefined || maxViews === null || maxViews === '') {
+    return {};
+  }
+  const limit = Number(maxViews);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_VIEW_LIMIT) {
+    return { error: `maxViews must be a whole number between 1 and ${MAX_VIEW_LIMIT}.` };
+  }
+  return { maxViews: limit };
+}
+
+/**
+ * Builds the response for a request that would reveal a view-limited note
+ * without counting a view.
+ */
+export function viewLimitedResponse(action: string): NextResponse {
+  return NextResponse.json(
+    { message: `Notes with a view limit cannot ${action}.` },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,80 @@
+// src/lib/wikiLinks.ts
+// Wiki-style links between notes: `[[slug]]` links to the note with that
+// slug, `[[slug|label]]` shows a label instead. Used by the server to keep
+// each note's outgoing links (StoredNote.links) up to date, which is how
+// backlinks are found, and by the client to render the links. Links inside
+// code spans and code blocks are left alone.
+
+// Notes keep at most this many distinct outgoing links
+export const MAX_WIKI_LINKS = 100;
+
+// Href prefix of rendered wiki links
+export const WIKI_LINK_PREFIX = "/notes/";
+
+// The status of a link target, as returned by GET /api/links
+export type WikiLinkStatus = "ok" | "missing" | "expired";
+
+export interface WikiLink {
+  slug: string;
+  label: string;
+}
+
+const WIKI_LINK_PATTERN = /\[\[\s*([A-Za-z0-9_-]+)\s*(?:\|([^[\]|\n]+))?\]\]/g;
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`)/g;
+
+/**
+ * Applies a replacement to the parts of Markdown that are not code.
+ */
+function mapOutsideCode(
+  content: string,
+  replace: (text: string) => string
+): string {
+  // split() with a capturing group puts the code parts at the odd indexes
+  return content
+    .split(CODE_PATTERN)
+    .map((part, index) => (index % 2 === 1 ? part : replace(part)))
+    .join("");
+}
+
+/**
+ * Finds the wiki links in a note's Markdown, in order of appearance.
+ */
+export function parseWikiLinks(content: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  mapOutsideCode(content, (text) => {
+    for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+      links.push({ slug: match[1], label: match[2]?.trim() || match[1] });
+    }
+    return text;
+  });
+  return links;
+}
+
+/**
+ * Returns the distinct slugs a note's Markdown links to.
+ */
+export function getLinkedSlugs(content: string): string[] {
+  const slugs = new Set(parseWikiLinks(content).map((link) => link.slug));
+  return Array.from(slugs).slice(0, MAX_WIKI_LINKS);
+}
+
+/**
+ * Rewrites wiki links as regular Markdown links to the notes' pages.
+ */
+export function wikiLinksToMarkdown(content: string): string {
+  return mapOutsideCode(content, (text) =>
+    text.replace(
+      WIKI_LINK_PATTERN,
+      (_match, slug: string, label?: string) =>
+        `[${label?.trim() || slug}](${WIKI_LINK_PREFIX}${slug})`
+    )
+  );
+}
+
+/**
+ * Returns the slug a rendered link points to if it is a link to a note.
+ */
+export function getLinkedSlug(href: string | undefined): string | null {
+  const match = href?.match(/^\/notes\/([A-Za-z0-9_-]+)$/);
+  return match ? match[1] : null;
+}
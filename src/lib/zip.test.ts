@@ -0,0 +1,106 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { readZip, ZipReadOptions } from './zip';
+
+interface TestEntry {
+  name: string;
+  data: Buffer;
+  method?: number; // 0 stored (default), 8 deflated, anything else as is
+  flags?: number;
+}
+
+/**
+ * Builds a zip archive. CRCs are left at 0, since readZip does not check them.
+ */
+function buildZip(entries: TestEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const { name, data, method = 0, flags = 0 } of entries) {
+    const nameBytes = Buffer.from(name);
+    const stored = method === 8 ? deflateRawSync(data) : data;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, stored);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + stored.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+const options: ZipReadOptions = {
+  include: name => name.endsWith('.md'),
+  maxEntries: 10,
+  maxEntryBytes: 1024,
+};
+
+describe('readZip', () => {
+  it('reads stored and deflated entries', () => {
+    const archive = buildZip([
+      { name: 'a.md', data: Buffer.from('# A') },
+      { name: 'docs/b.md', data: Buffer.from('# B\n'.repeat(20)), method: 8 },
+    ]);
+    expect(readZip(archive, options)).toEqual([
+      { name: 'a.md', data: Buffer.from('# A') },
+      { name: 'docs/b.md', data: Buffer.from('# B\n'.repeat(20)) },
+    ]);
+  });
+
+  it('skips directories and entries that are not included', () => {
+    const archive = buildZip([
+      { name: 'docs/', data: Buffer.alloc(0) },
+      { name: 'image.png', data: Buffer.from('png') },
+      { name: 'a.md', data: Buffer.from('# A') },
+    ]);
+    expect(readZip(archive, options).map(entry => entry.name)).toEqual(['a.md']);
+  });
+
+  it('reports entries it cannot read', () => {
+    const archive = buildZip([
+      { name: 'secret.md', data: Buffer.from('x'), flags: 0x1 },
+      { name: 'large.md', data: Buffer.alloc(2048) },
+      { name: 'odd.md', data: Buffer.from('x'), method: 12 },
+    ]);
+    expect(readZip(archive, options)).toEqual([
+      { name: 'secret.md', error: 'Encrypted entries are not supported.' },
+      { name: 'large.md', error: 'The file is too large.' },
+      { name: 'odd.md', error: 'Unsupported compression method.' },
+    ]);
+  });
+
+  it('rejects archives with too many included entries', () => {
+    const archive = buildZip([
+      { name: 'a.md', data: Buffer.from('a') },
+      { name: 'b.md', data: Buffer.from('b') },
+    ]);
+    expect(() => readZip(archive, { ...options, maxEntries: 1 })).toThrow('The zip archive has more than 1 files.');
+  });
+
+  it('rejects data that is not a zip archive', () => {
+    expect(() => readZip(Buffer.from('not a zip archive, just some text'), options)).toThrow('Not a zip archive.');
+  });
+});
@@ -0,0 +1,108 @@
+// src/lib/zip.ts
+// Minimal reader for zip archives, enough to import notes from one (see
+// src/lib/noteImport). Supports stored and deflated entries, which covers the
+// archives made by common tools; anything else (encryption, zip64, other
+// compression methods) is reported per entry or rejected outright. Sizes are
+// capped while inflating, so a small archive cannot expand without limit.
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+export interface ZipReadOptions {
+  include: (name: string) => boolean; // Only these entries are read
+  maxEntries: number; // More included entries than this reject the archive
+  maxEntryBytes: number; // Larger entries are reported as errors
+}
+
+export interface ZipEntry {
+  name: string; // Path inside the archive
+  data?: Buffer; // Uncompressed content, missing if it could not be read
+  error?: string; // Why the content could not be read
+}
+
+/**
+ * Finds the end of central directory record, which may be followed by a comment.
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const earliest = Math.max(0, archive.length - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a zip archive.');
+}
+
+/**
+ * Reads the file entries of a zip archive that match `options.include`.
+ * @throws If the archive cannot be read or has too many entries.
+ */
+export function readZip(archive: Buffer, options: ZipReadOptions): ZipEntry[] {
+  const { include, maxEntries, maxEntryBytes } = options;
+  if (archive.length < 22) {
+    throw new Error('Not a zip archive.');
+  }
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('The zip archive is damaged.');
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeaderOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !include(name)) {
+      continue;
+    }
+    if (entries.length === maxEntries) {
+      throw new Error(`The zip archive has more than ${maxEntries} files.`);
+    }
+    if (flags & 0x1) {
+      entries.push({ name, error: 'Encrypted entries are not supported.' });
+      continue;
+    }
+    if (size > maxEntryBytes) {
+      entries.push({ name, error: 'The file is too large.' });
+      continue;
+    }
+    if (
+      localHeaderOffset + 30 > archive.length ||
+      archive.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER
+    ) {
+      entries.push({ name, error: 'The entry is damaged.' });
+      continue;
+    }
+
+    // The local header repeats the name and may have its own extra field
+    const dataStart =
+      localHeaderOffset + 30 + archive.readUInt16LE(localHeaderOffset + 26) + archive.readUInt16LE(localHeaderOffset + 28);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+    try {
+      if (method === 0) {
+        entries.push({ name, data: Buffer.from(compressed) });
+      } else if (method === 8) {
+        entries.push({ name, data: inflateRawSync(compressed, { maxOutputLength: maxEntryBytes }) });
+      } else {
+        entries.push({ name, error: 'Unsupported compression method.' });
+      }
+    } catch {
+      entries.push({ name, error: 'The entry could not be decompressed.' });
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,51 @@
+// src/test/routes.ts
+// Helpers for calling API route handlers in tests, which run against the
+// in-memory note store with generous rate limits (see vitest.config.mts).
+
+import { NextRequest } from 'next/server';
+import { POST as createNoteRoute } from '@/app/api/notes/route';
+
+interface RequestOptions {
+  body?: unknown; // Sent as JSON
+  password?: string; // Sent as `Authorization: Bearer <password>`
+  headers?: Record<string, string>;
+}
+
+/**
+ * Builds a request for a route handler.
+ * @param path The request path, e.g. '/api/notes/my-note'.
+ */
+export function apiRequest(method: string, path: string, options: RequestOptions = {}): NextRequest {
+  const { body, password, headers } = options;
+  return new NextRequest(new URL(path, 'http://localhost'), {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(password ? { Authorization: `Bearer ${password}` } : {}),
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/**
+ * Builds the context Next passes to handlers of a `[slug]` route.
+ */
+export function slugContext(slug: string) {
+  return { params: { slug } };
+}
+
+let noteCount = 0;
+
+/**
+ * Creates a note through the API, with a slug of its own.
+ * @returns The new note's slug.
+ */
+export async function createTestNote(fields: Record<string, unknown> = {}): Promise<string> {
+  const body = { title: 'Test note', content: 'Some content.', customSlug: `test-note-${++noteCount}`, ...fields };
+  const response = await createNoteRoute(apiRequest('POST', '/api/notes', { body }), {});
+  if (response.status !== 201) {
+    throw new Error(`Creating a test note failed with ${response.status}.`);
+  }
+  return (await response.json()).slug;
+}
@@ -0,0 +1,25 @@
+import { dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": resolve(__dirname, "src") },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    passWithNoTests: true,
+    env: {
+      NOTE_STORE: "memory",
+      SIGNING_SECRET: "test-secret",
+      RATE_LIMIT_CREATE: "10000/60",
+      RATE_LIMIT_READ: "10000/60",
+      RATE_LIMIT_UPDATE: "10000/60",
+      RATE_LIMIT_HISTORY: "10000/60",
+      RATE_LIMIT_UNLOCK: "10000/60",
+    },
+  },
+});